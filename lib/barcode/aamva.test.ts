@@ -0,0 +1,184 @@
+import { describe, expect, it } from 'vitest';
+import { parseAamva } from './aamva';
+
+// Compliance indicator, data element separator, record separator, segment terminator
+const PREFIX = '@\n\x1e\r';
+
+// Payload with real subfile designators: offsets and lengths are computed like an issuer would
+function payload(header: string, subfiles: [type: string, elements: string[]][]) {
+    const bodies = subfiles.map(([type, elements]) => `${type}${elements.join('\n')}\r`);
+    let offset = PREFIX.length + header.length + subfiles.length * 10;
+    const designators = subfiles.map(([type], i) => {
+        const designator = `${type}${String(offset).padStart(4, '0')}${String(bodies[i].length).padStart(4, '0')}`;
+        offset += bodies[i].length;
+        return designator;
+    });
+    return PREFIX + header + designators.join('') + bodies.join('');
+}
+
+// AAMVA 01 (2000): no jurisdiction version, full name in DAA, CCYYMMDD dates
+const VERSION_01 = payload('ANSI 6360000101', [
+    [
+        'DL',
+        [
+            'DAQT64235789',
+            'DAAPUBLIC,JOHN,QUINCY',
+            'DAG2300 WEST BROAD STREET',
+            'DAIRICHMOND',
+            'DAJVA',
+            'DAK232690000  ',
+            'DARD',
+            'DBA20261231',
+            'DBB19700101',
+            'DBC1',
+            'DBD20180115',
+            'DAU068 IN',
+        ],
+    ],
+]);
+
+// AAMVA 10 (2020), California: separate name elements, MMDDCCYY dates, a jurisdiction subfile
+const VERSION_10 = payload('ANSI 636014100102', [
+    [
+        'DL',
+        [
+            'DAQD1234562',
+            'DCSSAMPLE',
+            'DDEN',
+            'DACJOHN',
+            'DDFN',
+            'DADQUINCY',
+            'DDGN',
+            'DCAC',
+            'DCBNONE',
+            'DCDNONE',
+            'DBA08312030',
+            'DBB08311977',
+            'DBC1',
+            'DBD08312022',
+            'DAU070 IN',
+            'DAYBRO',
+            'DAG123 MAIN STREET',
+            'DAISACRAMENTO',
+            'DAJCA',
+            'DAK958221234',
+            'DCF00/00/0000NNNAN/ANFD/YY',
+            'DCGUSA',
+        ],
+    ],
+    ['ZC', ['ZCAY', 'ZCBCORR LENS']],
+]);
+
+// AAMVA 08 (2013), Ontario identification card: CCYYMMDD dates because the country is Canada
+const CANADIAN_ID = payload('ANSI 636012080001', [
+    [
+        'ID',
+        [
+            'DAQS1234-12345-65432',
+            'DCSSTUDENT',
+            'DACANNA',
+            'DADMARIA',
+            'DBA20290704',
+            'DBB19900704',
+            'DBC2',
+            'DBD20240704',
+            'DAU165 cm',
+            'DAJON',
+            'DAKM5V 2T6',
+            'DCGCAN',
+        ],
+    ],
+]);
+
+describe('parseAamva', () => {
+    it('reads the AAMVA 01 header and full name', () => {
+        expect(parseAamva(VERSION_01)).toMatchObject({
+            version: 1,
+            jurisdictionVersion: null,
+            issuerId: '636000',
+            documentType: 'DL',
+            documentNumber: 'T64235789',
+            lastName: 'PUBLIC',
+            firstName: 'JOHN',
+            middleName: 'QUINCY',
+            sex: 'M',
+            birthDate: '1970-01-01',
+            issueDate: '2018-01-15',
+            expiryDate: '2026-12-31',
+            address: {
+                street: '2300 WEST BROAD STREET',
+                street2: null,
+                city: 'RICHMOND',
+                state: 'VA',
+                postalCode: '23269',
+            },
+            country: null,
+            heightCm: 173,
+        });
+    });
+
+    it('reads an AAMVA 10 licence', () => {
+        expect(parseAamva(VERSION_10)).toMatchObject({
+            version: 10,
+            jurisdictionVersion: 1,
+            issuerId: '636014',
+            documentType: 'DL',
+            documentNumber: 'D1234562',
+            lastName: 'SAMPLE',
+            firstName: 'JOHN',
+            middleName: 'QUINCY',
+            sex: 'M',
+            birthDate: '1977-08-31',
+            issueDate: '2022-08-31',
+            expiryDate: '2030-08-31',
+            address: { street: '123 MAIN STREET', city: 'SACRAMENTO', state: 'CA', postalCode: '95822-1234' },
+            country: 'USA',
+            heightCm: 178,
+            eyeColor: 'BRO',
+            vehicleClass: 'C',
+            documentDiscriminator: '00/00/0000NNNAN/ANFD/YY',
+        });
+    });
+
+    it('keeps the elements of every subfile', () => {
+        const license = parseAamva(VERSION_10);
+        expect(license?.elements).toMatchObject({ DAQ: 'D1234562', DDE: 'N', ZCA: 'Y', ZCB: 'CORR LENS' });
+        expect(Object.keys(license?.elements ?? {})).toHaveLength(24);
+    });
+
+    it('reads a Canadian identification card', () => {
+        expect(parseAamva(CANADIAN_ID)).toMatchObject({
+            version: 8,
+            jurisdictionVersion: 0,
+            documentType: 'ID',
+            documentNumber: 'S1234-12345-65432',
+            sex: 'F',
+            address: { state: 'ON', postalCode: 'M5V 2T6' },
+            heightCm: 165,
+        });
+    });
+
+    it.each([
+        ['MMDDCCYY on US cards', VERSION_10.replace('DBB08311977', 'DBB12011977'), '1977-12-01'],
+        ['CCYYMMDD on Canadian cards', CANADIAN_ID.replace('DBB19900704', 'DBB19901207'), '1990-12-07'],
+        ['CCYYMMDD on AAMVA 01 cards', VERSION_01.replace('DBB19700101', 'DBB19701207'), '1970-12-07'],
+        [
+            'the other order when the expected one is no date',
+            VERSION_10.replace('DBB08311977', 'DBB19771231'),
+            '1977-12-31',
+        ],
+        ['no date from a short value', VERSION_10.replace('DBB08311977', 'DBB831977'), null],
+    ])('birth date: %s', (_, text, birthDate) => {
+        expect(parseAamva(text)?.birthDate).toBe(birthDate);
+    });
+
+    it('finds the header after scanner noise and with the pre-standard "AAMVA" file type', () => {
+        expect(parseAamva(`]L0${VERSION_10}`)?.documentNumber).toBe('D1234562');
+        expect(parseAamva(VERSION_01.replace('ANSI ', 'AAMVA'))?.issuerId).toBe('636000');
+    });
+
+    it('returns null for other barcodes', () => {
+        expect(parseAamva('https://example.com/ticket/42')).toBeNull();
+        expect(parseAamva(`${PREFIX}ANSI 636014100100`)).toBeNull();
+    });
+});
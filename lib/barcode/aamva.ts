@@ -0,0 +1,162 @@
+// === AAMVA DL/ID Card Design Standard (PDF417 on North American licence backs) ===
+// Payload: "@\n\x1e\rANSI " + issuer id (6) + version (2) + jurisdiction version (2) + entries (2),
+// subfile designators (type + offset + length), then per subfile "DAQ123\nDCSDOE\n...\r".
+// Offsets are unreliable in the wild, so elements are read by their 3-letter ids instead. Pure, no DOM.
+
+export type AamvaSex = 'M' | 'F' | 'X';
+
+export interface AamvaAddress {
+    street: string | null;
+    street2: string | null;
+    city: string | null;
+    /** Jurisdiction code (e.g. 'CA', 'ON') */
+    state: string | null;
+    postalCode: string | null;
+}
+
+export interface AamvaLicense {
+    /** AAMVA standard version (01 to 10) */
+    version: number;
+    /** Jurisdiction-specific version, null before AAMVA 02 */
+    jurisdictionVersion: number | null;
+    /** Issuer Identification Number of the jurisdiction (e.g. '636014' for California) */
+    issuerId: string;
+    /** Subfile holding the holder data: 'DL' (driving licence) or 'ID' (identification card) */
+    documentType: string;
+    documentNumber: string | null;
+    lastName: string | null;
+    firstName: string | null;
+    middleName: string | null;
+    sex: AamvaSex | null;
+    /** ISO dates (YYYY-MM-DD) */
+    birthDate: string | null;
+    issueDate: string | null;
+    expiryDate: string | null;
+    address: AamvaAddress;
+    /** 'USA' or 'CAN' */
+    country: string | null;
+    heightCm: number | null;
+    eyeColor: string | null;
+    vehicleClass: string | null;
+    /** Document discriminator (unique per issued card) */
+    documentDiscriminator: string | null;
+    /** Every data element by its id (DAQ, DCS, ...), trimmed */
+    elements: Record<string, string>;
+}
+
+const HEADER = /(ANSI ?|AAMVA)(\d{6})(\d{2})/;
+const RECORD_SEPARATOR = String.fromCharCode(0x1e);
+// Type + offset (4) + length (4), back to back after the header
+const DESIGNATOR = /(DL|ID|Z[A-Z])\d{8}/y;
+
+/** Parse an AAMVA PDF417 payload; null when the text isn't one */
+export function parseAamva(text: string): AamvaLicense | null {
+    const header = HEADER.exec(text);
+    if (!header) return null;
+    const [, , issuerId, versionDigits] = header;
+    const version = Number(versionDigits);
+    let rest = text.slice(header.index + header[0].length);
+    // Since 02: jurisdiction version before the entry count
+    const jurisdictionVersion = version >= 2 ? Number(rest.slice(0, 2)) : null;
+    rest = rest.slice(version >= 2 ? 4 : 2);
+
+    const types: string[] = [];
+    DESIGNATOR.lastIndex = 0;
+    for (let m = DESIGNATOR.exec(rest); m; m = DESIGNATOR.exec(rest)) types.push(m[1]);
+    const body = rest.slice(types.length * 10);
+
+    const elements: Record<string, string> = {};
+    for (let line of body
+        .split(RECORD_SEPARATOR)
+        .join('\n')
+        .split(/[\n\r]/)) {
+        // The first element of each subfile follows its type ("DLDAQ...")
+        const type = types.find((t) => line.startsWith(t) && /^[DZ][A-Z]{2}/.test(line.slice(2)));
+        if (type) line = line.slice(2);
+        const m = /^([DZ][A-Z]{2})(.*)$/.exec(line);
+        if (m && !(m[1] in elements)) elements[m[1]] = m[2].trim();
+    }
+    if (!Object.keys(elements).length) return null;
+
+    const get = (id: string) => elements[id] || null;
+    const country = get('DCG');
+    // Pre-2009 cards: full name "LAST,FIRST,MIDDLE" (DAA) or given names "FIRST,MIDDLE" (DCT)
+    const fullName = (get('DAA') ?? '').split(/[,$]/).map((s) => s.trim());
+    const givenNames = (get('DCT') ?? '').split(/[, ]/).filter(Boolean);
+    const date = (id: string) => aamvaDate(get(id), country === 'CAN' || version === 1);
+
+    return {
+        version,
+        jurisdictionVersion,
+        issuerId,
+        documentType: types.find((t) => t === 'DL' || t === 'ID') ?? types[0] ?? 'DL',
+        documentNumber: get('DAQ'),
+        lastName: get('DCS') ?? get('DAB') ?? (fullName[0] || null),
+        firstName: get('DAC') ?? givenNames[0] ?? (fullName[1] || null),
+        middleName: get('DAD') ?? (givenNames.slice(1).join(' ') || fullName[2] || null),
+        sex: aamvaSex(get('DBC')),
+        birthDate: date('DBB'),
+        issueDate: date('DBD'),
+        expiryDate: date('DBA'),
+        address: {
+            street: get('DAG'),
+            street2: get('DAH'),
+            city: get('DAI'),
+            state: get('DAJ'),
+            postalCode: postalCode(get('DAK')),
+        },
+        country,
+        heightCm: heightCm(get('DAU')),
+        eyeColor: get('DAY'),
+        vehicleClass: get('DCA'),
+        documentDiscriminator: get('DCF'),
+        elements,
+    };
+}
+
+// MMDDCCYY on US cards, CCYYMMDD on Canadian (and AAMVA 01) cards; the other order is tried as a fallback
+function aamvaDate(value: string | null, yearFirst: boolean): string | null {
+    const d = value?.replace(/\D/g, '');
+    if (!d || d.length !== 8) return null;
+    const ymd = [d.slice(0, 4), d.slice(4, 6), d.slice(6, 8)];
+    const mdy = [d.slice(4, 8), d.slice(0, 2), d.slice(2, 4)];
+    for (const [y, m, day] of yearFirst ? [ymd, mdy] : [mdy, ymd]) {
+        const year = Number(y),
+            month = Number(m),
+            dd = Number(day);
+        if (year >= 1900 && year < 2200 && month >= 1 && month <= 12 && dd >= 1 && dd <= 31) return `${y}-${m}-${day}`;
+    }
+    return null;
+}
+
+function aamvaSex(value: string | null): AamvaSex | null {
+    switch (value?.toUpperCase()) {
+        case '1':
+        case 'M':
+            return 'M';
+        case '2':
+        case 'F':
+            return 'F';
+        case '9':
+        case 'X':
+            return 'X';
+        default:
+            return null;
+    }
+}
+
+// "070 IN" / "178 cm"
+function heightCm(value: string | null) {
+    const m = value && /(\d+)\s*(IN|CM)/i.exec(value);
+    if (!m) return null;
+    const n = Number(m[1]);
+    return m[2].toUpperCase() === 'IN' ? Math.round(n * 2.54) : n;
+}
+
+// US ZIP+4 is padded to 9 digits ("902100000"): drop an empty +4
+function postalCode(value: string | null) {
+    if (!value) return null;
+    if (/^\d{9}$/.test(value))
+        return value.endsWith('0000') ? value.slice(0, 5) : `${value.slice(0, 5)}-${value.slice(5)}`;
+    return value;
+}
@@ -0,0 +1,4 @@
+export { parseAamva } from './aamva';
+export type { AamvaAddress, AamvaLicense, AamvaSex } from './aamva';
+export { readBarcodes } from './read';
+export type { Barcode, BarcodeFormat, BarcodeInput, BarcodeReadOptions } from './read';
@@ -0,0 +1,60 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { decodePng } from '../replay/png';
+import { readBarcodes, type BarcodeReadOptions } from './read';
+
+// Generated with zxing-wasm's writer: an AAMVA 09 Virginia licence back (PDF417) and a QR code
+const fixture = (name: string) => readFileSync(join(import.meta.dirname, 'fixtures', name));
+const wasmBinary = readFileSync(
+    join(import.meta.dirname, '../../node_modules/zxing-wasm/dist/reader/zxing_reader.wasm'),
+);
+const options: BarcodeReadOptions = {
+    engine: 'wasm',
+    wasmBinary: wasmBinary.buffer.slice(wasmBinary.byteOffset, wasmBinary.byteOffset + wasmBinary.byteLength),
+};
+
+describe('readBarcodes', () => {
+    it('decodes a licence PDF417 and parses its AAMVA fields', async () => {
+        const [barcode, ...others] = await readBarcodes(new Blob([fixture('pdf417-aamva.png')]), options);
+
+        expect(others).toEqual([]);
+        expect(barcode.format).toBe('pdf417');
+        // Separators kept as control characters
+        expect(barcode.text.startsWith('@\n\x1e\rANSI 636000090002DL')).toBe(true);
+        expect(barcode.corners).toHaveLength(4);
+        expect(barcode.aamva).toMatchObject({
+            version: 9,
+            jurisdictionVersion: 0,
+            issuerId: '636000',
+            documentType: 'DL',
+            documentNumber: 'T16700185',
+            lastName: 'MAPLE',
+            firstName: 'JANE',
+            middleName: 'ELIZABETH',
+            sex: 'F',
+            birthDate: '1985-07-14',
+            issueDate: '2023-07-15',
+            expiryDate: '2031-07-14',
+            address: { street: '1 OAK LANE', city: 'RICHMOND', state: 'VA', postalCode: '23219' },
+            country: 'USA',
+            heightCm: 165,
+        });
+    });
+
+    it('decodes a QR code from raw RGBA pixels', async () => {
+        const pixels = await decodePng(fixture('qr-code.png'));
+        expect(await readBarcodes(pixels, options)).toEqual([
+            {
+                format: 'qr_code',
+                text: 'https://example.com/verify/2d-doc?id=FR0001',
+                corners: expect.any(Array),
+                aamva: null,
+            },
+        ]);
+    });
+
+    it('only reports the requested formats', async () => {
+        expect(await readBarcodes(new Blob([fixture('qr-code.png')]), { ...options, formats: ['pdf417'] })).toEqual([]);
+    });
+});
@@ -0,0 +1,161 @@
+import type { Point } from '../core/geometry';
+import { loadImageCanvas } from '../core/image';
+import type { ImageInput } from '../core/types';
+import type { RgbaImage } from '../mrz/locate';
+import { parseAamva, type AamvaLicense } from './aamva';
+
+// === 2D barcode reading (PDF417 on licence backs, QR / Data Matrix 2D-Doc on EU documents) ===
+// Native BarcodeDetector when the browser has it for the requested formats, otherwise
+// zxing-wasm (optional peer dependency). Works on still images: raw RGBA pixels and encoded
+// image files (Blob) need no DOM, so fixtures can be decoded in Node.
+
+/** BarcodeDetector format names */
+export type BarcodeFormat = 'pdf417' | 'qr_code' | 'data_matrix' | 'aztec';
+
+export interface Barcode {
+    format: BarcodeFormat;
+    /** Decoded payload */
+    text: string;
+    /** Corners in image pixels (clockwise from top-left), empty when unknown */
+    corners: Point[];
+    /** AAMVA driving licence / ID fields, when the payload is an AAMVA PDF417 */
+    aamva: AamvaLicense | null;
+}
+
+export interface BarcodeReadOptions {
+    /**
+     * Symbologies to look for
+     * @default ['pdf417', 'qr_code', 'data_matrix']
+     */
+    formats?: BarcodeFormat[];
+    /**
+     * 'auto': BarcodeDetector when it supports every requested format, else zxing-wasm
+     * @default 'auto'
+     */
+    engine?: 'auto' | 'native' | 'wasm';
+    /** Where to fetch `zxing_reader.wasm` from (default: the jsDelivr CDN build matching the package) */
+    wasmUrl?: string;
+    /** `zxing_reader.wasm` bytes instead of fetching it (e.g. read from node_modules when decoding fixtures in Node) */
+    wasmBinary?: ArrayBuffer;
+}
+
+export type BarcodeInput = ImageInput | RgbaImage;
+
+const ZXING_FORMATS: Record<BarcodeFormat, string> = {
+    pdf417: 'PDF417',
+    qr_code: 'QRCode',
+    data_matrix: 'DataMatrix',
+    aztec: 'Aztec',
+};
+
+// BarcodeDetector is not in lib.dom (Chromium, Android, Safari 17+ only)
+interface NativeDetectedBarcode {
+    format: string;
+    rawValue: string;
+    cornerPoints: Point[];
+}
+interface NativeBarcodeDetector {
+    detect(source: ImageBitmapSource): Promise<NativeDetectedBarcode[]>;
+}
+interface NativeBarcodeDetectorClass {
+    new (options: { formats: string[] }): NativeBarcodeDetector;
+    getSupportedFormats(): Promise<string[]>;
+}
+
+function nativeDetectorClass() {
+    return (globalThis as { BarcodeDetector?: NativeBarcodeDetectorClass }).BarcodeDetector ?? null;
+}
+
+async function supportsNatively(formats: BarcodeFormat[]) {
+    const Detector = nativeDetectorClass();
+    if (!Detector) return false;
+    const supported = await Detector.getSupportedFormats().catch(() => [] as string[]);
+    return formats.every((f) => supported.includes(f));
+}
+
+function isRgbaImage(input: BarcodeInput): input is RgbaImage {
+    return typeof input === 'object' && 'data' in input && 'width' in input && 'height' in input;
+}
+
+async function readNative(input: BarcodeInput, formats: BarcodeFormat[]): Promise<Omit<Barcode, 'aamva'>[]> {
+    const Detector = nativeDetectorClass();
+    if (!Detector) throw new Error('BarcodeDetector is not available');
+    const source = isRgbaImage(input)
+        ? new ImageData(new Uint8ClampedArray(input.data), input.width, input.height)
+        : await loadImageCanvas(input);
+    const found = await new Detector({ formats }).detect(source);
+    return found.flatMap((b) =>
+        formats.includes(b.format as BarcodeFormat)
+            ? [{ format: b.format as BarcodeFormat, text: b.rawValue, corners: b.cornerPoints }]
+            : [],
+    );
+}
+
+// zxing-wasm loader (module-level); the wasm source is fixed on first use
+let __zxingPromise: Promise<typeof import('zxing-wasm/reader')> | null = null;
+function loadZxing({ wasmUrl, wasmBinary }: Pick<BarcodeReadOptions, 'wasmUrl' | 'wasmBinary'>) {
+    if (__zxingPromise) return __zxingPromise;
+    __zxingPromise = import('zxing-wasm/reader').then(
+        (zxing) => {
+            if (wasmBinary) {
+                zxing.prepareZXingModule({ overrides: { wasmBinary } });
+            } else if (wasmUrl) {
+                zxing.prepareZXingModule({
+                    overrides: {
+                        locateFile: (path: string, prefix: string) =>
+                            path.endsWith('.wasm') ? wasmUrl : prefix + path,
+                    },
+                });
+            }
+            return zxing;
+        },
+        (e) => {
+            // Allow a retry on the next call
+            __zxingPromise = null;
+            throw e;
+        },
+    );
+    return __zxingPromise;
+}
+
+async function readWasm(
+    input: BarcodeInput,
+    formats: BarcodeFormat[],
+    wasm: Pick<BarcodeReadOptions, 'wasmUrl' | 'wasmBinary'>,
+): Promise<Omit<Barcode, 'aamva'>[]> {
+    const zxing = await loadZxing(wasm);
+    // Files and pixels go straight to the decoder; elements and URLs are rasterized first
+    let pixels: Blob | RgbaImage;
+    if (isRgbaImage(input) || input instanceof Blob) pixels = input;
+    else {
+        const canvas = await loadImageCanvas(input);
+        const ctx = canvas.getContext('2d', { willReadFrequently: true });
+        if (!ctx) throw new Error('2D canvas not available');
+        pixels = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    }
+    const zxingFormats = formats.map((f) => ZXING_FORMATS[f]);
+    const results = await zxing.readBarcodes(pixels as Blob | ImageData, {
+        formats: zxingFormats as NonNullable<Parameters<typeof zxing.readBarcodes>[1]>['formats'],
+        tryHarder: true,
+        maxNumberOfSymbols: 4,
+        // Keep control characters (AAMVA separators) instead of "<LF>" placeholders
+        textMode: 'Plain',
+    });
+    return results.flatMap((r) => {
+        const format = formats.find((f) => r.symbology === ZXING_FORMATS[f] || r.format === ZXING_FORMATS[f]);
+        if (!r.isValid || !format) return [];
+        const { topLeft, topRight, bottomRight, bottomLeft } = r.position;
+        return [{ format, text: r.text, corners: [topLeft, topRight, bottomRight, bottomLeft] }];
+    });
+}
+
+/**
+ * Find and decode 2D barcodes on a still image (e.g. CaptureResult.cardImage of a licence back).
+ * AAMVA PDF417 payloads are parsed into `aamva`. zxing-wasm must be installed for the fallback.
+ */
+export async function readBarcodes(input: BarcodeInput, options: BarcodeReadOptions = {}): Promise<Barcode[]> {
+    const { formats = ['pdf417', 'qr_code', 'data_matrix'], engine = 'auto', ...wasm } = options;
+    const useNative = engine === 'native' || (engine === 'auto' && (await supportsNatively(formats)));
+    const found = useNative ? await readNative(input, formats) : await readWasm(input, formats, wasm);
+    return found.map((b) => ({ ...b, aamva: b.format === 'pdf417' ? parseAamva(b.text) : null }));
+}
@@ -0,0 +1,177 @@
+import type { ReactNode, RefObject } from 'react';
+import type { GuidanceHint } from '../../core/guidance';
+import type { IdCheckSession, IdCheckSessionState } from '../../core/session';
+import { describeError, formatGuidance, formatMessage, type Messages } from '../../i18n';
+
+// Fullscreen camera shell shared by LightIdCheck and LightIdCheckFlow:
+// top bar (Close, camera picker, torch + debug controls), video/canvas preview and startup state.
+// `children` are rendered above the preview (step banners, panels, ...).
+
+export interface CaptureOverlayProps {
+    session: IdCheckSession;
+    state: IdCheckSessionState;
+    videoRef: RefObject<HTMLVideoElement | null>;
+    canvasRef: RefObject<HTMLCanvasElement | null>;
+    isOpen: boolean;
+    debug: boolean;
+    className?: string;
+    onClose: () => void;
+    messages: Messages;
+    /** Replaces the default hint pill; return null to hide hints */
+    renderGuidance?: (hint: GuidanceHint, text: string) => ReactNode;
+    children?: ReactNode;
+}
+
+export function CaptureOverlay({
+    session,
+    state,
+    videoRef,
+    canvasRef,
+    isOpen,
+    debug,
+    className,
+    onClose,
+    messages,
+    renderGuidance,
+    children,
+}: CaptureOverlayProps) {
+    const { overlay, error, isStreaming, guidance } = state;
+    const guidanceText = guidance && formatGuidance(guidance, messages);
+    return (
+        <div className={"w-full "+ className}>
+            {isOpen && (
+                <div
+                    className="fixed inset-0 z-50 bg-black"
+                    style={{
+                        paddingTop: 'env(safe-area-inset-top)',
+                        paddingBottom: 'env(safe-area-inset-bottom)',
+                        paddingLeft: 'env(safe-area-inset-left)',
+                        paddingRight: 'env(safe-area-inset-right)',
+                    }}
+                >
+                    {/* Top bar */}
+                    <div className={"absolute top-0 right-0 left-0 z-10 flex items-center justify-between px-4 py-3 text-white/95"}>
+                        <div className="flex items-center gap-2">
+                            <button
+                                type='button'
+                                onClick={onClose}
+                                className="rounded-xl border border-white/20 bg-white/10 px-3 py-1.5 backdrop-blur"
+                            >
+                                {messages.close}
+                            </button>
+                            {state.cameras.length > 1 && (
+                                <select
+                                    aria-label={messages.camera}
+                                    value={state.selectedCameraId ?? ''}
+                                    onChange={(e) => session.selectCamera(e.target.value || null)}
+                                    className="max-w-40 rounded-xl border border-white/20 bg-white/10 px-2 py-1.5 text-sm backdrop-blur"
+                                >
+                                    <option value="">{messages.cameraAuto}</option>
+                                    {state.cameras.map((c, i) => (
+                                        <option key={c.deviceId} value={c.deviceId}>
+                                            {c.label || formatMessage(messages.cameraFallback, { index: i + 1 })}
+                                        </option>
+                                    ))}
+                                </select>
+                            )}
+                            {state.torchAvailable && (
+                                <button
+                                    type='button'
+                                    aria-pressed={state.torch}
+                                    onClick={() => session.setTorch(!state.torch)}
+                                    className={`rounded-xl border border-white/20 px-3 py-1.5 backdrop-blur ${
+                                        state.torch ? 'bg-yellow-300 text-black' : 'bg-white/10'
+                                    }`}
+                                >
+                                    {state.torch ? messages.torchOff : messages.torchOn}
+                                </button>
+                            )}
+                        </div>
+                        <div className={"flex items-center gap-2" + (debug ? ' visible' : ' invisible')}>
+                            <Segmented
+                                value={overlay}
+                                onChange={session.setOverlay}
+                                options={[
+                                    { value: 'face', label: messages.overlayFace },
+                                    { value: 'card', label: messages.overlayCard },
+                                ]}
+                            />
+                            <button
+                                type='button'
+                                onClick={() => void session.capture()}
+                                disabled={!isStreaming || state.paused}
+                                className="rounded-xl border border-white/20 bg-blue-600 px-3 py-1.5 text-white disabled:opacity-50"
+                            >
+                                {messages.capture}
+                            </button>
+                        </div>
+                    </div>
+
+                    {/* Video + Canvas preview (fills screen) */}
+                    <div className="absolute inset-0">
+                        <video ref={videoRef} className="hidden" />
+                        <canvas
+                            ref={canvasRef}
+                            className="block h-full w-full"
+                            style={{ touchAction: 'none' }}
+                        />
+                        {!isStreaming && (
+                            <div className="absolute inset-0 grid place-items-center text-white/90">
+                                <div className="text-center">
+                                    <div className="text-lg font-semibold">
+                                        {messages.startingCamera}
+                                    </div>
+                                    {error && (
+                                        <div className="mt-2 text-red-300">
+                                            {describeError(error, messages)}
+                                        </div>
+                                    )}
+                                </div>
+                            </div>
+                        )}
+                        {isStreaming && guidance && guidanceText && (
+                            <div aria-live="polite">
+                                {renderGuidance ? (
+                                    renderGuidance(guidance, guidanceText)
+                                ) : (
+                                    <div className="absolute right-0 bottom-24 left-0 flex justify-center px-4">
+                                        <div className="rounded-full bg-black/60 px-4 py-2 text-sm font-medium text-white backdrop-blur">
+                                            {guidanceText}
+                                        </div>
+                                    </div>
+                                )}
+                            </div>
+                        )}
+                        {children}
+                    </div>
+                </div>
+            )}
+        </div>
+    );
+}
+
+
+function Segmented<T extends string>({
+    value,
+    onChange,
+    options,
+}: {
+    value: T;
+    onChange: (v: T) => void;
+    options: { value: T; label: string }[];
+}) {
+    return (
+        <div className="flex overflow-hidden rounded-xl border border-white/20 bg-white/10 backdrop-blur">
+            {options.map((opt) => (
+                <button
+                    type='button'
+                    key={opt.value}
+                    onClick={() => onChange(opt.value)}
+                    className={`px-3 py-1.5 text-sm ${value === opt.value ? 'bg-white text-black' : 'text-white/90'}`}
+                >
+                    {opt.label}
+                </button>
+            ))}
+        </div>
+    );
+}
@@ -0,0 +1,106 @@
+import { useState, type PointerEvent } from 'react';
+import type { CaptureResult } from '../../core/types';
+import type { MessageKey, Messages } from '../../i18n';
+
+// Review stage shown over the paused preview after a capture: the captured frame
+// (as returned, not mirrored) with tap-to-zoom, its quality scores, and Retake / accept.
+// The stream keeps running underneath, so retaking is just session.resume().
+
+export interface CaptureReviewProps {
+    result: CaptureResult;
+    messages: Messages;
+    /** Heading, e.g. the step title */
+    title?: string;
+    /** Accept button label (default: messages.usePhoto) */
+    acceptLabel?: string;
+    onAccept: () => void;
+    onRetake: () => void;
+}
+
+const ZOOM = 2.5;
+
+export function CaptureReview({ result, messages, title, acceptLabel, onAccept, onRetake }: CaptureReviewProps) {
+    // Zoom origin in % of the image, null when not zoomed
+    const [origin, setOrigin] = useState<{ x: number; y: number } | null>(null);
+    const checks = result.quality?.checks ?? [];
+
+    const originAt = (e: PointerEvent<HTMLElement>) => {
+        const r = e.currentTarget.getBoundingClientRect();
+        return {
+            x: Math.max(0, Math.min(100, ((e.clientX - r.left) / r.width) * 100)),
+            y: Math.max(0, Math.min(100, ((e.clientY - r.top) / r.height) * 100)),
+        };
+    };
+
+    return (
+        <div className="absolute inset-0 flex flex-col bg-black/90 px-4 pt-16 pb-6 text-white">
+            <div className="mb-3 text-center text-base font-medium">{title ?? messages.reviewTitle}</div>
+
+            {/* Tap to zoom in at that point, drag to pan, tap again to zoom out */}
+            <div
+                className="relative min-h-0 flex-1 overflow-hidden rounded-xl"
+                style={{ touchAction: origin ? 'none' : 'auto', cursor: origin ? 'zoom-out' : 'zoom-in' }}
+                onPointerUp={(e) => setOrigin(origin ? null : originAt(e))}
+                onPointerMove={(e) => {
+                    if (origin && (e.buttons || e.pointerType !== 'mouse')) setOrigin(originAt(e));
+                }}
+            >
+                <img
+                    src={result.dataUrl}
+                    alt={title ?? messages.reviewTitle}
+                    draggable={false}
+                    className="h-full w-full object-contain transition-transform duration-150 select-none"
+                    style={
+                        origin
+                            ? { transform: `scale(${ZOOM})`, transformOrigin: `${origin.x}% ${origin.y}%` }
+                            : undefined
+                    }
+                />
+                <button
+                    type="button"
+                    aria-pressed={origin !== null}
+                    onPointerUp={(e) => e.stopPropagation()}
+                    onClick={() => setOrigin(origin ? null : { x: 50, y: 50 })}
+                    className="absolute right-2 bottom-2 rounded-lg bg-black/60 px-2 py-1 text-sm backdrop-blur"
+                >
+                    {origin ? messages.zoomOut : messages.zoomIn}
+                </button>
+            </div>
+
+            {checks.length > 0 && (
+                <ul className="mt-3 flex flex-wrap justify-center gap-2 text-sm">
+                    {checks.map((check) => (
+                        <li
+                            key={check.name}
+                            className={`rounded-full px-3 py-1 ${
+                                check.passed ? 'bg-green-500/20 text-green-200' : 'bg-red-500/20 text-red-200'
+                            }`}
+                        >
+                            {check.passed ? '✓ ' : '✗ '}
+                            {messages[`quality.${check.name}` as MessageKey] ?? check.name}{' '}
+                            <span className="font-mono text-xs opacity-80">{formatScore(check.score)}</span>
+                        </li>
+                    ))}
+                </ul>
+            )}
+
+            <div className="mt-4 flex gap-2">
+                <button
+                    type="button"
+                    onClick={onRetake}
+                    className="flex-1 rounded-xl border border-white/20 bg-white/10 px-3 py-2"
+                >
+                    {messages.retake}
+                </button>
+                <button type="button" onClick={onAccept} className="flex-1 rounded-xl bg-blue-600 px-3 py-2">
+                    {acceptLabel ?? messages.usePhoto}
+                </button>
+            </div>
+        </div>
+    );
+}
+
+// Ratios (glare, exposure) read as 0.123, sharpness (Laplacian variance) as an integer
+function formatScore(score: number) {
+    return Math.abs(score) >= 10 ? Math.round(score).toString() : score.toFixed(2);
+}
@@ -1,77 +1,26 @@
-import * as faceapi from 'face-api.js';
-import { useCallback, useEffect, useRef, useState } from 'react';
-
-// --- OpenCV.js loader (module-level) ---
-let __opencvReady = false as boolean;
-let __opencvPromise: Promise<void> | null = null;
-function ensureOpenCV(opencvUrl = '/opencv/opencv.js'): Promise<void> {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    if (__opencvReady && (window as any).cv) return Promise.resolve();
-    if (__opencvPromise) return __opencvPromise;
-    __opencvPromise = new Promise<void>((resolve, reject) => {
-        const done = () => {
-            // eslint-disable-next-line @typescript-eslint/no-explicit-any
-            const cv: any = (window as any).cv;
-            if (!cv) {
-                reject(new Error('cv not present after load'));
-                return;
-            }
-            if (cv.getBuildInformation) {
-                __opencvReady = true;
-                resolve();
-                return;
-            }
-            cv.onRuntimeInitialized = () => {
-                __opencvReady = true;
-                resolve();
-            };
-        };
-        const existing = document.querySelector<HTMLScriptElement>(`script[src="${opencvUrl}"]`);
-        if (existing) {
-            done();
-            return;
-        }
-        const s = document.createElement('script');
-        s.src = opencvUrl;
-        s.async = true;
-        s.onload = done;
-        s.onerror = () => reject(new Error('Failed to load OpenCV.js'));
-        document.head.appendChild(s);
-    });
-    return __opencvPromise;
-}
-function isOpenCVReady() {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    return __opencvReady && Boolean((window as any).cv);
-}
+import { useCallback, useEffect, useMemo, useState, type ReactNode } from 'react';
+import type { BarcodeReadOptions } from '../../barcode';
+import type { CameraFacing } from '../../core/camera';
+import type { Detectors } from '../../core/detectors';
+import type { DocumentFormat, DocumentProfile } from '../../core/documents';
+import type { GuidanceHint, GuidanceThresholds } from '../../core/guidance';
+import type { LivenessOptions } from '../../core/liveness';
+import type { QualityCheck } from '../../core/quality';
+import type { RecordingOptions, SessionRecording } from '../../core/recording';
+import type { TelemetryEvent } from '../../core/telemetry';
+import type { CaptureOutcome, CaptureResult, OverlayMode } from '../../core/types';
+import { useIdCheckSession } from '../../hooks/useIdCheckSession';
+import { resolveMessages, type Messages } from '../../i18n';
+import { CaptureOverlay } from '../CaptureOverlay';
+import { CaptureReview } from '../CaptureReview';
+import { UploadFallback } from '../UploadFallback';
 
 // Mobile-first, fullscreen selfie capture with overlay selector (Face/Card)
-// + face-api.js integration to detect when a face is inside the guide (stroke turns light blue)
-// + heuristic card detection (edge strength) as a lightweight alternative to OpenCV.js
-// - 1440x2560 portrait capture (final image has NO overlay)
-// - Preview is mirrored like a selfie; final capture is NOT mirrored
-
-export type OverlayMode = 'face' | 'card';
-
-interface Box {
-    x: number;
-    y: number;
-    width: number;
-    height: number;
-}
+// Thin React wrapper over the headless capture engine (see core/session)
 
-interface Mapping {
-    cW: number;
-    cH: number;
-    vw: number;
-    vh: number;
-    scale: number;
-    dx: number;
-    dy: number;
-    mirrored: boolean;
-}
+export type { OverlayMode };
 
-interface LightIdCheckProps {
+export interface LightIdCheckProps {
     /**
      * URL path to face-api.js models (relative to site root)
      * @default '/models'
@@ -104,12 +53,13 @@ interface LightIdCheckProps {
     initialOverlay?: OverlayMode;
 
     /**
-     * Callback when capture is done or cancelled
-     * @param dataUrl - JPEG data URL of captured image, or null if capture was cancelled
-     * @returns 
+     * Callback when capture is done, cancelled or failed
+     * @param outcome - `captured` with the CaptureResult, `cancelled`, or a typed error
+     * (`permission-denied`, `no-camera`, `model-load-failed`; `capture-failed` does not close it)
+     * @returns
      * @memberof LightIdCheckProps
      */
-    onCapture: (dataUrl: string | null) => void;
+    onCapture: (outcome: CaptureOutcome) => void;
 
     /**
      * Whether to auto-capture when detection is OK
@@ -128,6 +78,170 @@ interface LightIdCheckProps {
      */
     autoCaptureDelayMs?: number;
 
+    /**
+     * Show the captured photo (zoomable, with its quality scores) and let the user
+     * retake it before `onCapture` is called; retaking keeps the camera running
+     * @default false
+     * @type {boolean}
+     * @memberof LightIdCheckProps
+     */
+    review?: boolean;
+
+    /**
+     * When the camera can't be used (denied, missing, busy), let the user upload or drop an image
+     * instead of failing; it runs through the same detectors, quality checks and crop
+     * (CaptureResult.trigger is 'upload'). When false, camera errors go straight to `onCapture`.
+     * @default true
+     * @type {boolean}
+     * @memberof LightIdCheckProps
+     */
+    uploadFallback?: boolean;
+
+    /**
+     * In card mode, also return a perspective-corrected card crop (CaptureResult.cardImage)
+     * @default true
+     * @type {boolean}
+     * @memberof LightIdCheckProps
+     */
+    cropCard?: boolean;
+
+    /**
+     * Width in pixels of the cropped card image (height follows `documentProfile`'s aspect)
+     * @default 1012
+     * @type {number}
+     * @memberof LightIdCheckProps
+     */
+    cardCropWidth?: number;
+
+    /**
+     * Quality checks (sharpness, glare, exposure, ...) that must pass before an auto-capture;
+     * pass [] to disable
+     * @default [sharpnessCheck(), glareCheck(), exposureCheck()]
+     * @type {QualityCheck[]}
+     * @memberof LightIdCheckProps
+     */
+    qualityChecks?: QualityCheck[];
+
+    /**
+     * Framing thresholds behind the guidance hints (face/card size relative to the guide)
+     * @default DEFAULT_GUIDANCE_THRESHOLDS
+     * @type {GuidanceThresholds}
+     * @memberof LightIdCheckProps
+     */
+    guidanceThresholds?: GuidanceThresholds;
+
+    /**
+     * Opt-in passive liveness for the face step: randomized blink / head turn / smile challenges
+     * and motion consistency; auto-capture waits until they pass
+     * @default false
+     * @type {boolean | LivenessOptions}
+     * @memberof LightIdCheckProps
+     */
+    liveness?: boolean | LivenessOptions;
+
+    /**
+     * Camera used when none is picked: 'auto' switches to the rear camera in card mode
+     * and back to the front camera in face mode
+     * @default 'auto'
+     * @type {'auto' | CameraFacing}
+     * @memberof LightIdCheckProps
+     */
+    cameraFacing?: 'auto' | CameraFacing;
+
+    /**
+     * Camera to open (deviceId from `listCameras()`); users can also pick one in the top bar
+     * when several cameras are available
+     * @type {string | null}
+     * @memberof LightIdCheckProps
+     */
+    cameraDeviceId?: string | null;
+
+    /**
+     * Run card detection and quality checks in a Web Worker to keep the preview smooth;
+     * set to false if your CSP blocks blob: workers
+     * @default true
+     * @type {boolean}
+     * @memberof LightIdCheckProps
+     */
+    detectionWorker?: boolean;
+
+    /**
+     * Swap the card detector cascade and/or the face detector (ssdMobilenetFaceDetector(),
+     * openCvCardDetector({ minAspect, maxAspect }), heuristicCardDetector({ minEdgeScore }) or a custom
+     * Detector); create them once (module scope or useMemo)
+     * @default { card: [openCvCardDetector(), heuristicCardDetector()], face: tinyFaceDetector() }
+     * @type {Detectors}
+     * @memberof LightIdCheckProps
+     */
+    detectors?: Detectors;
+
+    /**
+     * Document to capture: card guide aspect and corners, OpenCV aspect band and crop aspect
+     * ('ID-1' cards, 'ID-2', 'ID-3' passport data page, or a custom DocumentProfile);
+     * in LightIdCheckFlow it also sets the default steps (no back side for 'ID-3')
+     * @default 'ID-1'
+     * @type {DocumentFormat | DocumentProfile}
+     * @memberof LightIdCheckProps
+     */
+    documentProfile?: DocumentFormat | DocumentProfile;
+
+    /**
+     * Decode PDF417 / QR / Data Matrix codes on card captures into CaptureResult.barcodes
+     * (AAMVA licence fields parsed); falls back to the optional zxing-wasm package without BarcodeDetector
+     * @default false
+     * @type {boolean | BarcodeReadOptions}
+     * @memberof LightIdCheckProps
+     */
+    barcodes?: boolean | BarcodeReadOptions;
+
+    /**
+     * Telemetry hook: typed events (session start, camera ready, model loads, detection and quality
+     * changes, captures, retakes, close) with a timestamp and session id; feed them to
+     * createTelemetryAggregator() for a per-session summary
+     * @param event - the event
+     * @memberof LightIdCheckProps
+     */
+    onEvent?: (event: TelemetryEvent) => void;
+
+    /**
+     * Record downsampled detection frames with the detector and quality decisions, for the replay runner
+     * (see `onRecording`)
+     * @default false
+     * @type {boolean | RecordingOptions}
+     * @memberof LightIdCheckProps
+     */
+    record?: boolean | RecordingOptions;
+
+    /**
+     * Called with the recorded frames when the overlay closes (with `record` on)
+     * @param recording - JSON-serializable recording, see replayRecording in `@nwzx/light-id-check/replay`
+     * @memberof LightIdCheckProps
+     */
+    onRecording?: (recording: SessionRecording) => void;
+
+    /**
+     * UI language; built-in dictionaries: 'en', 'fr'
+     * @default navigator.language (falls back to 'en')
+     * @type {string}
+     * @memberof LightIdCheckProps
+     */
+    locale?: string;
+
+    /**
+     * Override individual messages of the locale dictionary
+     * @type {Partial<Messages>}
+     * @memberof LightIdCheckProps
+     */
+    messages?: Partial<Messages>;
+
+    /**
+     * Custom rendering of the current guidance hint; return null to hide hints
+     * @param hint - hint key (and countdown seconds)
+     * @param text - formatted message for the hint
+     * @memberof LightIdCheckProps
+     */
+    renderGuidance?: (hint: GuidanceHint, text: string) => ReactNode;
+
     /**
      * Additional class name(s) for the root element
      * @type {string}
@@ -136,7 +250,7 @@ interface LightIdCheckProps {
     className?: string;
 
     /**
-     * Enable debug mode (shows overlay controls)
+     * Enable debug mode (shows overlay controls and detector/quality scores over the preview)
      * @default false
      * @type {boolean}
      * @memberof LightIdCheckProps
@@ -152,660 +266,122 @@ export function LightIdCheck({
     onCapture,
     autoCapture = true,
     autoCaptureDelayMs = 2000,
+    review = false,
+    uploadFallback = true,
+    cropCard = true,
+    cardCropWidth = 1012,
+    qualityChecks,
+    guidanceThresholds,
+    liveness,
+    cameraFacing,
+    cameraDeviceId,
+    detectionWorker,
+    detectors,
+    documentProfile,
+    barcodes = false,
+    onEvent,
+    record = false,
+    onRecording,
+    locale,
+    messages,
+    renderGuidance,
     debug = false,
     className,
 }: LightIdCheckProps) {
-    // State
-    const [overlay, setOverlay] = useState<OverlayMode>(initialOverlay);
-    const overlayRef = useRef<OverlayMode>(initialOverlay);
-    const [error, setError] = useState<string | null>(null);
-    const [isStreaming, setIsStreaming] = useState(false);
-    const [capturePending, setCapturePending] = useState(false);
-
-    const videoRef = useRef<HTMLVideoElement | null>(null);
-    const canvasRef = useRef<HTMLCanvasElement | null>(null);
-    const rafRef = useRef<number | null>(null);
-    const streamRef = useRef<MediaStream | null>(null);
-
-    // face-api + detection
-    const faceModelsLoadedRef = useRef(false);
-    const detectionTimerRef = useRef<number | null>(null);
-    const lastFaceBoxRef = useRef<Box | null>(null);
-    const faceInsideRef = useRef(false);
-    const cardOkRef = useRef(false);
-    const mappingRef = useRef<Mapping | null>(null);
-    // (offscreen canvas handled as a module-level singleton; see getOffscreen())
-
-    useEffect(() => {
-        overlayRef.current = overlay;
-    }, [overlay]);
-
-    const stopStream = useCallback(() => {
-        if (rafRef.current) {
-            cancelAnimationFrame(rafRef.current);
-            rafRef.current = null;
-        }
-        if (detectionTimerRef.current) {
-            window.clearInterval(detectionTimerRef.current);
-            detectionTimerRef.current = null;
-        }
-        if (streamRef.current) {
-            streamRef.current.getTracks().forEach((t) => t.stop());
-            streamRef.current = null;
-        }
-        setIsStreaming(false);
-    }, []);
-
-    const close = useCallback((data: string | null) => {
-        // Stop stream
-        stopStream();
-
-        //Reset all state
-        setError(null);
-        setCapturePending(false);
-        faceModelsLoadedRef.current = false;
-        lastFaceBoxRef.current = null;
-        faceInsideRef.current = false;
-        cardOkRef.current = false;
-        mappingRef.current = null;
-        overlayRef.current = initialOverlay;
-        setOverlay(initialOverlay);
-
-        // Callback
-        if (onCapture) onCapture(data); // signal closed without capture
-    }, [initialOverlay, onCapture, stopStream]);
-
-    const ensureFaceModels = useCallback(async (modelsUrl = '/models') => {
-        if (faceModelsLoadedRef.current) return;
-        await Promise.all([
-            faceapi.nets.tinyFaceDetector.loadFromUri(modelsUrl),
-            // Optionally: landmarks if you want finer checks
-            // faceapi.nets.faceLandmark68TinyNet.loadFromUri(modelsUrl),
-        ]);
-        faceModelsLoadedRef.current = true;
-    }, []);
-
-    // === DRAW LOOP: render video + overlay (color reflects detection state) ===
-    const draw = useCallback(() => {
-        const video = videoRef.current;
-        const canvas = canvasRef.current;
-        const mirrored = overlayRef.current === 'face';
-        if (!video || !canvas) {
-            rafRef.current = requestAnimationFrame(draw);
-            return;
-        }
-        if (video.readyState < 2) {
-            rafRef.current = requestAnimationFrame(draw);
-            return;
-        }
-
-        const ctx = canvas.getContext('2d');
-        if (!ctx) {
-            rafRef.current = requestAnimationFrame(draw);
-            return;
-        }
-
-        // Fullscreen portrait sizing
-        const targetW = canvas.clientWidth || window.innerWidth || 1440;
-        const targetH = canvas.clientHeight || window.innerHeight || 2560;
-        const dpr = Math.max(1, Math.min(3, window.devicePixelRatio || 1));
-        const cW = Math.floor(targetW * dpr),
-            cH = Math.floor(targetH * dpr);
-        if (canvas.width !== cW || canvas.height !== cH) {
-            canvas.width = cW;
-            canvas.height = cH;
-        }
-
-        const vw = video.videoWidth || 1440;
-        const vh = video.videoHeight || 2560;
-        const scale = Math.max(cW / vw, cH / vh);
-        const dw = vw * scale,
-            dh = vh * scale;
-        const dx = Math.floor((cW - dw) / 2),
-            dy = Math.floor((cH - dh) / 2);
-
-        // share mapping for detection loop
-        mappingRef.current = { cW, cH, vw, vh, scale, dx, dy, mirrored };
-
-        // Clear + draw mirrored video (selfie)
-        ctx.clearRect(0, 0, cW, cH);
-        if (mirrored) {
-            ctx.save();
-            ctx.scale(-1, 1);
-            ctx.drawImage(video, -dx - dw, dy, dw, dh);
-            ctx.restore();
-        } else {
-            ctx.drawImage(video, dx, dy, dw, dh);
-        }
-
-        // === Overlay ===
-        const current = overlayRef.current;
-
-        // Dim whole screen
-        ctx.save();
-        ctx.fillStyle = 'rgba(0,0,0,0.35)';
-        ctx.fillRect(0, 0, cW, cH);
-
-        // Build path for the guide
-        let guidePath: Path2D;
-        if (current === 'face') {
-            const cx = cW / 2;
-            const cy = cH * 0.5;
-            const w = Math.min(cW, cH) * 0.7;
-            const h = w * 1.25;
-            guidePath = faceSilhouettePath2D(cx, cy, w, h);
-        } else {
-            const { x, y, w, h } = cardOverlayRectCanvas(cW, cH);
-            guidePath = roundedRectPath2D(x, y, w, h, Math.min(w, h) * 0.06);
-        }
-
-        // Cutout
-        ctx.globalCompositeOperation = 'destination-out';
-        ctx.fill(guidePath);
-
-        // Border color based on detection result
-        const ok =
-            current === 'face' ? faceInsideRef.current : cardOkRef.current;
-        ctx.globalCompositeOperation = 'source-over';
-        ctx.strokeStyle = ok
-            ? 'rgba(125, 211, 252, 1)'
-            : 'rgba(255,255,255,0.95)'; // light blue when OK
-        ctx.lineWidth = 3 * dpr;
-        ctx.stroke(guidePath);
-
-        ctx.restore();
-
-        rafRef.current = requestAnimationFrame(draw);
-    }, []);
-
-    // Capture WITHOUT overlay at 1440x2560 portrait (not mirrored)
-    const capture = useCallback(() => {
-        const video = videoRef.current;
-        if (!video) return;
-        const outW = 1440,
-            outH = 2560;
-        const off = document.createElement('canvas');
-        off.width = outW;
-        off.height = outH;
-        const ctx = off.getContext('2d');
-        if (!ctx) return;
-
-        const vw = video.videoWidth || outW;
-        const vh = video.videoHeight || outH;
-        const scale = Math.max(outW / vw, outH / vh);
-        const dw = vw * scale,
-            dh = vh * scale;
-        const dx = (outW - dw) / 2,
-            dy = (outH - dh) / 2;
-        ctx.drawImage(video, dx, dy, dw, dh);
-
-        const dataUrl = off.toDataURL('image/jpeg', 0.95);
-        close(dataUrl);
-
-        // For demo purposes, open in new window
-        // In real use, you would probably want to upload the dataUrl to a server
-        // const win = window.open();
-        // if (win)
-        //     win.document.write(
-        //         `<img src="${dataUrl}" style="width:100%;height:auto"/>`
-        //     );
-    }, []);
-
-    // === DETECTION LOOP ===
-    const detectionTick = useCallback(async () => {
-        const video = videoRef.current;
-        const map = mappingRef.current;
-        if (!video || !map) return;
-
-        if (overlayRef.current === 'face' && faceModelsLoadedRef.current) {
-            try {
-                const det = await faceapi.detectSingleFace(
-                    video,
-                    new faceapi.TinyFaceDetectorOptions({
-                        inputSize: 224,
-                        scoreThreshold: 0.5,
-                    })
-                );
-                lastFaceBoxRef.current = det?.box
-                    ? {
-                        x: det.box.x,
-                        y: det.box.y,
-                        width: det.box.width,
-                        height: det.box.height,
-                    }
-                    : null;
-                faceInsideRef.current = false;
-                if (lastFaceBoxRef.current) {
-                    const { cW, cH, vw, scale, dx, dy } = map;
-                    const b = lastFaceBoxRef.current;
-                    // map video -> canvas (mirrored)
-                    const left = dx + (vw - (b.x + b.width)) * scale;
-                    const top = dy + b.y * scale;
-                    const centerX = left + (b.width * scale) / 2;
-                    const centerY = top + (b.height * scale) / 2;
-
-                    const p = faceSilhouettePath2D(
-                        cW / 2,
-                        cH * 0.5,
-                        Math.min(cW, cH) * 0.7,
-                        Math.min(cW, cH) * 0.5 * 1.25
-                    );
-                    const ctx = canvasRef.current?.getContext('2d');
-                    if (ctx) {
-                        faceInsideRef.current = ctx.isPointInPath(
-                            p,
-                            centerX,
-                            centerY
-                        );
-                    }
-                }
-            } catch {
-                /* ignore transient errors */
-            }
-        } else if (overlayRef.current === 'card') {
-            try {
-                const { cW, cH, vw, vh, scale, dx, dy, mirrored } = map;
-                const rc = cardOverlayRectCanvas(cW, cH);
-                const rv = canvasRectToVideoRect(rc, {
-                    vw,
-                    vh,
-                    scale,
-                    dx,
-                    dy,
-                    mirrored,
-                });
-                try {
-                    await ensureOpenCV(opencvUrl);
-                    if (isOpenCVReady()) {
-                        cardOkRef.current = await estimateCardOpenCV(video, rv);
-                    } else {
-                        cardOkRef.current = await estimateCardHeuristic(
-                            video,
-                            rv
-                        );
-                    }
-                } catch {
-                    cardOkRef.current = await estimateCardHeuristic(video, rv);
-                }
-            } catch {
-                /* ignore */
-            }
-        }
-
-        // Auto-capture if enabled and detection is OK
-        if (autoCapture && !capturePending) {
-            const ok =
-                overlayRef.current === 'face'
-                    ? faceInsideRef.current
-                    : cardOkRef.current;
-            if (ok) {
-                setCapturePending(true);
-                setTimeout(() => {
-                    if (overlayRef.current === 'face'
-                        ? faceInsideRef.current
-                        : cardOkRef.current) {
-                        capture();
-                    }
-                    setCapturePending(false);
-                }, autoCaptureDelayMs);
-            }
-        }
-    }, [autoCapture, autoCaptureDelayMs, opencvUrl]);
-
-    const start = useCallback(async () => {
-        setError(null);
-        try {
-            // Load face models in parallel; don't block UI if card mode is selected first
-            ensureFaceModels(faceModelsUrl).catch(() => {
-                /* non-fatal */
-            });
-
-            const constraints: MediaStreamConstraints = {
-                video: {
-                    facingMode: { ideal: 'user' },
-                    width: { ideal: 1440 },
-                    height: { ideal: 2560 },
-                    aspectRatio: 9 / 16,
-                },
-                audio: false,
-            };
-            const stream = await navigator.mediaDevices.getUserMedia(
-                constraints
-            );
-            streamRef.current = stream;
-            const video = videoRef.current;
-            if (!video) return;
-            video.srcObject = stream;
-            video.playsInline = true; // iOS/Safari
-
-            const onPlaying = () => {
-                setIsStreaming(true);
-                if (!rafRef.current)
-                    rafRef.current = requestAnimationFrame(draw);
-                if (!detectionTimerRef.current)
-                    detectionTimerRef.current = window.setInterval(
-                        detectionTick,
-                        333
-                    );
-            };
-            video.addEventListener('playing', onPlaying, { once: true });
-            await video.play();
-        } catch (e: unknown) {
-            setError(
-                (e as Error)?.message ??
-                'Camera access failed. Check permissions.'
-            );
-            setIsStreaming(false);
-        }
-    }, [ensureFaceModels, faceModelsUrl]);
-
-    useEffect(() => {
-        if (!isOpen) return;
-        start();
-        return () => stopStream();
-    }, [isOpen, start, stopStream]);
-
-    return (
-        <div className={"w-full "+ className}>
-            {isOpen && (
-                <div
-                    className="fixed inset-0 z-50 bg-black"
-                    style={{
-                        paddingTop: 'env(safe-area-inset-top)',
-                        paddingBottom: 'env(safe-area-inset-bottom)',
-                        paddingLeft: 'env(safe-area-inset-left)',
-                        paddingRight: 'env(safe-area-inset-right)',
-                    }}
-                >
-                    {/* Top bar */}
-                    <div className={"absolute top-0 right-0 left-0 z-10 flex items-center justify-between px-4 py-3 text-white/95"}>
-                        <div className="flex items-center gap-2">
-                            <button
-                                type='button'
-                                onClick={() => close(null)}
-                                className="rounded-xl border border-white/20 bg-white/10 px-3 py-1.5 backdrop-blur"
-                            >
-                                Close
-                            </button>
-                        </div>
-                        <div className={"flex items-center gap-2" + (debug ? ' visible' : ' invisible')}>
-                            <Segmented
-                                value={overlay}
-                                onChange={setOverlay}
-                                options={[
-                                    { value: 'face', label: 'Face' },
-                                    { value: 'card', label: 'Card' },
-                                ]}
-                            />
-                            <button
-                                type='button'
-                                onClick={capture}
-                                disabled={!isStreaming}
-                                className="rounded-xl border border-white/20 bg-blue-600 px-3 py-1.5 text-white disabled:opacity-50"
-                            >
-                                Capture
-                            </button>
-                        </div>
-                    </div>
-
-                    {/* Video + Canvas preview (fills screen) */}
-                    <div className="absolute inset-0">
-                        <video ref={videoRef} className="hidden" />
-                        <canvas
-                            ref={canvasRef}
-                            className="block h-full w-full"
-                            style={{ touchAction: 'none' }}
-                        />
-                        {!isStreaming && (
-                            <div className="absolute inset-0 grid place-items-center text-white/90">
-                                <div className="text-center">
-                                    <div className="text-lg font-semibold">
-                                        Starting camera…
-                                    </div>
-                                    {error && (
-                                        <div className="mt-2 text-red-300">
-                                            {error}
-                                        </div>
-                                    )}
-                                </div>
-                            </div>
-                        )}
-                    </div>
-                </div>
-            )}
-        </div>
+    const { session, state, videoRef, canvasRef } = useIdCheckSession(
+        {
+            faceModelsUrl,
+            opencvUrl,
+            initialOverlay,
+            autoCapture,
+            autoCaptureDelayMs,
+            cropCard,
+            cardCropWidth,
+            qualityChecks,
+            guidanceThresholds,
+            liveness,
+            cameraFacing,
+            cameraDeviceId,
+            detectionWorker,
+            detectors,
+            debug,
+            documentProfile,
+            barcodes,
+            onEvent,
+            record,
+        },
+        isOpen,
     );
-}
 
-function Segmented<T extends string>({
-    value,
-    onChange,
-    options,
-}: {
-    value: T;
-    onChange: (v: T) => void;
-    options: { value: T; label: string }[];
-}) {
-    return (
-        <div className="flex overflow-hidden rounded-xl border border-white/20 bg-white/10 backdrop-blur">
-            {options.map((opt) => (
-                <button
-                    type='button'
-                    key={opt.value}
-                    onClick={() => onChange(opt.value)}
-                    className={`px-3 py-1.5 text-sm ${value === opt.value ? 'bg-white text-black' : 'text-white/90'}`}
-                >
-                    {opt.label}
-                </button>
-            ))}
-        </div>
+    const dictionary = useMemo(() => resolveMessages(locale, messages), [locale, messages]);
+    // Capture awaiting Use photo / Retake (review mode); the session stays paused meanwhile
+    const [pending, setPending] = useState<CaptureResult | null>(null);
+
+    const flushRecording = useCallback(() => {
+        const recording = session.getRecording();
+        if (recording && onRecording) onRecording(recording);
+        session.clearRecording();
+    }, [session, onRecording]);
+
+    const close = useCallback(
+        (outcome: CaptureOutcome) => {
+            setPending(null);
+            session.track({ type: 'close', status: outcome.status });
+            flushRecording();
+            // Stop stream; keep the error visible on failure, otherwise reset all state
+            if (outcome.status === 'captured' || outcome.status === 'cancelled') session.reset();
+            else session.stop();
+
+            // Callback
+            if (onCapture) onCapture(outcome);
+        },
+        [onCapture, session, flushRecording],
     );
-}
-
-// === PATH HELPERS ===
-function faceSilhouettePath2D(cx: number, cy: number, w: number, h: number) {
-    const p = new Path2D();
-    const rx = w / 2,
-        ry = h / 1.8;
-    const topY = cy - ry;
-    const chinY = cy + ry * 0.86;
-    const browY = cy - ry * 0.35;
-    const cheekY = cy + ry * 0;
-    const jawY = cy + ry * 0.55;
-    const craniumX = rx * 1.05,
-        templeX = rx * 0.95,
-        cheekX = rx * 0.9,
-        jawX = rx * 0.69;
-
-    p.moveTo(cx, topY);
-    p.bezierCurveTo(cx + craniumX, topY, cx + templeX, browY, cx + templeX, browY);
-    p.bezierCurveTo(cx + templeX, browY + ry * 0.1, cx + cheekX, cheekY, cx + cheekX, cheekY);
-    p.bezierCurveTo(cx + cheekX * 0.95, cheekY + ry * 0.2, cx + jawX, jawY, cx + jawX, jawY);
-    p.bezierCurveTo(cx + jawX * 0.85, jawY + ry * 0.2, cx + (w * 0.2) / 2, chinY, cx, chinY);
-    p.bezierCurveTo(cx - (w * 0.2) / 2, chinY, cx - jawX * 0.85, jawY + ry * 0.2, cx - jawX, jawY);
-    p.bezierCurveTo(cx - jawX, jawY, cx - cheekX * 0.95, cheekY + ry * 0.2, cx - cheekX, cheekY);
-    p.bezierCurveTo(cx - cheekX, cheekY, cx - templeX, browY + ry * 0.1, cx - templeX, browY);
-    p.bezierCurveTo(cx - templeX, browY, cx - craniumX, topY, cx, topY);
-    p.closePath();
-    return p;
-}
-
-function roundedRectPath2D(x: number, y: number, w: number, h: number, r: number) {
-    const p = new Path2D();
-    p.moveTo(x + r, y);
-    p.lineTo(x + w - r, y);
-    p.quadraticCurveTo(x + w, y, x + w, y + r);
-    p.lineTo(x + w, y + h - r);
-    p.quadraticCurveTo(x + w, y + h, x + w - r, y + h);
-    p.lineTo(x + r, y + h);
-    p.quadraticCurveTo(x, y + h, x, y + h - r);
-    p.lineTo(x, y + r);
-    p.quadraticCurveTo(x, y, x + r, y);
-    p.closePath();
-    return p;
-}
-
-function cardOverlayRectCanvas(cW: number, cH: number) {
-    const w = cW * 0.9;
-    const h = w / 1.586;
-    const x = (cW - w) / 2;
-    const y = cH * 0.55 - h / 2;
-    return { x, y, w, h };
-}
-
-function canvasRectToVideoRect(
-    rc: { x: number; y: number; w: number; h: number },
-    m: { vw: number; vh: number; scale: number; dx: number; dy: number; mirrored: boolean },
-) {
-    const wv = rc.w / m.scale;
-    const hv = rc.h / m.scale;
-    const xv = m.mirrored
-        ? m.vw - (rc.x - m.dx) / m.scale - wv // mirrored case
-        : (rc.x - m.dx) / m.scale; // non-mirrored
-    const yv = (rc.y - m.dy) / m.scale;
-    return { x: Math.max(0, xv), y: Math.max(0, yv), w: Math.min(wv, m.vw), h: Math.min(hv, m.vh) };
-}
-
-// === Heuristic card detector (edge strength along rectangle borders) ===
-async function estimateCardHeuristic(video: HTMLVideoElement, rv: { x: number; y: number; w: number; h: number }) {
-    const off = getOffscreen();
-    // Normalize to ~320px width for speed
-    const outW = 320;
-    const outH = Math.max(1, Math.round(outW / 1.586));
-    off.width = outW;
-    off.height = outH;
-    const ctx = off.getContext('2d');
-    if (!ctx) return false;
-
-    // Draw the video ROI (NOT mirrored)
-    ctx.drawImage(video, rv.x, rv.y, rv.w, rv.h, 0, 0, outW, outH);
-    const img = ctx.getImageData(0, 0, outW, outH);
-    const score = edgeScore(img.data, outW, outH);
-    // Tunable threshold: higher requires stronger, cleaner edges
-    return score > 0.18; // ~18% normalized edge contrast
-}
-
-let __OFFSCREEN_CANVAS__: HTMLCanvasElement | null = null;
-function getOffscreen() {
-    if (!__OFFSCREEN_CANVAS__) __OFFSCREEN_CANVAS__ = document.createElement('canvas');
-    return __OFFSCREEN_CANVAS__;
-}
 
-function edgeScore(data: Uint8ClampedArray, w: number, h: number) {
-    const lum = (i: number) => 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
-    const idx = (x: number, y: number) => (y * w + x) * 4;
-    const clamp = (v: number, min: number, max: number) => Math.max(min, Math.min(max, v));
-
-    const samples = 200;
-    let acc = 0;
-    let n = 0;
-    for (let s = 0; s < samples; s++) {
-        const x = 2 + Math.floor(((w - 4) * s) / samples);
-        const y1 = 2,
-            y2 = Math.min(5, h - 1);
-        acc += Math.abs(lum(idx(x, y1)) - lum(idx(x, y2))) / 255;
-        n++;
-        const yb1 = h - 3,
-            yb2 = clamp(h - 6, 0, h - 1);
-        acc += Math.abs(lum(idx(x, yb1)) - lum(idx(x, yb2))) / 255;
-        n++;
-    }
-    for (let s = 0; s < samples; s++) {
-        const y = 2 + Math.floor(((h - 4) * s) / samples);
-        const x1 = 2,
-            x2 = Math.min(5, w - 1);
-        acc += Math.abs(lum(idx(x1, y)) - lum(idx(x2, y))) / 255;
-        n++;
-        const xr1 = w - 3,
-            xr2 = clamp(w - 6, 0, w - 1);
-        acc += Math.abs(lum(idx(xr1, y)) - lum(idx(xr2, y))) / 255;
-        n++;
-    }
-    return acc / n; // 0..1
-}
+    useEffect(
+        () => session.on('capture', (result) => (review ? setPending(result) : close({ status: 'captured', result }))),
+        [session, close, review],
+    );
+    useEffect(
+        () =>
+            session.on('error', ({ reason, error }) => {
+                // Camera errors switch to the upload fallback; model failures break uploads too.
+                // A failed capture is retried on the resumed session
+                if (reason === 'capture-failed') return;
+                if (!uploadFallback || reason === 'model-load-failed') close({ status: reason, error });
+            }),
+        [session, close, uploadFallback],
+    );
+    const fallback = uploadFallback && state.error !== null && state.error.reason !== 'model-load-failed';
 
-// === OpenCV.js card detector ===
-async function estimateCardOpenCV(video: HTMLVideoElement, rv: { x: number; y: number; w: number; h: number }) {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const cv: any = (window as any).cv;
-    if (!cv) return false;
-    const off = getOffscreen();
-    const outW = 540;
-    const outH = Math.max(1, Math.round(outW / 1.586));
-    off.width = outW;
-    off.height = outH;
-    const ctx2d = off.getContext('2d');
-    if (!ctx2d) return false;
-    // Crop ROI from the native (non-mirrored) video
-    ctx2d.drawImage(video, rv.x, rv.y, rv.w, rv.h, 0, 0, outW, outH);
-
-    const src = cv.imread(off);
-    const gray = new cv.Mat();
-    const blur = new cv.Mat();
-    const edges = new cv.Mat();
-    const kernel = cv.getStructuringElement(cv.MORPH_RECT, new cv.Size(3, 3));
-
-    // Preprocess
-    cv.cvtColor(src, gray, cv.COLOR_RGBA2GRAY);
-    cv.equalizeHist(gray, gray);
-    cv.GaussianBlur(gray, blur, new cv.Size(5, 5), 0);
-
-    // Auto-Canny thresholds using mean as a robust proxy
-    const data = blur.data as Uint8Array;
-    let sum = 0;
-    data.forEach((v) => (sum += v));
-    const mean = sum / data.length;
-    const lower = Math.max(10, mean * 0.66);
-    const upper = Math.min(255, mean * 1.33);
-    cv.Canny(blur, edges, lower, upper);
-    cv.dilate(edges, edges, kernel);
-
-    // Contours
-    const contours = new cv.MatVector();
-    const hierarchy = new cv.Mat();
-    cv.findContours(edges, contours, hierarchy, cv.RETR_EXTERNAL, cv.CHAIN_APPROX_SIMPLE);
-
-    const areaROI = outW * outH;
-    let ok = false;
-
-    for (let i = 0; i < contours.size(); i++) {
-        const cnt = contours.get(i);
-        const area = cv.contourArea(cnt);
-        if (area < areaROI * 0.05) {
-            cnt.delete();
-            continue;
-        }
-
-        // Rotated rectangle fit
-        const rr = cv.minAreaRect(cnt);
-        const rectArea = rr.size.width * rr.size.height;
-        if (rectArea <= 0) {
-            cnt.delete();
-            continue;
-        }
-
-        const major = Math.max(rr.size.width, rr.size.height);
-        const minor = Math.max(1, Math.min(rr.size.width, rr.size.height));
-        const ar = major / minor; // rotation-invariant aspect ratio
-
-        const rectangularity = area / rectArea; // 0..1 (1 is perfect fill)
-
-        if (rectArea > areaROI * 0.12 && rectArea < areaROI * 0.98 && ar > 1.35 && ar < 1.9 && rectangularity > 0.6) {
-            ok = true;
-            cnt.delete();
-            break;
-        }
-
-        cnt.delete();
-    }
-
-    // Cleanup
-    src.delete();
-    gray.delete();
-    blur.delete();
-    edges.delete();
-    contours.delete();
-    hierarchy.delete();
-    kernel.delete();
-    return ok;
+    return (
+        <CaptureOverlay
+            session={session}
+            state={state}
+            videoRef={videoRef}
+            canvasRef={canvasRef}
+            isOpen={isOpen}
+            debug={debug}
+            className={className}
+            messages={dictionary}
+            renderGuidance={renderGuidance}
+            onClose={() => close({ status: 'cancelled' })}
+        >
+            {fallback && !pending && (
+                <UploadFallback messages={dictionary} error={state.error} onFile={session.captureImage} />
+            )}
+            {pending && (state.isStreaming || fallback) && (
+                <CaptureReview
+                    result={pending}
+                    messages={dictionary}
+                    onAccept={() => close({ status: 'captured', result: pending })}
+                    onRetake={() => {
+                        setPending(null);
+                        session.track({ type: 'retake', mode: pending.mode });
+                        session.resume();
+                    }}
+                />
+            )}
+        </CaptureOverlay>
+    );
 }
@@ -0,0 +1,239 @@
+import { useCallback, useEffect, useMemo, useState } from 'react';
+import { captureStepsForDocument } from '../../core/steps';
+import type { CaptureFlowOutcome, CaptureResult, CaptureStep } from '../../core/types';
+import { useIdCheckSession } from '../../hooks/useIdCheckSession';
+import { formatMessage, resolveMessages, type MessageKey, type Messages } from '../../i18n';
+import { CaptureOverlay } from '../CaptureOverlay';
+import { CaptureReview } from '../CaptureReview';
+import { UploadFallback } from '../UploadFallback';
+import type { LightIdCheckProps } from '../LightIdCheck';
+
+// Guided multi-step capture (e.g. card front, card back, selfie) in ONE camera session.
+// Each capture pauses detection and shows the review stage (Retake / Continue);
+// completed steps can be retaken from the step bar before finishing.
+
+export interface LightIdCheckFlowProps extends Omit<LightIdCheckProps, 'initialOverlay' | 'onCapture' | 'review'> {
+    /**
+     * Steps to capture, in order
+     * @default captureStepsForDocument(documentProfile) (card front, card back unless 'ID-3', selfie holding the card)
+     * @type {CaptureStep[]}
+     * @memberof LightIdCheckFlowProps
+     */
+    steps?: CaptureStep[];
+
+    /**
+     * Callback when every step is captured, or the flow is cancelled or failed
+     * @param outcome - `completed` with one CaptureResult per step id, `cancelled`, or a typed error
+     * @returns
+     * @memberof LightIdCheckFlowProps
+     */
+    onComplete: (outcome: CaptureFlowOutcome) => void;
+}
+
+export function LightIdCheckFlow({
+    faceModelsUrl = '/models',
+    opencvUrl = '/opencv/opencv.js',
+    isOpen = false,
+    steps: stepsProp,
+    onComplete,
+    autoCapture = true,
+    autoCaptureDelayMs = 2000,
+    cropCard = true,
+    uploadFallback = true,
+    cardCropWidth = 1012,
+    qualityChecks,
+    guidanceThresholds,
+    liveness,
+    cameraFacing,
+    cameraDeviceId,
+    detectionWorker,
+    detectors,
+    documentProfile = 'ID-1',
+    barcodes = false,
+    onEvent,
+    record = false,
+    onRecording,
+    locale,
+    messages,
+    renderGuidance,
+    debug = false,
+    className,
+}: LightIdCheckFlowProps) {
+    const steps = useMemo(() => stepsProp ?? captureStepsForDocument(documentProfile), [stepsProp, documentProfile]);
+    const { session, state, videoRef, canvasRef } = useIdCheckSession(
+        {
+            faceModelsUrl,
+            opencvUrl,
+            initialOverlay: steps[0]?.mode,
+            autoCapture,
+            autoCaptureDelayMs,
+            cropCard,
+            cardCropWidth,
+            qualityChecks,
+            guidanceThresholds,
+            liveness,
+            cameraFacing,
+            cameraDeviceId,
+            detectionWorker,
+            detectors,
+            debug,
+            documentProfile,
+            barcodes,
+            onEvent,
+            record,
+        },
+        isOpen,
+    );
+    const dictionary = useMemo(() => resolveMessages(locale, messages), [locale, messages]);
+    const [stepIndex, setStepIndex] = useState(0);
+    const [results, setResults] = useState<Record<string, CaptureResult>>({});
+
+    const step = steps[stepIndex] as CaptureStep | undefined;
+    // A paused session with a result for the current step means we are reviewing it
+    const review = step && state.paused ? results[step.id] : undefined;
+
+    useEffect(() => {
+        if (step) session.setOverlay(step.mode);
+    }, [session, step]);
+
+    const flushRecording = useCallback(() => {
+        const recording = session.getRecording();
+        if (recording && onRecording) onRecording(recording);
+        session.clearRecording();
+    }, [session, onRecording]);
+
+    const finish = useCallback(
+        (outcome: CaptureFlowOutcome) => {
+            session.track({ type: 'close', status: outcome.status });
+            flushRecording();
+            // Stop stream; keep the error visible on failure, otherwise reset all state
+            if (outcome.status === 'completed' || outcome.status === 'cancelled') session.reset();
+            else session.stop();
+            setStepIndex(0);
+            setResults({});
+
+            // Callback
+            if (onComplete) onComplete(outcome);
+        },
+        [onComplete, session, flushRecording],
+    );
+
+    useEffect(() => {
+        if (!step) return;
+        return session.on('capture', (result) => setResults((prev) => ({ ...prev, [step.id]: result })));
+    }, [session, step]);
+    useEffect(
+        () =>
+            session.on('error', ({ reason, error }) => {
+                // Camera errors switch to the upload fallback; model failures break uploads too.
+                // A failed capture is retried on the resumed session
+                if (reason === 'capture-failed') return;
+                if (!uploadFallback || reason === 'model-load-failed') finish({ status: reason, error });
+            }),
+        [session, finish, uploadFallback],
+    );
+    // Camera unavailable: each step is uploaded instead
+    const fallback = uploadFallback && state.error !== null && state.error.reason !== 'model-load-failed';
+    const live = state.isStreaming || fallback;
+
+    const retake = (index: number) => {
+        const target = steps[index];
+        setResults((prev) => {
+            const next = { ...prev };
+            delete next[target.id];
+            return next;
+        });
+        setStepIndex(index);
+        session.track({ type: 'retake', mode: target.mode });
+        session.resume();
+    };
+
+    const next = () => {
+        // Resume at the first step still missing (earlier steps may have been retaken)
+        const remaining = steps.findIndex((s) => !results[s.id]);
+        if (remaining === -1) {
+            finish({ status: 'completed', results });
+            return;
+        }
+        setStepIndex(remaining);
+        session.resume();
+    };
+
+    const allCaptured = steps.every((s) => results[s.id]);
+
+    return (
+        <CaptureOverlay
+            session={session}
+            state={state}
+            videoRef={videoRef}
+            canvasRef={canvasRef}
+            isOpen={isOpen}
+            debug={debug}
+            className={className}
+            messages={dictionary}
+            renderGuidance={renderGuidance}
+            onClose={() => finish({ status: 'cancelled' })}
+        >
+            {step && live && review && (
+                <CaptureReview
+                    result={review}
+                    messages={dictionary}
+                    title={stepText(step, 'title', dictionary)}
+                    acceptLabel={allCaptured ? dictionary.finish : dictionary.continue}
+                    onAccept={next}
+                    onRetake={() => retake(stepIndex)}
+                />
+            )}
+            {step && live && !review && (
+                <>
+                    {fallback ? (
+                        <UploadFallback
+                            messages={dictionary}
+                            error={state.error}
+                            instruction={stepText(step, 'instruction', dictionary)}
+                            onFile={session.captureImage}
+                        />
+                    ) : (
+                        /* Instruction */
+                        <div className="absolute top-16 right-4 left-4 rounded-xl bg-black/50 px-4 py-3 text-center text-white backdrop-blur">
+                            <div className="text-xs uppercase tracking-wide text-white/60">
+                                {formatMessage(dictionary.stepProgress, {
+                                    current: stepIndex + 1,
+                                    total: steps.length,
+                                })}
+                            </div>
+                            <div className="mt-1 text-base font-medium">
+                                {stepText(step, 'instruction', dictionary)}
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Step bar */}
+                    <div className="absolute right-0 bottom-0 left-0 px-4 pb-6">
+                        <div className="flex justify-center gap-2">
+                            {steps.map((s, i) => (
+                                <button
+                                    type="button"
+                                    key={s.id}
+                                    disabled={!results[s.id] || i === stepIndex}
+                                    onClick={() => retake(i)}
+                                    className={`rounded-xl border border-white/20 px-3 py-1.5 text-sm ${
+                                        i === stepIndex ? 'bg-white text-black' : 'bg-white/10 text-white/90'
+                                    }`}
+                                >
+                                    {results[s.id] ? '✓ ' : ''}
+                                    {stepText(s, 'title', dictionary)}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                </>
+            )}
+        </CaptureOverlay>
+    );
+}
+
+// Step text: explicit value, else the `step.<id>.*` message for default steps, else the id
+function stepText(step: CaptureStep, field: 'title' | 'instruction', messages: Messages) {
+    return step[field] ?? messages[`step.${step.id}.${field}` as MessageKey] ?? step.id;
+}
@@ -0,0 +1,83 @@
+import { useState, type DragEvent } from 'react';
+import type { CaptureError } from '../../core/types';
+import { describeError, type Messages } from '../../i18n';
+
+// Shown instead of the preview when the camera can't be used (denied, missing, busy):
+// pick or drop an image, which goes through session.captureImage like a live capture.
+
+export interface UploadFallbackProps {
+    messages: Messages;
+    /** Camera error that triggered the fallback */
+    error: CaptureError | null;
+    /** What to upload (e.g. the step instruction) */
+    instruction?: string;
+    /** Resolves once the image was processed; a rejection shows `upload.failed` */
+    onFile: (file: File) => Promise<unknown>;
+}
+
+export function UploadFallback({ messages, error, instruction, onFile }: UploadFallbackProps) {
+    const [busy, setBusy] = useState(false);
+    const [failed, setFailed] = useState(false);
+    const [dragging, setDragging] = useState(false);
+
+    const handle = async (file: File | undefined) => {
+        if (!file || busy) return;
+        if (!file.type.startsWith('image/')) {
+            setFailed(true);
+            return;
+        }
+        setBusy(true);
+        setFailed(false);
+        try {
+            await onFile(file);
+        } catch {
+            setFailed(true);
+        } finally {
+            setBusy(false);
+        }
+    };
+
+    const onDrop = (e: DragEvent<HTMLElement>) => {
+        e.preventDefault();
+        setDragging(false);
+        handle(e.dataTransfer.files[0]);
+    };
+
+    return (
+        <div className="absolute inset-0 flex flex-col items-center justify-center bg-black px-6 pt-16 pb-6 text-center text-white">
+            {error && <div className="mb-4 text-sm text-red-300">{describeError(error, messages)}</div>}
+            <div className="text-lg font-semibold">{messages['upload.title']}</div>
+            {instruction && <div className="mt-1 text-white/80">{instruction}</div>}
+
+            <label
+                onDragOver={(e) => {
+                    e.preventDefault();
+                    setDragging(true);
+                }}
+                onDragLeave={() => setDragging(false)}
+                onDrop={onDrop}
+                className={`mt-6 flex w-full max-w-md cursor-pointer flex-col items-center gap-2 rounded-2xl border-2 border-dashed px-4 py-10 ${
+                    dragging ? 'border-blue-400 bg-blue-500/10' : 'border-white/30 bg-white/5'
+                } ${busy ? 'pointer-events-none opacity-60' : ''}`}
+            >
+                <span className="rounded-xl bg-blue-600 px-4 py-2 font-medium">
+                    {busy ? messages['upload.processing'] : messages['upload.choose']}
+                </span>
+                <span className="text-sm text-white/70">{messages['upload.drop']}</span>
+                <input
+                    type="file"
+                    accept="image/*"
+                    className="sr-only"
+                    disabled={busy}
+                    onChange={(e) => {
+                        handle(e.target.files?.[0]);
+                        // Picking the same file again must fire onChange
+                        e.target.value = '';
+                    }}
+                />
+            </label>
+
+            {failed && <div className="mt-3 text-sm text-red-300">{messages['upload.failed']}</div>}
+        </div>
+    );
+}
@@ -0,0 +1,143 @@
+import { useMemo, type ReactNode } from 'react';
+import { resolveMessages, type Messages } from '../../i18n';
+import {
+    summarizeVerification,
+    type VerificationResponse,
+    type VerificationThresholds,
+    type VerificationVerdict,
+} from '../../verification';
+
+// Results screen for the n8n verification response: trust gauge, verdict,
+// face similarity and the list of causes with their scores.
+
+export interface VerificationResultProps {
+    /**
+     * Workflow response (see submitVerification / validateVerificationResponse)
+     * @type {VerificationResponse}
+     * @memberof VerificationResultProps
+     */
+    response: VerificationResponse;
+
+    /**
+     * Trust / face similarity thresholds behind the accept, reject and manual-review verdict
+     * @default DEFAULT_VERIFICATION_THRESHOLDS
+     * @type {Partial<VerificationThresholds>}
+     * @memberof VerificationResultProps
+     */
+    thresholds?: Partial<VerificationThresholds>;
+
+    /**
+     * UI language; built-in dictionaries: 'en', 'fr'
+     * @default navigator.language (falls back to 'en')
+     * @type {string}
+     * @memberof VerificationResultProps
+     */
+    locale?: string;
+
+    /**
+     * Override individual messages of the locale dictionary
+     * @type {Partial<Messages>}
+     * @memberof VerificationResultProps
+     */
+    messages?: Partial<Messages>;
+
+    /**
+     * Additional class name(s) for the root element
+     * @type {string}
+     * @memberof VerificationResultProps
+     */
+    className?: string;
+
+    /** Rendered under the causes (e.g. Continue / Try again buttons) */
+    children?: ReactNode;
+}
+
+const VERDICT_COLORS: Record<VerificationVerdict, { stroke: string; badge: string }> = {
+    accept: { stroke: 'stroke-green-500', badge: 'bg-green-100 text-green-800' },
+    reject: { stroke: 'stroke-red-500', badge: 'bg-red-100 text-red-800' },
+    'manual-review': { stroke: 'stroke-amber-500', badge: 'bg-amber-100 text-amber-800' },
+};
+
+export function VerificationResult({
+    response,
+    thresholds,
+    locale,
+    messages,
+    className,
+    children,
+}: VerificationResultProps) {
+    const dictionary = useMemo(() => resolveMessages(locale, messages), [locale, messages]);
+    const summary = useMemo(() => summarizeVerification(response, thresholds), [response, thresholds]);
+    const colors = VERDICT_COLORS[summary.verdict];
+    const percent = (v: number) => `${Math.round(v * 100)}%`;
+
+    return (
+        <div className={'w-full max-w-md rounded-2xl bg-white p-5 text-gray-900 shadow ' + (className ?? '')}>
+            <div className="flex items-center gap-4">
+                <TrustGauge value={summary.trust} strokeClass={colors.stroke} label={percent(summary.trust)} />
+                <div className="min-w-0 flex-1">
+                    <div className="text-sm text-gray-500">{dictionary['verification.trust']}</div>
+                    <span className={`mt-1 inline-block rounded-full px-3 py-1 text-sm font-medium ${colors.badge}`}>
+                        {dictionary[`verification.verdict.${summary.verdict}`]}
+                    </span>
+                    <div className="mt-2 text-sm">
+                        <span className="text-gray-500">{dictionary['verification.faceSimilarity']}: </span>
+                        <span className="font-medium">
+                            {summary.faceSimilarity === null
+                                ? dictionary['verification.noFaceMatch']
+                                : percent(summary.faceSimilarity)}
+                        </span>
+                    </div>
+                </div>
+            </div>
+
+            {summary.causes.length > 0 && (
+                <div className="mt-5">
+                    <div className="text-sm font-medium text-gray-500">{dictionary['verification.causes']}</div>
+                    <ul className="mt-2 divide-y divide-gray-100">
+                        {summary.causes.map((cause, i) => (
+                            <li key={i} className="flex items-start justify-between gap-3 py-2 text-sm">
+                                <span>{cause.message}</span>
+                                <span
+                                    className={`shrink-0 rounded-md px-2 py-0.5 font-mono text-xs ${
+                                        cause.score < 0 ? 'bg-red-50 text-red-700' : 'bg-green-50 text-green-700'
+                                    }`}
+                                >
+                                    {cause.score > 0 ? '+' : ''}
+                                    {cause.score.toFixed(1)}
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                </div>
+            )}
+
+            {children}
+        </div>
+    );
+}
+
+function TrustGauge({ value, strokeClass, label }: { value: number; strokeClass: string; label: string }) {
+    const r = 34;
+    const circumference = 2 * Math.PI * r;
+    const clamped = Math.max(0, Math.min(1, value));
+    return (
+        <div className="relative h-20 w-20 shrink-0">
+            <svg viewBox="0 0 80 80" className="h-full w-full -rotate-90" role="img" aria-label={label}>
+                <circle cx="40" cy="40" r={r} fill="none" strokeWidth="8" className="stroke-gray-200" />
+                <circle
+                    cx="40"
+                    cy="40"
+                    r={r}
+                    fill="none"
+                    strokeWidth="8"
+                    strokeLinecap="round"
+                    className={strokeClass}
+                    strokeDasharray={circumference}
+                    strokeDashoffset={circumference * (1 - clamped)}
+                />
+            </svg>
+            <div className="absolute inset-0 grid place-items-center text-lg font-semibold">{label}</div>
+        </div>
+    );
+}
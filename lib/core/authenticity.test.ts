@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import type { RgbaImage } from '../mrz/locate';
+import { colorfulness, DEFAULT_AUTHENTICITY_THRESHOLDS, moireScore, outlineGeometry } from './authenticity';
+import { ID1_ASPECT } from './cardCrop';
+
+const { maxMoire, minColorfulRatio, minRectangularity, maxCornerDeviation } = DEFAULT_AUTHENTICITY_THRESHOLDS;
+
+// Image whose pixels are given by `rgb(x, y)`
+function image(width: number, height: number, rgb: (x: number, y: number) => [number, number, number]): RgbaImage {
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let y = 0; y < height; y++) {
+        for (let x = 0; x < width; x++) {
+            data.set([...rgb(x, y), 255], (y * width + x) * 4);
+        }
+    }
+    return { data, width, height };
+}
+
+// Deterministic noise in 0..1 (Park-Miller; a print's texture: no dominant frequency)
+function noise(seed = 1) {
+    let s = seed;
+    return () => (s = (s * 16807) % 2147483647) / 2147483647;
+}
+
+const grey = (v: number): [number, number, number] => [v, v, v];
+
+describe('moireScore', () => {
+    it('stays under the threshold on a textured print', () => {
+        const rand = noise();
+        expect(moireScore(image(600, 400, () => grey(100 + 80 * rand())))).toBeLessThan(maxMoire);
+    });
+
+    it('flags a screen grid beating with the sensor', () => {
+        const rand = noise();
+        // Fine diagonal grating over the same texture: an isolated peak off the axes
+        const grating = (x: number, y: number) => 60 * Math.cos(2 * Math.PI * ((x * 70) / 512 + (y * 45) / 512));
+        const score = moireScore(image(600, 400, (x, y) => grey(128 + grating(x, y) + 40 * rand())));
+        expect(score).toBeGreaterThan(maxMoire);
+    });
+
+    it('ignores lines along the image axes (card edges, text lines)', () => {
+        const rand = noise();
+        const score = moireScore(image(600, 400, (_, y) => grey(120 + (y % 8 < 4 ? 60 : 0) + 40 * rand())));
+        expect(score).toBeLessThan(maxMoire);
+    });
+
+    it('returns 0 on an image too small for the spectrum', () => {
+        expect(moireScore(image(31, 40, (x) => grey(x % 2 ? 255 : 0)))).toBe(0);
+    });
+});
+
+describe('colorfulness', () => {
+    it.each([
+        ['a grey photocopy', image(64, 40, (x) => grey(40 + x * 3)), 0],
+        ['a saturated print', image(64, 40, () => [200, 60, 40]), 1],
+        // Dark pixels carry no reliable hue: only the lit half counts
+        ['colour on a black half', image(64, 40, (x) => (x < 32 ? [10, 0, 30] : [60, 120, 200])), 1],
+        // Slightly warm white (saturation 0.15) is still paper
+        ['warm white paper', image(64, 40, () => [240, 220, 204]), 0],
+    ])('%s', (_, pixels, colorful) => {
+        expect(colorfulness(pixels).colorful).toBe(colorful);
+    });
+
+    it('passes a mostly grey card with a coloured photo and fails the same card without it', () => {
+        const photo = (x: number, y: number) => x < 16 && y < 16;
+        const card = colorfulness(image(64, 40, (x, y) => (photo(x, y) ? [180, 120, 90] : grey(200))));
+        const copy = colorfulness(image(64, 40, () => grey(200)));
+
+        expect(card.colorful).toBeCloseTo(256 / 2560);
+        expect(card.colorful).toBeGreaterThanOrEqual(minColorfulRatio);
+        expect(copy.colorful).toBeLessThan(minColorfulRatio);
+        expect(copy.meanSaturation).toBe(0);
+    });
+});
+
+describe('outlineGeometry', () => {
+    const rotate = (points: { x: number; y: number }[], deg: number) => {
+        const [c, s] = [Math.cos((deg * Math.PI) / 180), Math.sin((deg * Math.PI) / 180)];
+        return points.map(({ x, y }) => ({ x: x * c - y * s + 500, y: x * s + y * c + 300 }));
+    };
+    const card = [
+        { x: 0, y: 0 },
+        { x: 856, y: 0 },
+        { x: 856, y: 540 },
+        { x: 0, y: 540 },
+    ];
+
+    it.each([0, 12, -30])('measures an ID-1 card rotated by %i degrees as a rectangle', (deg) => {
+        const g = outlineGeometry(rotate(card, deg));
+        expect(g.rectangularity).toBeCloseTo(1);
+        expect(g.aspect).toBeCloseTo(ID1_ASPECT, 2);
+        expect(g.cornerDeviation).toBeCloseTo(0);
+    });
+
+    it('accepts the mild keystone of a card held slightly tilted', () => {
+        const g = outlineGeometry([
+            { x: 30, y: 0 },
+            { x: 826, y: 0 },
+            { x: 856, y: 540 },
+            { x: 0, y: 540 },
+        ]);
+        expect(g.rectangularity).toBeGreaterThanOrEqual(minRectangularity);
+        expect(g.cornerDeviation).toBeLessThanOrEqual(maxCornerDeviation);
+    });
+
+    it('flags a skewed outline', () => {
+        // Parallelogram: the top edge shifted by 200 px, corners about 20 degrees off
+        const g = outlineGeometry([
+            { x: 200, y: 0 },
+            { x: 1056, y: 0 },
+            { x: 856, y: 540 },
+            { x: 0, y: 540 },
+        ]);
+        expect(g.rectangularity).toBeCloseTo(856 / 1056);
+        expect(g.rectangularity).toBeLessThan(minRectangularity);
+        expect(g.cornerDeviation).toBeCloseTo(Math.atan(200 / 540) * (180 / Math.PI));
+        expect(g.cornerDeviation).toBeGreaterThan(maxCornerDeviation);
+    });
+});
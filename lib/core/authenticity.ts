@@ -0,0 +1,432 @@
+import * as faceapi from 'face-api.js';
+import type { RgbaImage } from '../mrz/locate';
+import type { VerificationCause } from '../verification/types';
+import { resolveDocumentProfile, type DocumentFormat, type DocumentProfile } from './documents';
+import { pointsBounds, type Box, type Point } from './geometry';
+import { loadImageCanvas } from './image';
+import { luminance, QUALITY_ROI_WIDTH } from './quality';
+import type { CaptureResult } from './types';
+
+// === Client-side tamper signals on a captured card ===
+// Cheap heuristics run before submitting: screen recapture (moiré peaks in the spectrum),
+// photocopy (no colour), card outline vs its minimum-area rectangle, and a face in the
+// portrait area. Each check yields a workflow-style cause (`{message, score}`, 0 when it
+// passed, a negative penalty otherwise) that can be appended to the trust prompt input.
+
+export type AuthenticityCheckName = 'screen-recapture' | 'photocopy' | 'card-geometry' | 'portrait-face';
+
+export interface AuthenticityThresholds {
+    /** Share of the mid/high-frequency spectrum energy in isolated peaks above which a screen is suspected */
+    maxMoire: number;
+    /** Minimum share of clearly coloured pixels (HSV saturation > 0.2) on a genuine card */
+    minColorfulRatio: number;
+    /** Minimum card outline area over its minimum-area rectangle area */
+    minRectangularity: number;
+    /** Maximum deviation of an outline corner from 90 degrees (perspective included) */
+    maxCornerDeviation: number;
+    /** Minimum face detector score in the portrait area */
+    minFaceScore: number;
+}
+
+export const DEFAULT_AUTHENTICITY_THRESHOLDS: AuthenticityThresholds = {
+    maxMoire: 0.1,
+    minColorfulRatio: 0.03,
+    minRectangularity: 0.9,
+    maxCornerDeviation: 15,
+    minFaceScore: 0.5,
+};
+
+/** Penalty of each failed check, on the workflow's scale (the prompt zeroes the trust at -0.5 total) */
+export const DEFAULT_AUTHENTICITY_PENALTIES: Record<AuthenticityCheckName, number> = {
+    'screen-recapture': -0.5,
+    photocopy: -0.3,
+    'card-geometry': -0.2,
+    'portrait-face': -0.5,
+};
+
+export interface AuthenticityOptions {
+    /**
+     * Checks to run (e.g. without 'portrait-face' for a card back)
+     * @default every check
+     */
+    checks?: AuthenticityCheckName[];
+    thresholds?: Partial<AuthenticityThresholds>;
+    penalties?: Partial<Record<AuthenticityCheckName, number>>;
+    /**
+     * Document the capture shows (aspect band of the outline, portrait side)
+     * @default 'ID-1'
+     */
+    documentProfile?: DocumentFormat | DocumentProfile;
+    /**
+     * Where the portrait is on the flat card, as fractions of its size; the 180 degree
+     * rotated area is accepted too since crops are only known to be landscape
+     * @default { x: 0, y: 0.15, width: 0.45, height: 0.85 } (left side, as on ID-1 cards and passports)
+     */
+    portraitRegion?: Box;
+    /**
+     * URL path to face-api.js models (relative to site root)
+     * @default '/models'
+     */
+    modelsUrl?: string;
+}
+
+export interface AuthenticityCheckResult extends VerificationCause {
+    name: AuthenticityCheckName;
+    passed: boolean;
+    /** The check could not run on this capture (e.g. 'card-geometry' on the guide rectangle): not in `signals` */
+    skipped?: boolean;
+    /** Measured value compared to the threshold */
+    value: number;
+    detail?: Record<string, number>;
+}
+
+export interface AuthenticityReport {
+    checks: AuthenticityCheckResult[];
+    /** The checks that ran as workflow causes, ready for the trust prompt (skipped ones are left out) */
+    signals: VerificationCause[];
+    /** Sum of the penalties (0 when every check passed) */
+    score: number;
+}
+
+const ALL_CHECKS: AuthenticityCheckName[] = ['screen-recapture', 'photocopy', 'card-geometry', 'portrait-face'];
+const DEFAULT_PORTRAIT_REGION: Box = { x: 0, y: 0.15, width: 0.45, height: 0.85 };
+// Side of the square patch the spectrum is computed on (power of two)
+const SPECTRUM_SIZE = 512;
+
+/**
+ * Tamper signals of a card capture, measured on its flat crop when there is one.
+ * Heuristics only: they flag captures worth a closer look, they don't prove a forgery.
+ */
+export async function checkAuthenticity(
+    capture: CaptureResult,
+    {
+        checks = ALL_CHECKS,
+        thresholds: thresholdOverrides,
+        penalties: penaltyOverrides,
+        documentProfile = 'ID-1',
+        portraitRegion = DEFAULT_PORTRAIT_REGION,
+        modelsUrl = '/models',
+    }: AuthenticityOptions = {},
+): Promise<AuthenticityReport> {
+    const thresholds = { ...DEFAULT_AUTHENTICITY_THRESHOLDS, ...thresholdOverrides };
+    const penalties = { ...DEFAULT_AUTHENTICITY_PENALTIES, ...penaltyOverrides };
+    const quad = capture.detection.mode === 'card' ? capture.detection.quad : null;
+    const card = await cardCanvas(capture, quad);
+
+    const results: AuthenticityCheckResult[] = [];
+    const add = (
+        name: AuthenticityCheckName,
+        passed: boolean,
+        value: number,
+        message: string,
+        detail?: Record<string, number>,
+    ) => results.push({ name, passed, value, message, score: passed ? 0 : penalties[name], detail });
+    const skip = (name: AuthenticityCheckName, message: string) =>
+        results.push({ name, passed: true, skipped: true, value: 0, message, score: 0 });
+
+    if (checks.includes('screen-recapture')) {
+        const moire = moireScore(pixels(card, 0, 0, card.width, card.height));
+        add(
+            'screen-recapture',
+            moire <= thresholds.maxMoire,
+            moire,
+            moire <= thresholds.maxMoire
+                ? `No screen moiré pattern on the document (${moire.toFixed(3)})`
+                : `Periodic moiré pattern suggests a photo of a screen (${moire.toFixed(3)})`,
+        );
+    }
+
+    if (checks.includes('photocopy')) {
+        const { colorful, meanSaturation } = colorfulness(downscaled(card, QUALITY_ROI_WIDTH));
+        add(
+            'photocopy',
+            colorful >= thresholds.minColorfulRatio,
+            colorful,
+            colorful >= thresholds.minColorfulRatio
+                ? `Document shows printed colours (${(colorful * 100).toFixed(1)}% colourful pixels)`
+                : `Document has almost no colour, it may be a photocopy (${(colorful * 100).toFixed(1)}% colourful pixels)`,
+            { meanSaturation },
+        );
+    }
+
+    if (checks.includes('card-geometry')) {
+        if (capture.detection.mode !== 'card') {
+            skip('card-geometry', 'Card outline not checked: the capture is not a card');
+        } else if (capture.detection.detector === 'heuristic') {
+            // A heuristic-detector quad is the guide rectangle itself: nothing to measure
+            skip('card-geometry', 'Card outline not checked: only the guide rectangle is known');
+        } else if (!quad) {
+            add('card-geometry', false, 0, 'No card outline was detected on the image');
+        } else {
+            const g = outlineGeometry(quad);
+            const { minAspect, maxAspect } = resolveDocumentProfile(documentProfile);
+            const failures = [
+                g.rectangularity < thresholds.minRectangularity && 'outline does not fill its rectangle',
+                g.cornerDeviation > thresholds.maxCornerDeviation && 'corners are not square',
+                (g.aspect < minAspect || g.aspect > maxAspect) && 'proportions do not match the document format',
+            ].filter(Boolean);
+            add(
+                'card-geometry',
+                failures.length === 0,
+                g.rectangularity,
+                failures.length === 0
+                    ? `Card edges and corners match a rectangular document (fill ${g.rectangularity.toFixed(2)})`
+                    : `Card outline is inconsistent: ${failures.join(', ')}`,
+                { aspect: g.aspect, cornerDeviation: g.cornerDeviation },
+            );
+        }
+    }
+
+    if (checks.includes('portrait-face')) {
+        // The region only means something on the flat crop; elsewhere any face on the card counts
+        const face = await portraitFace(card, capture.cardImage ? portraitRegion : null, modelsUrl);
+        const passed = face !== null && face.score >= thresholds.minFaceScore;
+        add(
+            'portrait-face',
+            passed,
+            face?.score ?? 0,
+            passed
+                ? `Portrait area contains a face (${face.score.toFixed(2)})`
+                : 'No face found in the portrait area of the document',
+        );
+    }
+
+    return {
+        checks: results,
+        signals: results.filter((r) => !r.skipped).map(({ message, score }) => ({ message, score })),
+        score: results.reduce((sum, r) => sum + r.score, 0),
+    };
+}
+
+// Flat crop when available, else the outline bounds (or the whole capture)
+async function cardCanvas(capture: CaptureResult, quad: Point[] | null) {
+    if (capture.cardImage) return loadImageCanvas(capture.cardImage.blob);
+    const image = await loadImageCanvas(capture.blob);
+    if (!quad) return image;
+    const b = pointsBounds(quad);
+    const x = Math.max(0, Math.round(b.x)),
+        y = Math.max(0, Math.round(b.y));
+    const w = Math.min(image.width - x, Math.round(b.w)),
+        h = Math.min(image.height - y, Math.round(b.h));
+    if (w < 8 || h < 8) return image;
+    const out = document.createElement('canvas');
+    out.width = w;
+    out.height = h;
+    out.getContext('2d')?.drawImage(image, x, y, w, h, 0, 0, w, h);
+    return out;
+}
+
+function pixels(canvas: HTMLCanvasElement, x: number, y: number, w: number, h: number) {
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('2D canvas not available');
+    return ctx.getImageData(x, y, w, h);
+}
+
+function downscaled(canvas: HTMLCanvasElement, maxWidth: number) {
+    const w = Math.min(maxWidth, canvas.width),
+        h = Math.max(1, Math.round((canvas.height * w) / canvas.width));
+    const small = document.createElement('canvas');
+    small.width = w;
+    small.height = h;
+    small.getContext('2d')?.drawImage(canvas, 0, 0, w, h);
+    return pixels(small, 0, 0, w, h);
+}
+
+// --- Screen recapture: a screen's pixel grid aliases with the camera sensor into a few
+// strong periodic components, i.e. isolated peaks in the 2D spectrum that printed cards don't have.
+// Share of the ring-normalised spectrum energy in peaks (0..1, compared to `maxMoire`).
+export function moireScore(card: RgbaImage) {
+    // Native-resolution centre patch: downscaling would filter the pattern out
+    let n = SPECTRUM_SIZE;
+    while (n > 32 && (n > card.width || n > card.height)) n /= 2;
+    if (n > card.width || n > card.height) return 0;
+    const full = luminance(card);
+    const x0 = (card.width - n) >> 1,
+        y0 = (card.height - n) >> 1;
+    const lum = new Float32Array(n * n);
+    for (let y = 0; y < n; y++) {
+        const row = (y0 + y) * card.width + x0;
+        lum.set(full.subarray(row, row + n), y * n);
+    }
+
+    // Hann window against the patch border leaking into every frequency
+    const re = new Float64Array(n * n),
+        im = new Float64Array(n * n);
+    let mean = 0;
+    for (let i = 0; i < lum.length; i++) mean += lum[i];
+    mean /= lum.length;
+    const hann = Array.from({ length: n }, (_, i) => 0.5 - 0.5 * Math.cos((2 * Math.PI * i) / (n - 1)));
+    for (let y = 0; y < n; y++) for (let x = 0; x < n; x++) re[y * n + x] = (lum[y * n + x] - mean) * hann[x] * hann[y];
+    fft2d(re, im, n);
+
+    // Compare every bin to the mean of its frequency ring (the natural 1/f falloff)
+    const rMin = Math.round(n * 0.08),
+        rMax = Math.round(n * 0.45);
+    const ringSum = new Float64Array(rMax + 1),
+        ringCount = new Uint32Array(rMax + 1);
+    const bins: { r: number; power: number }[] = [];
+    for (let v = -n / 2; v < n / 2; v++) {
+        for (let u = 0; u <= n / 2; u++) {
+            // Axes carry the card edges and text lines
+            if (Math.abs(u) <= 1 || Math.abs(v) <= 1) continue;
+            const r = Math.round(Math.hypot(u, v));
+            if (r < rMin || r > rMax) continue;
+            const i = ((v + n) % n) * n + u;
+            const power = re[i] * re[i] + im[i] * im[i];
+            ringSum[r] += power;
+            ringCount[r]++;
+            bins.push({ r, power });
+        }
+    }
+    let total = 0,
+        peaks = 0;
+    for (const { r, power } of bins) {
+        total += power;
+        if (power > 36 * (ringSum[r] / ringCount[r])) peaks += power;
+    }
+    return total ? peaks / total : 0;
+}
+
+function fft2d(re: Float64Array, im: Float64Array, n: number) {
+    const rowRe = new Float64Array(n),
+        rowIm = new Float64Array(n);
+    for (let pass = 0; pass < 2; pass++) {
+        for (let k = 0; k < n; k++) {
+            // Rows first, then columns
+            const at = (j: number) => (pass === 0 ? k * n + j : j * n + k);
+            for (let j = 0; j < n; j++) {
+                rowRe[j] = re[at(j)];
+                rowIm[j] = im[at(j)];
+            }
+            fft(rowRe, rowIm);
+            for (let j = 0; j < n; j++) {
+                re[at(j)] = rowRe[j];
+                im[at(j)] = rowIm[j];
+            }
+        }
+    }
+}
+
+// In-place iterative radix-2 FFT (length must be a power of two)
+function fft(re: Float64Array, im: Float64Array) {
+    const n = re.length;
+    for (let i = 1, j = 0; i < n; i++) {
+        let bit = n >> 1;
+        for (; j & bit; bit >>= 1) j ^= bit;
+        j ^= bit;
+        if (i < j) {
+            [re[i], re[j]] = [re[j], re[i]];
+            [im[i], im[j]] = [im[j], im[i]];
+        }
+    }
+    for (let len = 2; len <= n; len <<= 1) {
+        const angle = (-2 * Math.PI) / len;
+        for (let i = 0; i < n; i += len) {
+            for (let k = 0; k < len / 2; k++) {
+                const wr = Math.cos(angle * k),
+                    wi = Math.sin(angle * k);
+                const a = i + k,
+                    b = a + len / 2;
+                const tr = re[b] * wr - im[b] * wi,
+                    ti = re[b] * wi + im[b] * wr;
+                re[b] = re[a] - tr;
+                im[b] = im[a] - ti;
+                re[a] += tr;
+                im[a] += ti;
+            }
+        }
+    }
+}
+
+// --- Photocopy: share of clearly coloured pixels (HSV saturation), ignoring dark ones
+export function colorfulness({ data }: RgbaImage) {
+    let colorful = 0,
+        lit = 0,
+        saturationSum = 0;
+    for (let i = 0; i < data.length; i += 4) {
+        const max = Math.max(data[i], data[i + 1], data[i + 2]),
+            min = Math.min(data[i], data[i + 1], data[i + 2]);
+        if (max < 40) continue;
+        const s = (max - min) / max;
+        lit++;
+        saturationSum += s;
+        if (s > 0.2) colorful++;
+    }
+    return { colorful: lit ? colorful / lit : 0, meanSaturation: lit ? saturationSum / lit : 0 };
+}
+
+// --- Outline vs its minimum-area rectangle (rotating calipers over the quad edges)
+export function outlineGeometry(quad: Point[]) {
+    const area = Math.abs(polygonArea(quad));
+    let best = { area: Infinity, long: 0, short: 0 };
+    for (let i = 0; i < quad.length; i++) {
+        const a = quad[i],
+            b = quad[(i + 1) % quad.length];
+        const len = Math.hypot(b.x - a.x, b.y - a.y);
+        if (!len) continue;
+        const ux = (b.x - a.x) / len,
+            uy = (b.y - a.y) / len;
+        const along = quad.map((p) => p.x * ux + p.y * uy),
+            across = quad.map((p) => -p.x * uy + p.y * ux);
+        const w = Math.max(...along) - Math.min(...along),
+            h = Math.max(...across) - Math.min(...across);
+        if (w * h < best.area) best = { area: w * h, long: Math.max(w, h), short: Math.min(w, h) };
+    }
+    const cornerDeviation = Math.max(
+        ...quad.map((p, i) => {
+            const prev = quad[(i + quad.length - 1) % quad.length],
+                next = quad[(i + 1) % quad.length];
+            const a1 = Math.atan2(prev.y - p.y, prev.x - p.x),
+                a2 = Math.atan2(next.y - p.y, next.x - p.x);
+            let deg = Math.abs(((a1 - a2) * 180) / Math.PI) % 360;
+            if (deg > 180) deg = 360 - deg;
+            return Math.abs(deg - 90);
+        }),
+    );
+    return {
+        rectangularity: best.area > 0 && best.area !== Infinity ? area / best.area : 0,
+        aspect: best.short > 0 ? best.long / best.short : 0,
+        cornerDeviation,
+    };
+}
+
+function polygonArea(points: Point[]) {
+    let sum = 0;
+    for (let i = 0; i < points.length; i++) {
+        const a = points[i],
+            b = points[(i + 1) % points.length];
+        sum += a.x * b.y - b.x * a.y;
+    }
+    return sum / 2;
+}
+
+// --- Portrait: best face whose centre lies in the portrait region (or its 180 degree rotation)
+let __portraitModelPromise: Promise<void> | null = null;
+function ensurePortraitModel(modelsUrl: string) {
+    if (faceapi.nets.tinyFaceDetector.isLoaded) return Promise.resolve();
+    __portraitModelPromise ??= faceapi.nets.tinyFaceDetector.loadFromUri(modelsUrl).catch((e) => {
+        // Allow a retry on the next call
+        __portraitModelPromise = null;
+        throw e;
+    });
+    return __portraitModelPromise;
+}
+
+async function portraitFace(card: HTMLCanvasElement, region: Box | null, modelsUrl: string) {
+    await ensurePortraitModel(modelsUrl);
+    // Card portraits are small: run the detector at a larger input size
+    const faces = await faceapi.detectAllFaces(
+        card,
+        new faceapi.TinyFaceDetectorOptions({ inputSize: 512, scoreThreshold: 0.3 }),
+    );
+    const inRegion = (cx: number, cy: number) =>
+        !region ||
+        [region, { ...region, x: 1 - region.x - region.width, y: 1 - region.y - region.height }].some(
+            (r) => cx >= r.x && cx <= r.x + r.width && cy >= r.y && cy <= r.y + r.height,
+        );
+    const candidates = faces.filter(({ box }) =>
+        inRegion((box.x + box.width / 2) / card.width, (box.y + box.height / 2) / card.height),
+    );
+    if (!candidates.length) return null;
+    return candidates.reduce((a, b) => (b.score > a.score ? b : a));
+}
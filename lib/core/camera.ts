@@ -0,0 +1,47 @@
+import type { OverlayMode } from './types';
+
+// === Camera devices, stream constraints and torch ===
+
+export type CameraFacing = 'user' | 'environment';
+
+export interface CameraDevice {
+    deviceId: string;
+    /** Empty until the user granted camera access (browser privacy rule) */
+    label: string;
+}
+
+/** Video inputs of this device (labels are only filled once a stream was granted) */
+export async function listCameras(): Promise<CameraDevice[]> {
+    if (!navigator.mediaDevices?.enumerateDevices) return [];
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices
+        .filter((d) => d.kind === 'videoinput' && d.deviceId)
+        .map((d) => ({ deviceId: d.deviceId, label: d.label }));
+}
+
+/** Rear camera for documents, front camera for the selfie */
+export function facingForOverlay(mode: OverlayMode): CameraFacing {
+    return mode === 'card' ? 'environment' : 'user';
+}
+
+/** 1440x2560 portrait on the chosen device, or on the camera facing the requested side */
+export function videoConstraints(deviceId: string | null, facing: CameraFacing): MediaTrackConstraints {
+    return {
+        ...(deviceId ? { deviceId: { exact: deviceId } } : { facingMode: { ideal: facing } }),
+        width: { ideal: 1440 },
+        height: { ideal: 2560 },
+        aspectRatio: 9 / 16,
+    };
+}
+
+// `torch` is not in lib.dom yet (Chrome on Android only)
+type TorchCapabilities = MediaTrackCapabilities & { torch?: boolean };
+
+export function hasTorch(track: MediaStreamTrack | undefined) {
+    if (!track || typeof track.getCapabilities !== 'function') return false;
+    return Boolean((track.getCapabilities() as TorchCapabilities).torch);
+}
+
+export function applyTorch(track: MediaStreamTrack, on: boolean) {
+    return track.applyConstraints({ advanced: [{ torch: on } as MediaTrackConstraintSet] });
+}
@@ -0,0 +1,86 @@
+import { getOffscreen } from './cardDetection';
+import { sourceSize, type FrameSource, type Point } from './geometry';
+import { isOpenCVReady } from './opencv';
+
+// ID-1 format (ISO/IEC 7810): 85.6 x 54 mm
+export const ID1_ASPECT = 85.6 / 54;
+
+export interface CroppedImage {
+    blob: Blob;
+    dataUrl: string;
+    width: number;
+    height: number;
+}
+
+/**
+ * Warp the card quad (video pixels, clockwise from top-left) to a flat,
+ * landscape card image `outW` pixels wide. Uses an OpenCV perspective
+ * transform when available, otherwise an axis-aligned bounding-box crop.
+ */
+export async function cropCard(
+    source: FrameSource,
+    quad: Point[],
+    outW: number,
+    aspect = ID1_ASPECT,
+): Promise<CroppedImage | null> {
+    if (quad.length !== 4 || outW <= 0) return null;
+    const outH = Math.max(1, Math.round(outW / aspect));
+    const corners = landscapeOrder(quad);
+
+    const out = document.createElement('canvas');
+    out.width = outW;
+    out.height = outH;
+
+    if (isOpenCVReady()) {
+        warpOpenCV(source, corners, out);
+    } else {
+        const ctx = out.getContext('2d');
+        if (!ctx) return null;
+        const xs = corners.map((p) => p.x),
+            ys = corners.map((p) => p.y);
+        const x = Math.min(...xs),
+            y = Math.min(...ys);
+        ctx.drawImage(source, x, y, Math.max(...xs) - x, Math.max(...ys) - y, 0, 0, outW, outH);
+    }
+
+    const dataUrl = out.toDataURL('image/jpeg', 0.95);
+    const blob = await new Promise<Blob | null>((resolve) => out.toBlob(resolve, 'image/jpeg', 0.95));
+    if (!blob) return null;
+    return { blob, dataUrl, width: outW, height: outH };
+}
+
+// Rotate the corner order so the first edge is a long (horizontal) edge of the card
+function landscapeOrder(q: Point[]): Point[] {
+    const d = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+    const top = d(q[0], q[1]) + d(q[2], q[3]);
+    const side = d(q[1], q[2]) + d(q[3], q[0]);
+    return top >= side ? q : [q[3], q[0], q[1], q[2]];
+}
+
+function warpOpenCV(source: FrameSource, corners: Point[], out: HTMLCanvasElement) {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const cv: any = (window as any).cv;
+    // Full-resolution frame through the shared offscreen canvas
+    const off = getOffscreen();
+    const { width, height } = sourceSize(source);
+    off.width = width;
+    off.height = height;
+    const ctx = off.getContext('2d');
+    if (!ctx) return;
+    ctx.drawImage(source, 0, 0, off.width, off.height);
+
+    const src = cv.imread(off);
+    const dst = new cv.Mat();
+    const srcTri = cv.matFromArray(4, 1, cv.CV_32FC2, corners.flatMap((p) => [p.x, p.y]));
+    const dstTri = cv.matFromArray(4, 1, cv.CV_32FC2, [0, 0, out.width, 0, out.width, out.height, 0, out.height]);
+    const M = cv.getPerspectiveTransform(srcTri, dstTri);
+    cv.warpPerspective(src, dst, M, new cv.Size(out.width, out.height), cv.INTER_LINEAR, cv.BORDER_REPLICATE);
+    cv.imshow(out, dst);
+
+    // Cleanup
+    src.delete();
+    dst.delete();
+    srcTri.delete();
+    dstTri.delete();
+    M.delete();
+}
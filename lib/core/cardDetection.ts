@@ -0,0 +1,292 @@
+import type { RgbaImage } from '../mrz/locate';
+import { rectCorners, type FrameSource, type Point, type Rect } from './geometry';
+
+/** Built-in detectors, or the `name` of a custom CardDetector */
+export type CardDetectorKind = 'opencv' | 'heuristic' | (string & {});
+
+export interface CardEstimate {
+    ok: boolean;
+    /** 0..1, detector-specific (edge score, rectangularity, model score, ...) */
+    confidence: number;
+    /** Card corners in video pixels (clockwise from top-left), when known */
+    quad: Point[] | null;
+    /** Largest candidate's rotated-rect area over the ROI area (null if unknown) */
+    areaRatio: number | null;
+    /** Measurements behind the decision (e.g. aspect, rectangularity), shown in debug mode */
+    detail?: Record<string, number>;
+}
+
+export interface HeuristicCardOptions {
+    /**
+     * Normalized edge contrast along the guide borders above which a card counts as present;
+     * higher requires stronger, cleaner edges
+     * @default 0.18
+     */
+    minEdgeScore?: number;
+}
+
+export interface OpenCvCardOptions {
+    /**
+     * Accepted long/short side ratio of the card contour (ID-1 is 1.586, ID-2/ID-3 1.42;
+     * see DocumentProfile)
+     * @default 1.35
+     */
+    minAspect?: number;
+    /** @default 1.9 */
+    maxAspect?: number;
+    /**
+     * Contour area over its rotated-rect area
+     * @default 0.6
+     */
+    minRectangularity?: number;
+    /**
+     * Card area over the guide area
+     * @default 0.12
+     */
+    minAreaRatio?: number;
+    /** @default 0.98 */
+    maxAreaRatio?: number;
+}
+
+/** Working width of the heuristic detector; its pixel core expects the ROI resampled to it */
+export const HEURISTIC_WIDTH = 320;
+
+// === Heuristic card detector (edge strength along rectangle borders) ===
+// Detectors take any frame source so they also run on ImageBitmaps in the detection worker
+export async function estimateCardHeuristic(
+    source: FrameSource,
+    rv: Rect,
+    options: HeuristicCardOptions = {},
+): Promise<CardEstimate> {
+    // Normalize to ~320px width for speed (ROI aspect, i.e. the document's)
+    const outW = HEURISTIC_WIDTH;
+    const outH = Math.max(1, Math.round((outW * rv.h) / rv.w));
+    const ctx = scratchContext(outW, outH);
+    if (!ctx) return { ok: false, confidence: 0, quad: null, areaRatio: null };
+
+    // Draw the video ROI (NOT mirrored)
+    ctx.drawImage(source, rv.x, rv.y, rv.w, rv.h, 0, 0, outW, outH);
+    return heuristicCardFromPixels(ctx.getImageData(0, 0, outW, outH), rv, options);
+}
+
+/** Heuristic decision on the ROI pixels (any size, HEURISTIC_WIDTH wide live); the quad is `rv`. No DOM. */
+export function heuristicCardFromPixels(
+    image: RgbaImage,
+    rv: Rect,
+    { minEdgeScore = 0.18 }: HeuristicCardOptions = {},
+): CardEstimate {
+    const score = edgeScore(image.data, image.width, image.height);
+    const ok = score > minEdgeScore;
+    // No geometry here: the card is assumed to fill the guide ROI
+    return { ok, confidence: score, quad: ok ? rectCorners(rv) : null, areaRatio: null, detail: { edgeScore: score } };
+}
+
+let __OFFSCREEN_CANVAS__: HTMLCanvasElement | null = null;
+export function getOffscreen() {
+    if (!__OFFSCREEN_CANVAS__) __OFFSCREEN_CANVAS__ = document.createElement('canvas');
+    return __OFFSCREEN_CANVAS__;
+}
+
+// Scratch 2D context for pixel reads: the shared DOM canvas, or an OffscreenCanvas inside a worker
+let __WORKER_CANVAS__: OffscreenCanvas | null = null;
+export function scratchContext(width: number, height: number) {
+    if (typeof document === 'undefined') {
+        const off = (__WORKER_CANVAS__ ??= new OffscreenCanvas(width, height));
+        off.width = width;
+        off.height = height;
+        return off.getContext('2d', { willReadFrequently: true });
+    }
+    const off = getOffscreen();
+    off.width = width;
+    off.height = height;
+    return off.getContext('2d', { willReadFrequently: true });
+}
+
+export function edgeScore(data: Uint8ClampedArray, w: number, h: number) {
+    const lum = (i: number) => 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    const idx = (x: number, y: number) => (y * w + x) * 4;
+    const clamp = (v: number, min: number, max: number) => Math.max(min, Math.min(max, v));
+
+    const samples = 200;
+    let acc = 0;
+    let n = 0;
+    for (let s = 0; s < samples; s++) {
+        const x = 2 + Math.floor(((w - 4) * s) / samples);
+        const y1 = 2,
+            y2 = Math.min(5, h - 1);
+        acc += Math.abs(lum(idx(x, y1)) - lum(idx(x, y2))) / 255;
+        n++;
+        const yb1 = h - 3,
+            yb2 = clamp(h - 6, 0, h - 1);
+        acc += Math.abs(lum(idx(x, yb1)) - lum(idx(x, yb2))) / 255;
+        n++;
+    }
+    for (let s = 0; s < samples; s++) {
+        const y = 2 + Math.floor(((h - 4) * s) / samples);
+        const x1 = 2,
+            x2 = Math.min(5, w - 1);
+        acc += Math.abs(lum(idx(x1, y)) - lum(idx(x2, y))) / 255;
+        n++;
+        const xr1 = w - 3,
+            xr2 = clamp(w - 6, 0, w - 1);
+        acc += Math.abs(lum(idx(xr1, y)) - lum(idx(xr2, y))) / 255;
+        n++;
+    }
+    return acc / n; // 0..1
+}
+
+// === OpenCV.js card detector ===
+/** Working width of the OpenCV detector; its pixel core expects the ROI resampled to it */
+export const OPENCV_WIDTH = 540;
+
+export async function estimateCardOpenCV(
+    source: FrameSource,
+    rv: Rect,
+    options: OpenCvCardOptions = {},
+): Promise<CardEstimate> {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const cv: any = (globalThis as any).cv;
+    if (!cv) return { ok: false, confidence: 0, quad: null, areaRatio: null };
+    const outW = OPENCV_WIDTH;
+    const outH = Math.max(1, Math.round((outW * rv.h) / rv.w));
+    const ctx2d = scratchContext(outW, outH);
+    if (!ctx2d) return { ok: false, confidence: 0, quad: null, areaRatio: null };
+    // Crop ROI from the native (non-mirrored) video
+    ctx2d.drawImage(source, rv.x, rv.y, rv.w, rv.h, 0, 0, outW, outH);
+    return openCvCardFromPixels(ctx2d.getImageData(0, 0, outW, outH), rv, options, cv);
+}
+
+/**
+ * OpenCV decision on the ROI pixels (OPENCV_WIDTH wide live), quad mapped to `rv`. No DOM:
+ * runs in Node with OpenCV.js loaded as a module (pass it as `cv`).
+ */
+export function openCvCardFromPixels(
+    image: RgbaImage,
+    rv: Rect,
+    {
+        minAspect = 1.35,
+        maxAspect = 1.9,
+        minRectangularity = 0.6,
+        minAreaRatio = 0.12,
+        maxAreaRatio = 0.98,
+    }: OpenCvCardOptions = {},
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    cv: any = (globalThis as any).cv,
+): CardEstimate {
+    if (!cv) return { ok: false, confidence: 0, quad: null, areaRatio: null };
+    const { width: outW, height: outH } = image;
+
+    // matFromImageData rather than imread: imread needs DOM elements (not available in a worker)
+    const src = cv.matFromImageData(image);
+    const gray = new cv.Mat();
+    const blur = new cv.Mat();
+    const edges = new cv.Mat();
+    const kernel = cv.getStructuringElement(cv.MORPH_RECT, new cv.Size(3, 3));
+
+    // Preprocess
+    cv.cvtColor(src, gray, cv.COLOR_RGBA2GRAY);
+    cv.equalizeHist(gray, gray);
+    cv.GaussianBlur(gray, blur, new cv.Size(5, 5), 0);
+
+    // Auto-Canny thresholds using mean as a robust proxy
+    const data = blur.data as Uint8Array;
+    let sum = 0;
+    data.forEach((v) => (sum += v));
+    const mean = sum / data.length;
+    const lower = Math.max(10, mean * 0.66);
+    const upper = Math.min(255, mean * 1.33);
+    cv.Canny(blur, edges, lower, upper);
+    cv.dilate(edges, edges, kernel);
+
+    // Contours
+    const contours = new cv.MatVector();
+    const hierarchy = new cv.Mat();
+    cv.findContours(edges, contours, hierarchy, cv.RETR_EXTERNAL, cv.CHAIN_APPROX_SIMPLE);
+
+    const areaROI = outW * outH;
+    let quad: Point[] | null = null;
+    let areaRatio: number | null = null;
+    let confidence = 0;
+    // Accepted candidate, else the largest one (what the thresholds rejected)
+    let detail: Record<string, number> | undefined;
+    let largest = 0;
+
+    for (let i = 0; i < contours.size(); i++) {
+        const cnt = contours.get(i);
+        const area = cv.contourArea(cnt);
+        if (area < areaROI * 0.05) {
+            cnt.delete();
+            continue;
+        }
+
+        // Rotated rectangle fit
+        const rr = cv.minAreaRect(cnt);
+        const rectArea = rr.size.width * rr.size.height;
+        if (rectArea <= 0) {
+            cnt.delete();
+            continue;
+        }
+
+        areaRatio = Math.max(areaRatio ?? 0, rectArea / areaROI);
+
+        const major = Math.max(rr.size.width, rr.size.height);
+        const minor = Math.max(1, Math.min(rr.size.width, rr.size.height));
+        const ar = major / minor; // rotation-invariant aspect ratio
+
+        const rectangularity = area / rectArea; // 0..1 (1 is perfect fill)
+        if (rectArea > largest) {
+            largest = rectArea;
+            detail = { areaRatio: rectArea / areaROI, aspect: ar, rectangularity };
+        }
+
+        if (
+            rectArea > areaROI * minAreaRatio &&
+            rectArea < areaROI * maxAreaRatio &&
+            ar > minAspect &&
+            ar < maxAspect &&
+            rectangularity > minRectangularity
+        ) {
+            confidence = Math.min(1, rectangularity);
+            detail = { areaRatio: rectArea / areaROI, aspect: ar, rectangularity };
+            // Prefer the true corners (perspective) over the rotated-rect fit
+            const approx = new cv.Mat();
+            cv.approxPolyDP(cnt, approx, 0.02 * cv.arcLength(cnt, true), true);
+            const corners: { x: number; y: number }[] =
+                approx.rows === 4
+                    ? Array.from({ length: 4 }, (_, k) => ({ x: approx.data32S[k * 2], y: approx.data32S[k * 2 + 1] }))
+                    : cv.RotatedRect.points(rr);
+            approx.delete();
+
+            // ROI pixels -> video pixels
+            const sx = rv.w / outW,
+                sy = rv.h / outH;
+            quad = orderQuad(corners.map((pt) => ({ x: rv.x + pt.x * sx, y: rv.y + pt.y * sy })));
+            cnt.delete();
+            break;
+        }
+
+        cnt.delete();
+    }
+
+    // Cleanup
+    src.delete();
+    gray.delete();
+    blur.delete();
+    edges.delete();
+    contours.delete();
+    hierarchy.delete();
+    kernel.delete();
+    return { ok: quad !== null, confidence, quad, areaRatio, detail };
+}
+
+// Order 4 points clockwise starting from top-left (smallest x+y)
+function orderQuad(pts: Point[]): Point[] {
+    const cx = pts.reduce((a, p) => a + p.x, 0) / pts.length;
+    const cy = pts.reduce((a, p) => a + p.y, 0) / pts.length;
+    const sorted = [...pts].sort((a, b) => Math.atan2(a.y - cy, a.x - cx) - Math.atan2(b.y - cy, b.x - cx));
+    let first = 0;
+    sorted.forEach((p, i) => {
+        if (p.x + p.y < sorted[first].x + sorted[first].y) first = i;
+    });
+    return [...sorted.slice(first), ...sorted.slice(0, first)];
+}
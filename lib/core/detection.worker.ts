@@ -0,0 +1,85 @@
+import { estimateCardHeuristic, estimateCardOpenCV, type CardEstimate } from './cardDetection';
+import type { DetectionWorkerRequest, DetectionWorkerResponse, WorkerModelLoad } from './detectionWorker';
+import type { CardDetectorSpec } from './detectors';
+import type { FrameSource, Rect } from './geometry';
+import { evaluateQuality, qualityCheckFromSpec, readRoi } from './quality';
+
+// === Detection worker: card detectors and quality metrics off the main thread ===
+// Receives a video ROI as a transferred ImageBitmap, answers with the same frame id.
+
+declare function importScripts(...urls: string[]): void;
+
+// importScripts needs a classic worker (Vite's default `iife` worker build); module workers
+// in dev can't load OpenCV this way and use the heuristic detector
+let __opencvPromise: Promise<boolean> | null = null;
+// Load outcomes not reported yet: sent with the next answer (the main thread tracks them)
+let __modelLoads: WorkerModelLoad[] = [];
+function loadOpenCV(opencvUrl: string): Promise<boolean> {
+    if (__opencvPromise) return __opencvPromise;
+    const t0 = performance.now();
+    const settle = (resolve: (ok: boolean) => void, message?: string) => {
+        __modelLoads.push({ model: 'opencv', ok: !message, durationMs: performance.now() - t0, message });
+        resolve(!message);
+    };
+    __opencvPromise = new Promise<boolean>((resolve) => {
+        try {
+            importScripts(opencvUrl);
+        } catch (e) {
+            settle(resolve, e instanceof Error ? e.message : String(e));
+            return;
+        }
+        // eslint-disable-next-line @typescript-eslint/no-explicit-any
+        const cv: any = (globalThis as any).cv;
+        if (!cv) settle(resolve, 'cv not present after load');
+        else if (cv.getBuildInformation) settle(resolve);
+        else cv.onRuntimeInitialized = () => settle(resolve);
+    });
+    return __opencvPromise;
+}
+
+// Same cascade as detectCard() on the main thread, on detector specs
+async function detectCard(specs: CardDetectorSpec[], source: FrameSource, roi: Rect) {
+    for (const spec of specs) {
+        try {
+            let estimate: CardEstimate;
+            if (spec.type === 'opencv') {
+                if (!(await loadOpenCV(spec.opencvUrl))) continue;
+                estimate = await estimateCardOpenCV(source, roi, spec.options);
+            } else {
+                estimate = await estimateCardHeuristic(source, roi, spec.options);
+            }
+            return { ...estimate, detector: spec.type };
+        } catch {
+            /* next detector */
+        }
+    }
+    return null;
+}
+
+function post(message: DetectionWorkerResponse) {
+    self.postMessage(message);
+}
+
+self.onmessage = async ({ data }: MessageEvent<DetectionWorkerRequest>) => {
+    const { id, frame, roi, card, quality } = data;
+    // The bitmap is the ROI scaled down: detect on all of it, then map back to video pixels
+    const full: Rect = { x: 0, y: 0, w: frame.width, h: frame.height };
+    const sx = roi.w / frame.width,
+        sy = roi.h / frame.height;
+    try {
+        const raw = card.length ? await detectCard(card, frame, full) : null;
+        const estimate = raw && {
+            ...raw,
+            quad: raw.quad?.map((p) => ({ x: roi.x + p.x * sx, y: roi.y + p.y * sy })) ?? null,
+        };
+        const image = quality.length ? readRoi(frame, full) : null;
+        const report = image ? evaluateQuality(image, quality.map(qualityCheckFromSpec)) : null;
+        const models = __modelLoads;
+        __modelLoads = [];
+        post({ id, card: estimate, quality: report, models });
+    } catch (e) {
+        post({ id, error: e instanceof Error ? e.message : String(e) });
+    } finally {
+        frame.close();
+    }
+};
@@ -0,0 +1,117 @@
+import type { CardDetectorKind, CardEstimate } from './cardDetection';
+import DetectionWorker from './detection.worker?worker&inline';
+import type { CardDetectorSpec } from './detectors';
+import type { FrameSource, Rect } from './geometry';
+import type { QualityCheckSpec, QualityReport } from './quality';
+
+// === Main-thread side of the detection worker ===
+// One frame in flight at a time: while the worker is busy, new frames are dropped
+// instead of queued, so a slow frame never builds a backlog.
+
+export interface DetectionWorkerRequest {
+    /** Echoed back so late answers can be matched (or dropped) */
+    id: number;
+    /** Video ROI, scaled down; transferred, closed by the worker */
+    frame: ImageBitmap;
+    /** Where the frame comes from, in video pixels */
+    roi: Rect;
+    /** Card detector cascade to run on the frame (OpenCV URLs made absolute); empty for none */
+    card: CardDetectorSpec[];
+    quality: QualityCheckSpec[];
+}
+
+export interface DetectionWorkerResult {
+    id: number;
+    /** Card estimate in video pixels (null when `card` was empty or every detector failed) */
+    card: (CardEstimate & { detector: CardDetectorKind }) | null;
+    /** Results of the requested quality specs, in order */
+    quality: QualityReport | null;
+    /** Model loads that settled since the last answer (the worker loads OpenCV itself) */
+    models: WorkerModelLoad[];
+}
+
+export interface WorkerModelLoad {
+    /** Card detector name (`opencv`) */
+    model: string;
+    ok: boolean;
+    durationMs: number;
+    /** Why the load failed */
+    message?: string;
+}
+
+export type DetectionWorkerResponse = DetectionWorkerResult | { id: number; error: string };
+
+export interface DetectionFrameOptions {
+    card: CardDetectorSpec[];
+    quality: QualityCheckSpec[];
+    /** Width the ROI is scaled to before transfer */
+    width: number;
+}
+
+export interface DetectionWorkerClient {
+    /** Resolves null when a frame is already in flight (backpressure) */
+    detect(source: FrameSource, roi: Rect, options: DetectionFrameOptions): Promise<DetectionWorkerResult | null>;
+    dispose(): void;
+}
+
+export function isDetectionWorkerSupported() {
+    return typeof Worker !== 'undefined' && typeof OffscreenCanvas !== 'undefined' && 'createImageBitmap' in window;
+}
+
+export function createDetectionWorker(): DetectionWorkerClient {
+    const worker = new DetectionWorker();
+    let frameId = 0;
+    let busy = false;
+    let pending: {
+        id: number;
+        resolve: (result: DetectionWorkerResult) => void;
+        reject: (error: Error) => void;
+    } | null = null;
+
+    function settle(response: DetectionWorkerResponse | Error) {
+        const current = pending;
+        pending = null;
+        busy = false;
+        if (!current) return;
+        if (response instanceof Error) current.reject(response);
+        else if ('error' in response) current.reject(new Error(response.error));
+        else current.resolve(response);
+    }
+
+    worker.onmessage = ({ data }: MessageEvent<DetectionWorkerResponse>) => {
+        if (pending && data.id === pending.id) settle(data);
+    };
+    // Script/CSP failures: reject so the caller can fall back to the main thread
+    worker.onerror = (e) => {
+        e.preventDefault();
+        settle(new Error(e.message || 'Detection worker failed'));
+    };
+
+    return {
+        async detect(source, roi, { card, quality, width }) {
+            if (busy || roi.w <= 0 || roi.h <= 0) return null;
+            busy = true;
+            const id = ++frameId;
+            let frame: ImageBitmap;
+            try {
+                frame = await createImageBitmap(source, roi.x, roi.y, roi.w, roi.h, {
+                    resizeWidth: width,
+                    resizeHeight: Math.max(1, Math.round((width * roi.h) / roi.w)),
+                    resizeQuality: 'medium',
+                });
+            } catch (e) {
+                busy = false;
+                throw e;
+            }
+            return new Promise<DetectionWorkerResult>((resolve, reject) => {
+                pending = { id, resolve, reject };
+                const request: DetectionWorkerRequest = { id, frame, roi, card, quality };
+                worker.postMessage(request, [frame]);
+            });
+        },
+        dispose() {
+            settle(new Error('Detection worker disposed'));
+            worker.terminate();
+        },
+    };
+}
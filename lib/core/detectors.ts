@@ -0,0 +1,197 @@
+import * as faceapi from 'face-api.js';
+import {
+    estimateCardHeuristic,
+    estimateCardOpenCV,
+    type CardEstimate,
+    type HeuristicCardOptions,
+    type OpenCvCardOptions,
+} from './cardDetection';
+import type { Box, FrameSource, Point, Rect } from './geometry';
+import { ensureOpenCV } from './opencv';
+
+// === Pluggable detectors ===
+// The session runs card detectors as a cascade (first one that initializes and answers wins)
+// and one face detector. Create detectors once (not on every render): init() is memoized per instance.
+
+export interface DetectorFrame {
+    /** Native (non-mirrored) frame */
+    source: FrameSource;
+    /** Region to look at, in source pixels (the card guide, or the whole frame for faces) */
+    roi: Rect;
+}
+
+export interface Detector<Result> {
+    /** Reported as CardDetection.detector and in debug output */
+    name: string;
+    /** Load models/scripts; a rejection skips the detector (card) or fails the face step */
+    init?(): Promise<void>;
+    detect(frame: DetectorFrame): Promise<Result>;
+    /** Called when the session is destroyed */
+    dispose?(): void;
+}
+
+export type CardDetector = Detector<CardEstimate> & {
+    /** Plain-data description for the detection worker; detectors without one run on the main thread */
+    spec?: CardDetectorSpec;
+};
+
+export interface FaceEstimate {
+    /** 0..1 detector score of the returned face, 0 when none */
+    confidence: number;
+    /** Best face in source pixels */
+    box: Box | null;
+    /** 68 landmarks (face-api order) in source pixels, needed by liveness */
+    landmarks?: Point[];
+    /** Expression probabilities (`happy`, ...), needed by the smile challenge */
+    expressions?: Record<string, number>;
+}
+
+export type FaceDetector = Detector<FaceEstimate>;
+
+export interface Detectors {
+    /** Tried in order; default: [openCvCardDetector(), heuristicCardDetector()] */
+    card?: CardDetector[];
+    /** Default: tinyFaceDetector() (with landmarks when liveness is on) */
+    face?: FaceDetector;
+}
+
+export type CardDetectorSpec =
+    | { type: 'opencv'; opencvUrl: string; options: OpenCvCardOptions }
+    | { type: 'heuristic'; options: HeuristicCardOptions };
+
+export function openCvCardDetector({
+    opencvUrl = '/opencv/opencv.js',
+    ...options
+}: OpenCvCardOptions & { opencvUrl?: string } = {}): CardDetector {
+    return {
+        name: 'opencv',
+        spec: { type: 'opencv', opencvUrl, options },
+        init: () => ensureOpenCV(opencvUrl),
+        detect: ({ source, roi }) => estimateCardOpenCV(source, roi, options),
+    };
+}
+
+export function heuristicCardDetector(options: HeuristicCardOptions = {}): CardDetector {
+    return {
+        name: 'heuristic',
+        spec: { type: 'heuristic', options },
+        detect: ({ source, roi }) => estimateCardHeuristic(source, roi, options),
+    };
+}
+
+interface FaceApiDetectorOptions {
+    /**
+     * URL path to face-api.js models (relative to site root)
+     * @default '/models'
+     */
+    modelsUrl?: string;
+    /** Also return landmarks and expressions (loads the 68-landmark and expression nets) */
+    landmarks?: boolean;
+}
+
+function faceApiDetector(
+    name: string,
+    net: faceapi.NeuralNetwork<unknown>,
+    options: faceapi.TinyFaceDetectorOptions | faceapi.SsdMobilenetv1Options,
+    { modelsUrl = '/models', landmarks = false }: FaceApiDetectorOptions,
+): FaceDetector {
+    return {
+        name,
+        async init() {
+            await Promise.all([
+                net.isLoaded ? null : net.loadFromUri(modelsUrl),
+                landmarks && !faceapi.nets.faceLandmark68Net.isLoaded
+                    ? faceapi.nets.faceLandmark68Net.loadFromUri(modelsUrl)
+                    : null,
+                landmarks && !faceapi.nets.faceExpressionNet.isLoaded
+                    ? faceapi.nets.faceExpressionNet.loadFromUri(modelsUrl)
+                    : null,
+            ]);
+        },
+        async detect({ source }) {
+            // face-api takes media elements and canvases only
+            const input = source as HTMLVideoElement | HTMLImageElement | HTMLCanvasElement;
+            const task = faceapi.detectSingleFace(input, options);
+            let det: faceapi.FaceDetection | undefined;
+            let extra: Pick<FaceEstimate, 'landmarks' | 'expressions'> = {};
+            if (landmarks) {
+                const full = await task.withFaceLandmarks().withFaceExpressions();
+                det = full?.detection;
+                if (full) {
+                    extra = {
+                        landmarks: full.landmarks.positions,
+                        expressions: Object.fromEntries(
+                            full.expressions.asSortedArray().map((e) => [e.expression, e.probability]),
+                        ),
+                    };
+                }
+            } else {
+                det = await task;
+            }
+            if (!det) return { confidence: 0, box: null };
+            const { x, y, width, height } = det.box;
+            return { confidence: det.score, box: { x, y, width, height }, ...extra };
+        },
+    };
+}
+
+/** face-api TinyFaceDetector: fast, the default */
+export function tinyFaceDetector({
+    inputSize = 224,
+    scoreThreshold = 0.5,
+    ...options
+}: FaceApiDetectorOptions & { inputSize?: number; scoreThreshold?: number } = {}): FaceDetector {
+    return faceApiDetector(
+        'tiny-face-detector',
+        faceapi.nets.tinyFaceDetector,
+        new faceapi.TinyFaceDetectorOptions({ inputSize, scoreThreshold }),
+        options,
+    );
+}
+
+/** face-api SSD MobileNet v1: slower, more accurate on small or angled faces */
+export function ssdMobilenetFaceDetector({
+    minConfidence = 0.5,
+    ...options
+}: FaceApiDetectorOptions & { minConfidence?: number } = {}): FaceDetector {
+    return faceApiDetector(
+        'ssd-mobilenet-v1',
+        faceapi.nets.ssdMobilenetv1,
+        new faceapi.SsdMobilenetv1Options({ minConfidence }),
+        options,
+    );
+}
+
+// init() once per detector instance; a failure sticks (no reload on every tick)
+const __INIT__ = new WeakMap<Detector<unknown>, Promise<void>>();
+const __READY__ = new WeakSet<Detector<unknown>>();
+export function initDetector(detector: Detector<unknown>) {
+    let ready = __INIT__.get(detector);
+    if (!ready) {
+        ready = (detector.init ? detector.init() : Promise.resolve()).then(() => {
+            __READY__.add(detector);
+        });
+        __INIT__.set(detector, ready);
+    }
+    return ready;
+}
+
+export function isDetectorReady(detector: Detector<unknown>) {
+    return __READY__.has(detector);
+}
+
+/** Run the card cascade: first detector that initializes and answers wins */
+export async function detectCard(
+    detectors: CardDetector[],
+    frame: DetectorFrame,
+): Promise<(CardEstimate & { detector: string }) | null> {
+    for (const detector of detectors) {
+        try {
+            await initDetector(detector);
+            return { ...(await detector.detect(frame)), detector: detector.name };
+        } catch {
+            /* next detector */
+        }
+    }
+    return null;
+}
@@ -0,0 +1,61 @@
+import type { MrzFormat } from '../mrz/parse';
+import { ID1_ASPECT } from './cardCrop';
+
+// === Document profiles (ISO/IEC 7810 sizes) ===
+// One profile drives the card guide (aspect, corners), the OpenCV contour acceptance band,
+// the flat crop aspect, the MRZ format to expect and how many sides the flow captures.
+
+export type DocumentFormat = 'ID-1' | 'ID-2' | 'ID-3';
+
+export interface DocumentProfile {
+    /** Built-in format or a custom name (e.g. 'driving-licence') */
+    id: DocumentFormat | (string & {});
+    /** Landscape width / height of the document */
+    aspect: number;
+    /** Guide corner radius, as a fraction of the guide's short side */
+    cornerRadius: number;
+    /** Long/short side ratios accepted by the OpenCV detector */
+    minAspect: number;
+    maxAspect: number;
+    /** MRZ printed on the document, null when there is none */
+    mrz: MrzFormat | null;
+    /** Sides to capture (2: front and back) */
+    sides: 1 | 2;
+}
+
+export const DOCUMENT_PROFILES: Record<DocumentFormat, DocumentProfile> = {
+    // 85.6 x 54 mm: identity cards, residence permits, driving licences
+    'ID-1': {
+        id: 'ID-1',
+        aspect: ID1_ASPECT,
+        cornerRadius: 0.06,
+        minAspect: 1.35,
+        maxAspect: 1.9,
+        mrz: 'TD1',
+        sides: 2,
+    },
+    // 105 x 74 mm: older identity cards and some visas
+    'ID-2': {
+        id: 'ID-2',
+        aspect: 105 / 74,
+        cornerRadius: 0.045,
+        minAspect: 1.2,
+        maxAspect: 1.65,
+        mrz: 'TD2',
+        sides: 2,
+    },
+    // 125 x 88 mm: passport data page
+    'ID-3': {
+        id: 'ID-3',
+        aspect: 125 / 88,
+        cornerRadius: 0.035,
+        minAspect: 1.2,
+        maxAspect: 1.65,
+        mrz: 'TD3',
+        sides: 1,
+    },
+};
+
+export function resolveDocumentProfile(profile: DocumentFormat | DocumentProfile): DocumentProfile {
+    return typeof profile === 'string' ? DOCUMENT_PROFILES[profile] : profile;
+}
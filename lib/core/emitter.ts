@@ -0,0 +1,33 @@
+export type Listener<T> = (payload: T) => void;
+
+export interface Emitter<E> {
+    on<K extends keyof E>(type: K, listener: Listener<E[K]>): () => void;
+    emit<K extends keyof E>(type: K, payload: E[K]): void;
+    clear(): void;
+}
+
+// Minimal typed event emitter; `on` returns an unsubscribe function
+export function createEmitter<E>(): Emitter<E> {
+    const listeners = new Map<keyof E, Set<Listener<never>>>();
+    return {
+        on(type, listener) {
+            let set = listeners.get(type);
+            if (!set) {
+                set = new Set();
+                listeners.set(type, set);
+            }
+            set.add(listener as Listener<never>);
+            return () => {
+                set.delete(listener as Listener<never>);
+            };
+        },
+        emit(type, payload) {
+            const set = listeners.get(type);
+            if (!set) return;
+            [...set].forEach((l) => (l as Listener<typeof payload>)(payload));
+        },
+        clear() {
+            listeners.clear();
+        },
+    };
+}
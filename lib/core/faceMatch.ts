@@ -0,0 +1,100 @@
+import * as faceapi from 'face-api.js';
+import type { Box } from './geometry';
+import type { CaptureResult, ImageInput } from './types';
+
+// === Client-side face match (ID portrait vs selfie) ===
+// face-api faceRecognitionNet descriptors compared by Euclidean distance.
+// Meant for instant "please retake" feedback and as an offline fallback for the
+// CompreFace verification in the n8n workflow; not a replacement for it.
+
+export interface FaceMatchOptions {
+    /**
+     * URL path to face-api.js models (relative to site root)
+     * @default '/models'
+     */
+    modelsUrl?: string;
+    /**
+     * Maximum descriptor distance accepted as the same person
+     * (0.6 is face-api's usual operating point; lower is stricter)
+     * @default 0.6
+     */
+    threshold?: number;
+}
+
+export type FaceMatchVerdict = 'match' | 'no-match' | 'no-document-face' | 'no-selfie-face';
+
+export interface FaceMatchResult {
+    verdict: FaceMatchVerdict;
+    /** Euclidean distance between descriptors, null if a face is missing */
+    distance: number | null;
+    threshold: number;
+    /** Portrait found on the document, in document image pixels */
+    documentFace: Box | null;
+    /** Face found on the selfie, in selfie image pixels */
+    selfieFace: Box | null;
+}
+
+// --- face-api recognition models loader (module-level) ---
+let __faceMatchModelsPromise: Promise<void> | null = null;
+export function ensureFaceMatchModels(modelsUrl = '/models'): Promise<void> {
+    if (__faceMatchModelsPromise) return __faceMatchModelsPromise;
+    __faceMatchModelsPromise = Promise.all([
+        faceapi.nets.tinyFaceDetector.isLoaded ? null : faceapi.nets.tinyFaceDetector.loadFromUri(modelsUrl),
+        faceapi.nets.faceLandmark68Net.isLoaded ? null : faceapi.nets.faceLandmark68Net.loadFromUri(modelsUrl),
+        faceapi.nets.faceRecognitionNet.isLoaded ? null : faceapi.nets.faceRecognitionNet.loadFromUri(modelsUrl),
+    ]).then(
+        () => undefined,
+        (e) => {
+            // Allow a retry on the next call
+            __faceMatchModelsPromise = null;
+            throw e;
+        },
+    );
+    return __faceMatchModelsPromise;
+}
+
+async function toImage(input: ImageInput): Promise<HTMLImageElement | HTMLCanvasElement> {
+    if (input instanceof HTMLImageElement || input instanceof HTMLCanvasElement) return input;
+    if (typeof input === 'string') return faceapi.fetchImage(input);
+    return faceapi.bufferToImage(input);
+}
+
+// Largest face wins: on a card that's the portrait (not the ghost image),
+// on a selfie-with-card that's the holder (not the card portrait).
+async function largestFaceDescriptor(image: HTMLImageElement | HTMLCanvasElement, inputSize: number) {
+    const faces = await faceapi
+        .detectAllFaces(image, new faceapi.TinyFaceDetectorOptions({ inputSize, scoreThreshold: 0.3 }))
+        .withFaceLandmarks()
+        .withFaceDescriptors();
+    if (!faces.length) return null;
+    const area = (f: (typeof faces)[number]) => f.detection.box.width * f.detection.box.height;
+    const best = faces.reduce((a, b) => (area(b) > area(a) ? b : a));
+    const { x, y, width, height } = best.detection.box;
+    return { descriptor: best.descriptor, box: { x, y, width, height } };
+}
+
+/** Compare the portrait on an ID document image with a selfie */
+export async function matchFaces(
+    documentImage: ImageInput,
+    selfieImage: ImageInput,
+    { modelsUrl = '/models', threshold = 0.6 }: FaceMatchOptions = {},
+): Promise<FaceMatchResult> {
+    await ensureFaceMatchModels(modelsUrl);
+    const [docImg, selfieImg] = await Promise.all([toImage(documentImage), toImage(selfieImage)]);
+
+    // Card portraits are small: run the detector at a larger input size
+    const doc = await largestFaceDescriptor(docImg, 512);
+    const selfie = await largestFaceDescriptor(selfieImg, 416);
+
+    const base = { threshold, documentFace: doc?.box ?? null, selfieFace: selfie?.box ?? null };
+    if (!doc) return { ...base, verdict: 'no-document-face', distance: null };
+    if (!selfie) return { ...base, verdict: 'no-selfie-face', distance: null };
+
+    const distance = faceapi.euclideanDistance(doc.descriptor, selfie.descriptor);
+    return { ...base, verdict: distance <= threshold ? 'match' : 'no-match', distance };
+}
+
+/** matchFaces on two captures, using the flat card crop when the card capture has one */
+export function matchCaptures(card: CaptureResult, selfie: CaptureResult, options?: FaceMatchOptions) {
+    return matchFaces(card.cardImage?.blob ?? card.blob, selfie.blob, options);
+}
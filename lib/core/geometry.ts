@@ -0,0 +1,138 @@
+export interface Box {
+    x: number;
+    y: number;
+    width: number;
+    height: number;
+}
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+export interface Rect {
+    x: number;
+    y: number;
+    w: number;
+    h: number;
+}
+
+export interface Mapping {
+    cW: number;
+    cH: number;
+    vw: number;
+    vh: number;
+    scale: number;
+    dx: number;
+    dy: number;
+    mirrored: boolean;
+}
+
+/** Anything a frame can be read from: live video or a still image */
+export type FrameSource = HTMLVideoElement | HTMLImageElement | HTMLCanvasElement | ImageBitmap;
+
+export function sourceSize(s: FrameSource) {
+    if (s instanceof HTMLVideoElement) return { width: s.videoWidth, height: s.videoHeight };
+    if (s instanceof HTMLImageElement) return { width: s.naturalWidth, height: s.naturalHeight };
+    return { width: s.width, height: s.height };
+}
+
+// === PATH HELPERS ===
+export function faceSilhouettePath2D(cx: number, cy: number, w: number, h: number) {
+    const p = new Path2D();
+    const rx = w / 2,
+        ry = h / 1.8;
+    const topY = cy - ry;
+    const chinY = cy + ry * 0.86;
+    const browY = cy - ry * 0.35;
+    const cheekY = cy + ry * 0;
+    const jawY = cy + ry * 0.55;
+    const craniumX = rx * 1.05,
+        templeX = rx * 0.95,
+        cheekX = rx * 0.9,
+        jawX = rx * 0.69;
+
+    p.moveTo(cx, topY);
+    p.bezierCurveTo(cx + craniumX, topY, cx + templeX, browY, cx + templeX, browY);
+    p.bezierCurveTo(cx + templeX, browY + ry * 0.1, cx + cheekX, cheekY, cx + cheekX, cheekY);
+    p.bezierCurveTo(cx + cheekX * 0.95, cheekY + ry * 0.2, cx + jawX, jawY, cx + jawX, jawY);
+    p.bezierCurveTo(cx + jawX * 0.85, jawY + ry * 0.2, cx + (w * 0.2) / 2, chinY, cx, chinY);
+    p.bezierCurveTo(cx - (w * 0.2) / 2, chinY, cx - jawX * 0.85, jawY + ry * 0.2, cx - jawX, jawY);
+    p.bezierCurveTo(cx - jawX, jawY, cx - cheekX * 0.95, cheekY + ry * 0.2, cx - cheekX, cheekY);
+    p.bezierCurveTo(cx - cheekX, cheekY, cx - templeX, browY + ry * 0.1, cx - templeX, browY);
+    p.bezierCurveTo(cx - templeX, browY, cx - craniumX, topY, cx, topY);
+    p.closePath();
+    return p;
+}
+
+export function roundedRectPath2D(x: number, y: number, w: number, h: number, r: number) {
+    const p = new Path2D();
+    p.moveTo(x + r, y);
+    p.lineTo(x + w - r, y);
+    p.quadraticCurveTo(x + w, y, x + w, y + r);
+    p.lineTo(x + w, y + h - r);
+    p.quadraticCurveTo(x + w, y + h, x + w - r, y + h);
+    p.lineTo(x + r, y + h);
+    p.quadraticCurveTo(x, y + h, x, y + h - r);
+    p.lineTo(x, y + r);
+    p.quadraticCurveTo(x, y, x + r, y);
+    p.closePath();
+    return p;
+}
+
+/** Card guide: 90% of the width at the document's aspect, capped to 70% of the height (landscape screens) */
+export function cardOverlayRectCanvas(cW: number, cH: number, aspect = 85.6 / 54): Rect {
+    const w = Math.min(cW * 0.9, cH * 0.7 * aspect);
+    const h = w / aspect;
+    const x = (cW - w) / 2;
+    const y = cH * 0.55 - h / 2;
+    return { x, y, w, h };
+}
+
+export function canvasRectToVideoRect(
+    rc: Rect,
+    m: { vw: number; vh: number; scale: number; dx: number; dy: number; mirrored: boolean },
+): Rect {
+    const wv = rc.w / m.scale;
+    const hv = rc.h / m.scale;
+    const xv = m.mirrored
+        ? m.vw - (rc.x - m.dx) / m.scale - wv // mirrored case
+        : (rc.x - m.dx) / m.scale; // non-mirrored
+    const yv = (rc.y - m.dy) / m.scale;
+    return { x: Math.max(0, xv), y: Math.max(0, yv), w: Math.min(wv, m.vw), h: Math.min(hv, m.vh) };
+}
+
+// Inverse of canvasRectToVideoRect for a single point
+export function videoPointToCanvas(p: Point, m: Mapping): Point {
+    return { x: m.dx + (m.mirrored ? m.vw - p.x : p.x) * m.scale, y: m.dy + p.y * m.scale };
+}
+
+/** Box grown by `margin` (fraction of its size) on every side, clipped to a w x h frame */
+export function expandBox(b: Box, margin: number, w: number, h: number): Rect {
+    const x = Math.max(0, b.x - b.width * margin),
+        y = Math.max(0, b.y - b.height * margin);
+    return {
+        x,
+        y,
+        w: Math.min(w - x, b.width * (1 + margin * 2)),
+        h: Math.min(h - y, b.height * (1 + margin * 2)),
+    };
+}
+
+/** Axis-aligned bounds of a polygon */
+export function pointsBounds(points: Point[]): Rect {
+    const xs = points.map((p) => p.x),
+        ys = points.map((p) => p.y);
+    const x = Math.min(...xs),
+        y = Math.min(...ys);
+    return { x, y, w: Math.max(...xs) - x, h: Math.max(...ys) - y };
+}
+
+export function rectCorners(r: Rect): Point[] {
+    return [
+        { x: r.x, y: r.y },
+        { x: r.x + r.w, y: r.y },
+        { x: r.x + r.w, y: r.y + r.h },
+        { x: r.x, y: r.y + r.h },
+    ];
+}
@@ -0,0 +1,107 @@
+import type { LivenessChallengeType, LivenessResult } from './liveness';
+import type { QualityReport } from './quality';
+import type { OverlayMode } from './types';
+
+// === Live guidance: detector state -> one hint for the user ===
+// Pure so it can be reused by any UI layer; the session recomputes it every tick.
+
+export type GuidanceKey =
+    | 'no-face'
+    | 'face-move-closer'
+    | 'face-move-back'
+    | 'face-not-centered'
+    | 'no-card'
+    | 'card-move-closer'
+    | 'card-not-in-frame'
+    | 'card-align'
+    | 'too-dark'
+    | 'too-bright'
+    | 'glare'
+    | 'hold-still'
+    | `liveness-${LivenessChallengeType}`
+    | 'countdown';
+
+export interface GuidanceHint {
+    key: GuidanceKey;
+    /** Seconds left before the auto-capture (only for `countdown`) */
+    seconds?: number;
+}
+
+export interface GuidanceInput {
+    mode: OverlayMode;
+    face: {
+        detected: boolean;
+        /** Face box center is inside the silhouette */
+        inside: boolean;
+        /** Face box width over the guide width (canvas pixels) */
+        sizeRatio: number;
+    } | null;
+    card: {
+        ok: boolean;
+        /** Largest card-like contour area over the guide area (null: detector doesn't know) */
+        areaRatio: number | null;
+    } | null;
+    quality: QualityReport | null;
+    /** Liveness progress (face mode with liveness enabled) */
+    liveness?: LivenessResult | null;
+    /** Time left before the pending auto-capture fires, or null */
+    countdownMs: number | null;
+}
+
+export interface GuidanceThresholds {
+    /** Face narrower than this share of the guide -> move closer */
+    minFaceRatio: number;
+    /** Face wider than this share of the guide -> move back */
+    maxFaceRatio: number;
+    /** Card contour smaller than this share of the guide -> move closer */
+    minCardRatio: number;
+    /** Card contour larger than this share of the guide -> not fully in frame */
+    maxCardRatio: number;
+}
+
+export const DEFAULT_GUIDANCE_THRESHOLDS: GuidanceThresholds = {
+    minFaceRatio: 0.35,
+    maxFaceRatio: 0.95,
+    minCardRatio: 0.35,
+    maxCardRatio: 0.95,
+};
+
+export function computeGuidance(
+    input: GuidanceInput,
+    thresholds: GuidanceThresholds = DEFAULT_GUIDANCE_THRESHOLDS,
+): GuidanceHint | null {
+    // 1. Framing
+    if (input.mode === 'face') {
+        const f = input.face;
+        if (!f || !f.detected) return { key: 'no-face' };
+        if (f.sizeRatio < thresholds.minFaceRatio) return { key: 'face-move-closer' };
+        if (f.sizeRatio > thresholds.maxFaceRatio) return { key: 'face-move-back' };
+        if (!f.inside) return { key: 'face-not-centered' };
+    } else {
+        const c = input.card;
+        if (!c || !c.ok) {
+            if (c?.areaRatio == null) return { key: 'no-card' };
+            if (c.areaRatio < thresholds.minCardRatio) return { key: 'card-move-closer' };
+            if (c.areaRatio > thresholds.maxCardRatio) return { key: 'card-not-in-frame' };
+            return { key: 'card-align' };
+        }
+    }
+
+    // 2. Liveness challenge in progress
+    if (input.mode === 'face' && input.liveness?.current) return { key: `liveness-${input.liveness.current}` };
+
+    // 3. Image quality
+    const failed = (name: string) => input.quality?.checks.find((c) => c.name === name && !c.passed);
+    const exposure = failed('exposure');
+    if (exposure) return { key: exposure.score < 0.5 ? 'too-dark' : 'too-bright' };
+    if (failed('glare')) return { key: 'glare' };
+    if (failed('sharpness')) return { key: 'hold-still' };
+
+    // 4. All good: count down to the auto-capture
+    if (input.countdownMs != null) return { key: 'countdown', seconds: Math.max(1, Math.ceil(input.countdownMs / 1000)) };
+    return null;
+}
+
+export function sameHint(a: GuidanceHint | null, b: GuidanceHint | null) {
+    return a === b || (a !== null && b !== null && a.key === b.key && a.seconds === b.seconds);
+}
@@ -0,0 +1,15 @@
+import type { ImageInput } from './types';
+
+/** Decode any ImageInput into a canvas (EXIF orientation applied), for pixel access and detectors */
+export async function loadImageCanvas(input: ImageInput): Promise<HTMLCanvasElement> {
+    if (input instanceof HTMLCanvasElement) return input;
+    let source: CanvasImageSource;
+    if (input instanceof HTMLImageElement) source = input;
+    else source = await createImageBitmap(typeof input === 'string' ? await (await fetch(input)).blob() : input);
+    const canvas = document.createElement('canvas');
+    canvas.width = 'naturalWidth' in source ? source.naturalWidth : Number(source.width);
+    canvas.height = 'naturalHeight' in source ? source.naturalHeight : Number(source.height);
+    canvas.getContext('2d')?.drawImage(source, 0, 0);
+    if (source instanceof ImageBitmap) source.close();
+    return canvas;
+}
@@ -0,0 +1,172 @@
+import { roundedRectPath2D, type Point } from './geometry';
+
+// === Live detection overlay (preview only, never part of a capture) ===
+// Detections arrive a few times per second; the drawn shape eases toward each new one
+// on every animation frame so it glides instead of jumping, and fades out when lost.
+
+export interface SmoothedShape {
+    /** Canvas pixels, same order as the target */
+    points: Point[];
+    /** 0..1, drops to 0 once the detection is lost */
+    opacity: number;
+}
+
+export interface ShapeSmoother {
+    /** Advance one animation frame toward `target` (null when nothing is detected) */
+    update(target: Point[] | null, now: number): SmoothedShape | null;
+    reset(): void;
+}
+
+/**
+ * @param timeConstantMs - Time to cover ~63% of the distance to a new detection
+ * @param fadeMs - Fade-out duration once the detection is lost
+ */
+export function createShapeSmoother(timeConstantMs = 90, fadeMs = 250): ShapeSmoother {
+    let shape: SmoothedShape | null = null;
+    let last = 0;
+    return {
+        update(target, now) {
+            const dt = last ? Math.min(now - last, 250) : 0;
+            last = now;
+            if (target) {
+                // Snap when (re)appearing, otherwise ease frame-rate independently
+                if (!shape || shape.opacity === 0 || shape.points.length !== target.length) {
+                    shape = { points: target, opacity: 1 };
+                } else {
+                    const k = 1 - Math.exp(-dt / timeConstantMs);
+                    shape = {
+                        points: shape.points.map((p, i) => ({
+                            x: p.x + (target[i].x - p.x) * k,
+                            y: p.y + (target[i].y - p.y) * k,
+                        })),
+                        opacity: Math.min(1, shape.opacity + dt / fadeMs),
+                    };
+                }
+            } else if (shape) {
+                const opacity = shape.opacity - dt / fadeMs;
+                shape = opacity > 0 ? { ...shape, opacity } : null;
+            }
+            return shape;
+        },
+        reset() {
+            shape = null;
+            last = 0;
+        },
+    };
+}
+
+/** Card outline with corner brackets snapped to the detected corners */
+export function drawCardQuad(
+    ctx: CanvasRenderingContext2D,
+    { points, opacity }: SmoothedShape,
+    color: string,
+    dpr: number,
+) {
+    if (points.length < 3) return;
+    ctx.save();
+    const outline = new Path2D();
+    points.forEach((p, i) => (i ? outline.lineTo(p.x, p.y) : outline.moveTo(p.x, p.y)));
+    outline.closePath();
+    ctx.fillStyle = color;
+    ctx.globalAlpha = opacity * 0.12;
+    ctx.fill(outline);
+    ctx.globalAlpha = opacity * 0.6;
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 1.5 * dpr;
+    ctx.stroke(outline);
+
+    // Brackets: a short segment along both edges at each corner
+    ctx.globalAlpha = opacity;
+    ctx.lineWidth = 4 * dpr;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    const n = points.length;
+    points.forEach((p, i) => {
+        const prev = points[(i + n - 1) % n];
+        const next = points[(i + 1) % n];
+        const toward = (q: Point) => {
+            const len = Math.hypot(q.x - p.x, q.y - p.y) || 1;
+            const arm = Math.min(24 * dpr, len * 0.2);
+            return { x: p.x + ((q.x - p.x) / len) * arm, y: p.y + ((q.y - p.y) / len) * arm };
+        };
+        const a = toward(prev),
+            b = toward(next);
+        ctx.beginPath();
+        ctx.moveTo(a.x, a.y);
+        ctx.lineTo(p.x, p.y);
+        ctx.lineTo(b.x, b.y);
+        ctx.stroke();
+    });
+    ctx.restore();
+}
+
+/** Rounded box around the detected face (points: the box corners) */
+export function drawFaceBox(
+    ctx: CanvasRenderingContext2D,
+    { points, opacity }: SmoothedShape,
+    color: string,
+    dpr: number,
+) {
+    const xs = points.map((p) => p.x),
+        ys = points.map((p) => p.y);
+    const x = Math.min(...xs),
+        y = Math.min(...ys);
+    const w = Math.max(...xs) - x,
+        h = Math.max(...ys) - y;
+    if (w <= 0 || h <= 0) return;
+    ctx.save();
+    ctx.globalAlpha = opacity * 0.9;
+    ctx.strokeStyle = color;
+    ctx.lineWidth = 2 * dpr;
+    ctx.setLineDash([8 * dpr, 6 * dpr]);
+    ctx.stroke(roundedRectPath2D(x, y, w, h, Math.min(w, h) * 0.12));
+    ctx.restore();
+}
+
+/** Ring filling clockwise from 12 o'clock as `progress` goes 0..1 */
+export function drawProgressRing(
+    ctx: CanvasRenderingContext2D,
+    cx: number,
+    cy: number,
+    radius: number,
+    progress: number,
+    color: string,
+    dpr: number,
+) {
+    ctx.save();
+    ctx.lineWidth = 5 * dpr;
+    ctx.strokeStyle = 'rgba(255,255,255,0.3)';
+    ctx.beginPath();
+    ctx.arc(cx, cy, radius, 0, Math.PI * 2);
+    ctx.stroke();
+    ctx.strokeStyle = color;
+    ctx.lineCap = 'round';
+    ctx.beginPath();
+    ctx.arc(cx, cy, radius, -Math.PI / 2, -Math.PI / 2 + Math.PI * 2 * Math.max(0, Math.min(1, progress)));
+    ctx.stroke();
+    ctx.restore();
+}
+
+/** Monospace text block on a dark backdrop (debug scores) */
+export function drawDebugLines(ctx: CanvasRenderingContext2D, lines: string[], x: number, y: number, dpr: number) {
+    if (!lines.length) return;
+    const size = 12 * dpr,
+        lineH = size * 1.35,
+        pad = 6 * dpr;
+    ctx.save();
+    ctx.font = `${size}px ui-monospace, SFMono-Regular, Menlo, monospace`;
+    ctx.textBaseline = 'top';
+    const width = Math.max(...lines.map((l) => ctx.measureText(l).width));
+    ctx.fillStyle = 'rgba(0,0,0,0.6)';
+    ctx.fillRect(x, y, width + pad * 2, lines.length * lineH + pad * 2);
+    ctx.fillStyle = 'rgba(255,255,255,0.95)';
+    lines.forEach((line, i) => ctx.fillText(line, x + pad, y + pad + i * lineH));
+    ctx.restore();
+}
+
+/** `name 0.123` pairs, integers left as-is */
+export function formatScores(values: Record<string, number | null | undefined>) {
+    return Object.entries(values).flatMap(([name, v]) =>
+        v === null || v === undefined ? [] : [`${name} ${Number.isInteger(v) ? v : v.toFixed(3)}`],
+    );
+}
@@ -0,0 +1,212 @@
+import type { Point } from './geometry';
+
+// === Passive liveness on face-api 68-point landmarks ===
+// Randomized challenges (blink, head turn, smile) plus a frame-to-frame motion
+// consistency check: a printed photo or a screen moves rigidly, a real face doesn't.
+
+export type LivenessChallengeType = 'blink' | 'turn-left' | 'turn-right' | 'smile';
+
+export interface LivenessOptions {
+    /** Challenges to draw from */
+    challenges?: LivenessChallengeType[];
+    /** How many challenges the user must complete, in random order */
+    count?: number;
+    /** Eye aspect ratio below which the eyes count as closed */
+    blinkClosedEar?: number;
+    /** Eye aspect ratio above which the eyes count as open again */
+    blinkOpenEar?: number;
+    /** |yaw| (nose offset over inter-ocular distance) to complete a head turn */
+    turnYaw?: number;
+    /** face-api `happy` expression probability to complete a smile */
+    smileProbability?: number;
+    /** Minimum non-rigid motion score (0..1) to rule out a photo or a screen */
+    minMotionScore?: number;
+    /** Random source, injectable for deterministic tests */
+    random?: () => number;
+}
+
+export interface LivenessChallengeResult {
+    type: LivenessChallengeType;
+    passed: boolean;
+}
+
+export interface LivenessResult {
+    passed: boolean;
+    /** 0..1, weighted from completed challenges and motion consistency */
+    score: number;
+    challenges: LivenessChallengeResult[];
+    /** Non-rigid motion score (0..1) */
+    motionScore: number;
+    /** Challenge the user should perform now, or null when all are done */
+    current: LivenessChallengeType | null;
+}
+
+export interface LivenessFrame {
+    /** 68 landmark positions (face-api order), in video pixels */
+    landmarks: Point[];
+    /** face-api expression probabilities (`happy`, `neutral`, ...) */
+    expressions?: Record<string, number>;
+}
+
+export interface LivenessTracker {
+    update(frame: LivenessFrame): LivenessResult;
+    result(): LivenessResult;
+    /** Draw new challenges and forget all progress */
+    reset(): void;
+}
+
+const DEFAULTS: Required<Omit<LivenessOptions, 'random'>> = {
+    challenges: ['blink', 'turn-left', 'turn-right', 'smile'],
+    count: 2,
+    blinkClosedEar: 0.2,
+    blinkOpenEar: 0.26,
+    turnYaw: 0.25,
+    smileProbability: 0.7,
+    minMotionScore: 0.2,
+};
+
+// Non-rigid residual (normalized units) that maps to a motion score of 1
+const MOTION_REFERENCE = 0.02;
+// Frames of motion history scored together (the score waits for a full window)
+const MOTION_WINDOW = 15;
+
+function median(values: number[]) {
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = sorted.length >> 1;
+    return sorted.length % 2 ? sorted[mid] : (sorted[mid - 1] + sorted[mid]) / 2;
+}
+
+/** Eye aspect ratio (Soukupová & Čech): ~0.3 open, < 0.2 closed */
+export function eyeAspectRatio(eye: Point[]) {
+    const d = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+    const horizontal = d(eye[0], eye[3]);
+    if (!horizontal) return 0;
+    return (d(eye[1], eye[5]) + d(eye[2], eye[4])) / (2 * horizontal);
+}
+
+/**
+ * Head yaw estimate from landmarks: nose tip offset from the eyes' midpoint,
+ * over the inter-ocular distance. Positive when the user turns to THEIR left
+ * (nose moves right in the unmirrored video).
+ */
+export function estimateYaw(landmarks: Point[]) {
+    const leftEye = landmarks[36],
+        rightEye = landmarks[45],
+        nose = landmarks[30];
+    const dist = Math.hypot(rightEye.x - leftEye.x, rightEye.y - leftEye.y);
+    if (!dist) return 0;
+    return (nose.x - (leftEye.x + rightEye.x) / 2) / dist;
+}
+
+// Landmarks with translation and scale removed
+function normalizeShape(landmarks: Point[]) {
+    const cx = landmarks.reduce((a, p) => a + p.x, 0) / landmarks.length;
+    const cy = landmarks.reduce((a, p) => a + p.y, 0) / landmarks.length;
+    const size =
+        Math.sqrt(landmarks.reduce((a, p) => a + (p.x - cx) ** 2 + (p.y - cy) ** 2, 0) / landmarks.length) || 1;
+    return landmarks.map((p) => ({ x: (p.x - cx) / size, y: (p.y - cy) / size }));
+}
+
+// Mean residual between two normalized shapes after removing the best rotation
+function nonRigidResidual(a: Point[], b: Point[]) {
+    let num = 0,
+        den = 0;
+    for (let i = 0; i < a.length; i++) {
+        num += a[i].x * b[i].y - a[i].y * b[i].x;
+        den += a[i].x * b[i].x + a[i].y * b[i].y;
+    }
+    const theta = Math.atan2(num, den);
+    const cos = Math.cos(theta),
+        sin = Math.sin(theta);
+    let acc = 0;
+    for (let i = 0; i < a.length; i++) {
+        const rx = a[i].x * cos - a[i].y * sin;
+        const ry = a[i].x * sin + a[i].y * cos;
+        acc += Math.hypot(rx - b[i].x, ry - b[i].y);
+    }
+    return acc / a.length;
+}
+
+export function pickChallenges(options: LivenessOptions = {}): LivenessChallengeType[] {
+    const pool = [...(options.challenges ?? DEFAULTS.challenges)];
+    const random = options.random ?? Math.random;
+    // Fisher-Yates shuffle
+    for (let i = pool.length - 1; i > 0; i--) {
+        const j = Math.floor(random() * (i + 1));
+        [pool[i], pool[j]] = [pool[j], pool[i]];
+    }
+    const count = Math.max(0, Math.min(pool.length, options.count ?? DEFAULTS.count));
+    return pool.slice(0, count);
+}
+
+export function createLivenessTracker(options: LivenessOptions = {}): LivenessTracker {
+    const cfg = { ...DEFAULTS, ...options };
+
+    let challenges: LivenessChallengeResult[] = [];
+    let eyesClosed = false;
+    let previousShape: Point[] | null = null;
+    let motion: number[] = [];
+    // Best windowed motion so far: holding still for the capture must not undo it
+    let peakMotion = 0;
+
+    function reset() {
+        challenges = pickChallenges(options).map((type) => ({ type, passed: false }));
+        eyesClosed = false;
+        previousShape = null;
+        motion = [];
+        peakMotion = 0;
+    }
+
+    function result(): LivenessResult {
+        const done = challenges.filter((c) => c.passed).length;
+        const motionScore = Math.min(1, peakMotion / MOTION_REFERENCE);
+        const challengeScore = challenges.length ? done / challenges.length : 1;
+        return {
+            passed: done === challenges.length && motionScore >= cfg.minMotionScore,
+            score: challengeScore * 0.7 + motionScore * 0.3,
+            challenges: challenges.map((c) => ({ ...c })),
+            motionScore,
+            current: challenges.find((c) => !c.passed)?.type ?? null,
+        };
+    }
+
+    function update({ landmarks, expressions }: LivenessFrame): LivenessResult {
+        if (landmarks.length < 68) return result();
+
+        // Motion consistency
+        const shape = normalizeShape(landmarks);
+        if (previousShape) {
+            motion.push(nonRigidResidual(previousShape, shape));
+            if (motion.length > MOTION_WINDOW) motion.shift();
+            // Median of a full window: a few frames of landmark jitter on a still photo don't count
+            if (motion.length === MOTION_WINDOW) peakMotion = Math.max(peakMotion, median(motion));
+        }
+        previousShape = shape;
+
+        // Challenges are completed in order
+        const current = challenges.find((c) => !c.passed);
+        if (current) {
+            switch (current.type) {
+                case 'blink': {
+                    const ear = (eyeAspectRatio(landmarks.slice(36, 42)) + eyeAspectRatio(landmarks.slice(42, 48))) / 2;
+                    if (ear < cfg.blinkClosedEar) eyesClosed = true;
+                    else if (eyesClosed && ear > cfg.blinkOpenEar) current.passed = true;
+                    break;
+                }
+                case 'turn-left':
+                    current.passed = estimateYaw(landmarks) > cfg.turnYaw;
+                    break;
+                case 'turn-right':
+                    current.passed = estimateYaw(landmarks) < -cfg.turnYaw;
+                    break;
+                case 'smile':
+                    current.passed = (expressions?.happy ?? 0) > cfg.smileProbability;
+                    break;
+            }
+        }
+        return result();
+    }
+
+    reset();
+    return { update, result, reset };
+}
@@ -0,0 +1,44 @@
+// --- OpenCV.js loader (module-level) ---
+let __opencvReady = false as boolean;
+let __opencvPromise: Promise<void> | null = null;
+export function ensureOpenCV(opencvUrl = '/opencv/opencv.js'): Promise<void> {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    if (__opencvReady && (window as any).cv) return Promise.resolve();
+    if (__opencvPromise) return __opencvPromise;
+    __opencvPromise = new Promise<void>((resolve, reject) => {
+        const done = () => {
+            // eslint-disable-next-line @typescript-eslint/no-explicit-any
+            const cv: any = (window as any).cv;
+            if (!cv) {
+                reject(new Error('cv not present after load'));
+                return;
+            }
+            if (cv.getBuildInformation) {
+                __opencvReady = true;
+                resolve();
+                return;
+            }
+            cv.onRuntimeInitialized = () => {
+                __opencvReady = true;
+                resolve();
+            };
+        };
+        const existing = document.querySelector<HTMLScriptElement>(`script[src="${opencvUrl}"]`);
+        if (existing) {
+            done();
+            return;
+        }
+        const s = document.createElement('script');
+        s.src = opencvUrl;
+        s.async = true;
+        s.onload = done;
+        s.onerror = () => reject(new Error('Failed to load OpenCV.js'));
+        document.head.appendChild(s);
+    });
+    return __opencvPromise;
+}
+
+export function isOpenCVReady() {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    return __opencvReady && Boolean((window as any).cv);
+}
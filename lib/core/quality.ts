@@ -0,0 +1,185 @@
+import type { RgbaImage } from '../mrz/locate';
+import { scratchContext } from './cardDetection';
+import type { FrameSource, Rect } from './geometry';
+
+// === Image quality gates (run on the detection ROI before auto-capture) ===
+// Images are normalized to QUALITY_ROI_WIDTH px wide so thresholds don't depend
+// on the camera resolution.
+
+export const QUALITY_ROI_WIDTH = 320;
+
+export interface QualityCheckResult {
+    name: string;
+    score: number;
+    passed: boolean;
+    /** Extra measurements behind the score (e.g. under/over-exposed ratios) */
+    detail?: Record<string, number>;
+}
+
+export interface QualityCheck {
+    name: string;
+    /** ROI pixels, QUALITY_ROI_WIDTH wide (ImageData in the browser; any RGBA buffer in Node) */
+    evaluate(image: RgbaImage): QualityCheckResult;
+    /**
+     * Plain-data description the detection worker rebuilds the check from
+     * (functions can't be posted to a worker); checks without one run on the main thread
+     */
+    spec?: QualityCheckSpec;
+}
+
+export interface SharpnessCheckOptions {
+    minVariance?: number;
+}
+
+export interface GlareCheckOptions {
+    maxRatio?: number;
+    level?: number;
+}
+
+export interface ExposureCheckOptions {
+    darkLevel?: number;
+    brightLevel?: number;
+    maxDarkRatio?: number;
+    maxBrightRatio?: number;
+}
+
+export type QualityCheckSpec =
+    | { type: 'sharpness'; options: SharpnessCheckOptions }
+    | { type: 'glare'; options: GlareCheckOptions }
+    | { type: 'exposure'; options: ExposureCheckOptions };
+
+export interface QualityReport {
+    passed: boolean;
+    checks: QualityCheckResult[];
+}
+
+const __LUMA_CACHE__ = new WeakMap<RgbaImage, Float32Array>();
+export function luminance(image: RgbaImage) {
+    let lum = __LUMA_CACHE__.get(image);
+    if (lum) return lum;
+    const { data, width, height } = image;
+    lum = new Float32Array(width * height);
+    for (let i = 0, p = 0; p < lum.length; i += 4, p++) {
+        lum[p] = 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    }
+    __LUMA_CACHE__.set(image, lum);
+    return lum;
+}
+
+/** Variance of the 4-neighbour Laplacian; low values mean motion blur or defocus */
+export function laplacianVariance(image: RgbaImage) {
+    const { width: w, height: h } = image;
+    const lum = luminance(image);
+    let sum = 0,
+        sumSq = 0,
+        n = 0;
+    for (let y = 1; y < h - 1; y++) {
+        for (let x = 1; x < w - 1; x++) {
+            const i = y * w + x;
+            const v = lum[i - w] + lum[i + w] + lum[i - 1] + lum[i + 1] - 4 * lum[i];
+            sum += v;
+            sumSq += v * v;
+            n++;
+        }
+    }
+    if (!n) return 0;
+    const mean = sum / n;
+    return sumSq / n - mean * mean;
+}
+
+export function sharpnessCheck({ minVariance = 60 }: SharpnessCheckOptions = {}): QualityCheck {
+    return {
+        name: 'sharpness',
+        spec: { type: 'sharpness', options: { minVariance } },
+        evaluate(image) {
+            const score = laplacianVariance(image);
+            return { name: 'sharpness', score, passed: score >= minVariance };
+        },
+    };
+}
+
+/** Share of (near) saturated pixels: specular hotspots on laminated cards */
+export function glareCheck({ maxRatio = 0.02, level = 250 }: GlareCheckOptions = {}): QualityCheck {
+    return {
+        name: 'glare',
+        spec: { type: 'glare', options: { maxRatio, level } },
+        evaluate(image) {
+            const { data } = image;
+            let saturated = 0;
+            const total = data.length / 4;
+            for (let i = 0; i < data.length; i += 4) {
+                if (data[i] >= level && data[i + 1] >= level && data[i + 2] >= level) saturated++;
+            }
+            const score = total ? saturated / total : 0;
+            return { name: 'glare', score, passed: score <= maxRatio };
+        },
+    };
+}
+
+/** Under/over-exposure from the luminance histogram; score is the mean luminance (0..1) */
+export function exposureCheck({
+    darkLevel = 40,
+    brightLevel = 230,
+    maxDarkRatio = 0.4,
+    maxBrightRatio = 0.3,
+}: ExposureCheckOptions = {}): QualityCheck {
+    return {
+        name: 'exposure',
+        spec: { type: 'exposure', options: { darkLevel, brightLevel, maxDarkRatio, maxBrightRatio } },
+        evaluate(image) {
+            const lum = luminance(image);
+            const hist = new Uint32Array(256);
+            let sum = 0;
+            for (let i = 0; i < lum.length; i++) {
+                hist[Math.min(255, lum[i] | 0)]++;
+                sum += lum[i];
+            }
+            const total = lum.length || 1;
+            let dark = 0,
+                bright = 0;
+            for (let v = 0; v < 256; v++) {
+                if (v < darkLevel) dark += hist[v];
+                else if (v > brightLevel) bright += hist[v];
+            }
+            const under = dark / total,
+                over = bright / total;
+            return {
+                name: 'exposure',
+                score: sum / total / 255,
+                passed: under <= maxDarkRatio && over <= maxBrightRatio,
+                detail: { under, over },
+            };
+        },
+    };
+}
+
+export function defaultQualityChecks(): QualityCheck[] {
+    return [sharpnessCheck(), glareCheck(), exposureCheck()];
+}
+
+export function qualityCheckFromSpec(spec: QualityCheckSpec): QualityCheck {
+    switch (spec.type) {
+        case 'sharpness':
+            return sharpnessCheck(spec.options);
+        case 'glare':
+            return glareCheck(spec.options);
+        case 'exposure':
+            return exposureCheck(spec.options);
+    }
+}
+
+export function evaluateQuality(image: RgbaImage, checks: QualityCheck[]): QualityReport {
+    const results = checks.map((c) => c.evaluate(image));
+    return { passed: results.every((r) => r.passed), checks: results };
+}
+
+/** Read the ROI (source pixels) normalized to QUALITY_ROI_WIDTH px wide */
+export function readRoi(source: FrameSource, roi: Rect): ImageData | null {
+    if (roi.w <= 0 || roi.h <= 0) return null;
+    const outW = QUALITY_ROI_WIDTH;
+    const outH = Math.max(1, Math.round((outW * roi.h) / roi.w));
+    const ctx = scratchContext(outW, outH);
+    if (!ctx) return null;
+    ctx.drawImage(source, roi.x, roi.y, roi.w, roi.h, 0, 0, outW, outH);
+    return ctx.getImageData(0, 0, outW, outH);
+}
@@ -0,0 +1,137 @@
+import type { CardDetectorKind } from './cardDetection';
+import type { CardDetectorSpec } from './detectors';
+import type { DocumentProfile } from './documents';
+import type { Box, FrameSource, Point, Rect } from './geometry';
+import type { QualityCheckSpec, QualityReport } from './quality';
+import type { OverlayMode } from './types';
+
+// === Session recording ===
+// Opt-in: every few detection ticks, the ROI the detectors looked at is saved downsampled
+// (lossless PNG) with what the detectors and quality gates decided on it. The JSON is a
+// regression corpus for the replay runner (`@nwzx/light-id-check/replay`), which re-runs the
+// detectors on the frames in Node and compares the decisions.
+
+export interface RecordingOptions {
+    /**
+     * Minimum time between two recorded frames
+     * @default 500
+     */
+    intervalMs?: number;
+    /**
+     * Frames kept (oldest dropped first)
+     * @default 120
+     */
+    maxFrames?: number;
+    /**
+     * Width of recorded card ROIs (the OpenCV working width: replays see what the detector saw)
+     * @default 540
+     */
+    cardWidth?: number;
+    /**
+     * Width of recorded face frames (whole frame)
+     * @default 480
+     */
+    faceWidth?: number;
+}
+
+export interface RecordedCard {
+    ok: boolean;
+    detector: CardDetectorKind;
+    confidence: number;
+    areaRatio: number | null;
+    /** In recorded image pixels */
+    quad: Point[] | null;
+    detail?: Record<string, number>;
+}
+
+export interface RecordedFace {
+    /** 0 when no face was found */
+    confidence: number;
+    /** In recorded image pixels */
+    box: Box | null;
+    /** Face center inside the guide silhouette */
+    inside: boolean;
+}
+
+/** Decisions a frame must produce on replay; omitted ones default to what the device decided */
+export interface FrameLabels {
+    cardOk?: boolean;
+    faceDetected?: boolean;
+    qualityPassed?: boolean;
+}
+
+export interface RecordedFrame {
+    /** Epoch ms */
+    timestamp: number;
+    mode: OverlayMode;
+    /** PNG data URL of the detection ROI (card guide, or the whole frame for faces), downsampled */
+    image: string;
+    width: number;
+    height: number;
+    /** What the image covers, in native video pixels */
+    roi: Rect;
+    card: RecordedCard | null;
+    face: RecordedFace | null;
+    /** Quality gates on the device (null when they didn't run: subject not in the guide, or no checks) */
+    quality: QualityReport | null;
+    /** Hand-set expectations when curating the corpus */
+    labels?: FrameLabels;
+}
+
+export interface SessionRecording {
+    version: 1;
+    /** ISO date */
+    createdAt: string;
+    userAgent: string;
+    document: DocumentProfile;
+    /** Card cascade of the session (detectors without a spec can't be replayed and are left out) */
+    cardDetectors: CardDetectorSpec[];
+    qualityChecks: QualityCheckSpec[];
+    frames: RecordedFrame[];
+}
+
+export interface Recorder {
+    /** A frame is due (interval elapsed) */
+    due(now: number): boolean;
+    add(frame: RecordedFrame): void;
+    frames(): RecordedFrame[];
+    clear(): void;
+}
+
+export const DEFAULT_RECORDING_OPTIONS: Required<RecordingOptions> = {
+    intervalMs: 500,
+    maxFrames: 120,
+    cardWidth: 540,
+    faceWidth: 480,
+};
+
+export function createRecorder({ intervalMs, maxFrames }: Required<RecordingOptions>): Recorder {
+    let frames: RecordedFrame[] = [];
+    let last = -Infinity;
+    return {
+        due(now) {
+            return now - last >= intervalMs;
+        },
+        add(frame) {
+            last = frame.timestamp;
+            frames.push(frame);
+            if (frames.length > maxFrames) frames = frames.slice(-maxFrames);
+        },
+        frames() {
+            return [...frames];
+        },
+        clear() {
+            frames = [];
+            last = -Infinity;
+        },
+    };
+}
+
+/** `roi` of the source downsampled to `width` px wide, as a PNG data URL */
+export function encodeRoi(source: FrameSource, roi: Rect, width: number) {
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(Math.min(width, roi.w)));
+    canvas.height = Math.max(1, Math.round((canvas.width * roi.h) / roi.w));
+    canvas.getContext('2d')?.drawImage(source, roi.x, roi.y, roi.w, roi.h, 0, 0, canvas.width, canvas.height);
+    return { image: canvas.toDataURL('image/png'), width: canvas.width, height: canvas.height };
+}
@@ -0,0 +1,1516 @@
+import { readBarcodes, type BarcodeReadOptions } from '../barcode/read';
+import {
+    applyTorch,
+    facingForOverlay,
+    hasTorch,
+    listCameras,
+    videoConstraints,
+    type CameraDevice,
+    type CameraFacing,
+} from './camera';
+import { cropCard } from './cardCrop';
+import { OPENCV_WIDTH, type CardDetectorKind, type CardEstimate } from './cardDetection';
+import {
+    createDetectionWorker,
+    isDetectionWorkerSupported,
+    type DetectionWorkerClient,
+    type WorkerModelLoad,
+} from './detectionWorker';
+import {
+    detectCard,
+    heuristicCardDetector,
+    initDetector,
+    isDetectorReady,
+    openCvCardDetector,
+    tinyFaceDetector,
+    type CardDetector,
+    type Detectors,
+    type FaceDetector,
+} from './detectors';
+import { resolveDocumentProfile, type DocumentFormat, type DocumentProfile } from './documents';
+import { createEmitter } from './emitter';
+import { loadImageCanvas } from './image';
+import {
+    canvasRectToVideoRect,
+    cardOverlayRectCanvas,
+    expandBox,
+    faceSilhouettePath2D,
+    pointsBounds,
+    rectCorners,
+    roundedRectPath2D,
+    videoPointToCanvas,
+    type Box,
+    type FrameSource,
+    type Mapping,
+    type Point,
+    type Rect,
+} from './geometry';
+import {
+    computeGuidance,
+    DEFAULT_GUIDANCE_THRESHOLDS,
+    sameHint,
+    type GuidanceHint,
+    type GuidanceInput,
+    type GuidanceThresholds,
+} from './guidance';
+import {
+    createShapeSmoother,
+    drawCardQuad,
+    drawDebugLines,
+    drawFaceBox,
+    drawProgressRing,
+    formatScores,
+} from './liveOverlay';
+import { createLivenessTracker, type LivenessOptions, type LivenessResult, type LivenessTracker } from './liveness';
+import { ensureOpenCV } from './opencv';
+import {
+    defaultQualityChecks,
+    evaluateQuality,
+    QUALITY_ROI_WIDTH,
+    readRoi,
+    type QualityCheck,
+    type QualityCheckResult,
+    type QualityReport,
+} from './quality';
+import {
+    createRecorder,
+    DEFAULT_RECORDING_OPTIONS,
+    encodeRoi,
+    type Recorder,
+    type RecordingOptions,
+    type SessionRecording,
+} from './recording';
+import {
+    createSessionId,
+    type DetectionStatus,
+    type TelemetryEvent,
+    type TelemetryEventInput,
+} from './telemetry';
+import type {
+    CaptureError,
+    CaptureErrorReason,
+    CaptureResult,
+    CaptureTrigger,
+    ImageInput,
+    OverlayMode,
+} from './types';
+
+// Framework-agnostic capture engine: owns the camera stream, the draw loop,
+// the detection tick and auto-capture. UI layers subscribe to its events.
+// - 1440x2560 portrait capture (final image has NO overlay)
+// - Rear camera for cards, front camera for the selfie (the stream is renegotiated on overlay change)
+// - Front camera preview is mirrored like a selfie; final capture is NOT mirrored
+
+export interface IdCheckSessionOptions {
+    /**
+     * URL path to face-api.js models (relative to site root)
+     * @default '/models'
+     * @type {string}
+     * @memberof IdCheckSessionOptions
+     */
+    faceModelsUrl?: string;
+    /**
+     * URL path to OpenCV.js (relative to site root)
+     * @default '/opencv/opencv.js'
+     * @type {string}
+     * @memberof IdCheckSessionOptions
+     */
+    opencvUrl?: string;
+    /**
+     * Initial overlay mode (face/card)
+     * @default 'face'
+     * @type {OverlayMode}
+     * @memberof IdCheckSessionOptions
+     */
+    initialOverlay?: OverlayMode;
+    /**
+     * Whether to auto-capture when detection is OK
+     * @default true
+     * @type {boolean}
+     * @memberof IdCheckSessionOptions
+     */
+    autoCapture?: boolean;
+    /**
+     * Delay in ms after detection is OK before auto-capturing
+     * Set to 0 for immediate capture
+     * @default 2000
+     * @type {number}
+     * @memberof IdCheckSessionOptions
+     */
+    autoCaptureDelayMs?: number;
+    /**
+     * In card mode, also return a perspective-corrected card image warped from the detected quad
+     * @default true
+     * @type {boolean}
+     * @memberof IdCheckSessionOptions
+     */
+    cropCard?: boolean;
+    /**
+     * Width in pixels of the cropped card image (height follows the document profile's aspect)
+     * @default 1012
+     * @type {number}
+     * @memberof IdCheckSessionOptions
+     */
+    cardCropWidth?: number;
+    /**
+     * Quality checks run on the detection ROI; all must pass before an auto-capture.
+     * Build them with sharpnessCheck/glareCheck/exposureCheck to tune thresholds, or pass [] to disable.
+     * @default [sharpnessCheck(), glareCheck(), exposureCheck()]
+     * @type {QualityCheck[]}
+     * @memberof IdCheckSessionOptions
+     */
+    qualityChecks?: QualityCheck[];
+    /**
+     * Framing thresholds used to derive guidance hints (face/card size relative to the guide)
+     * @default DEFAULT_GUIDANCE_THRESHOLDS
+     * @type {GuidanceThresholds}
+     * @memberof IdCheckSessionOptions
+     */
+    guidanceThresholds?: GuidanceThresholds;
+    /**
+     * Opt-in passive liveness for the face step (randomized blink / head turn / smile challenges
+     * + motion consistency). Loads the 68-landmark and expression nets; auto-capture waits until it passes.
+     * @default false
+     * @type {boolean | LivenessOptions}
+     * @memberof IdCheckSessionOptions
+     */
+    liveness?: boolean | LivenessOptions;
+    /**
+     * Which camera to open when no device is selected: 'auto' uses the rear camera in card mode
+     * and the front camera in face mode
+     * @default 'auto'
+     * @type {'auto' | CameraFacing}
+     * @memberof IdCheckSessionOptions
+     */
+    cameraFacing?: 'auto' | CameraFacing;
+    /**
+     * Camera to use (a deviceId from `listCameras()`); null follows `cameraFacing`
+     * @default null
+     * @type {string | null}
+     * @memberof IdCheckSessionOptions
+     */
+    cameraDeviceId?: string | null;
+    /**
+     * Run the card detectors and quality metrics in a Web Worker (OffscreenCanvas + ImageBitmap);
+     * falls back to the main thread where workers or OffscreenCanvas are unavailable. The main
+     * thread then loads OpenCV for `cropCard` on the first capture only
+     * @default true
+     * @type {boolean}
+     * @memberof IdCheckSessionOptions
+     */
+    detectionWorker?: boolean;
+    /**
+     * Replace the card detector cascade and/or the face detector (e.g. ssdMobilenetFaceDetector(),
+     * openCvCardDetector({ minAspect: 1.3 }), or a custom Detector). Create them once, not per render.
+     * @default { card: [openCvCardDetector(), heuristicCardDetector()], face: tinyFaceDetector() }
+     * @type {Detectors}
+     * @memberof IdCheckSessionOptions
+     */
+    detectors?: Detectors;
+    /**
+     * Draw detector and quality scores over the preview (area ratio, aspect, rectangularity, ...)
+     * @default false
+     * @type {boolean}
+     * @memberof IdCheckSessionOptions
+     */
+    debug?: boolean;
+    /**
+     * Document to capture: sets the card guide aspect and corners, the OpenCV aspect band
+     * and the crop aspect ('ID-1' cards, 'ID-2', 'ID-3' passports, or a custom DocumentProfile).
+     * Pass the same profile to readMrz() to only accept its MRZ format.
+     * @default 'ID-1'
+     * @type {DocumentFormat | DocumentProfile}
+     * @memberof IdCheckSessionOptions
+     */
+    documentProfile?: DocumentFormat | DocumentProfile;
+    /**
+     * In card mode, decode PDF417 / QR / Data Matrix codes on the captured frame (AAMVA licence data is parsed)
+     * into CaptureResult.barcodes; uses BarcodeDetector, else the optional zxing-wasm package
+     * @default false
+     * @type {boolean | BarcodeReadOptions}
+     * @memberof IdCheckSessionOptions
+     */
+    barcodes?: boolean | BarcodeReadOptions;
+    /**
+     * Telemetry hook: session start, camera ready, model loads, detection and quality changes, captures,
+     * retakes and close, each with a timestamp and the session id (see createTelemetryAggregator)
+     * @default null
+     * @type {((event: TelemetryEvent) => void) | null}
+     * @memberof IdCheckSessionOptions
+     */
+    onEvent?: ((event: TelemetryEvent) => void) | null;
+    /**
+     * Id reported in telemetry events; null generates a new one on every start()
+     * @default null
+     * @type {string | null}
+     * @memberof IdCheckSessionOptions
+     */
+    sessionId?: string | null;
+    /**
+     * Record downsampled detection frames with the detector and quality decisions (see getRecording()),
+     * to build a replay corpus for detection regression runs. Costs a PNG encode per recorded frame.
+     * @default false
+     * @type {boolean | RecordingOptions}
+     * @memberof IdCheckSessionOptions
+     */
+    record?: boolean | RecordingOptions;
+}
+
+export interface IdCheckSessionState {
+    overlay: OverlayMode;
+    isStreaming: boolean;
+    faceInside: boolean;
+    cardOk: boolean;
+    capturePending: boolean;
+    /** Detection and auto-capture are suspended (after a capture, until `resume()`) */
+    paused: boolean;
+    /** Quality of the ROI on the last tick where detection was OK */
+    quality: QualityReport | null;
+    /** Liveness progress in face mode (null when disabled) */
+    liveness: LivenessResult | null;
+    /** Epoch ms at which the pending auto-capture fires, or null */
+    captureAt: number | null;
+    /** What the user should do next (null when paused or nothing to say) */
+    guidance: GuidanceHint | null;
+    /** Last camera/model failure (see describeError for a user-facing message) */
+    error: CaptureError | null;
+    /** Available video inputs (refreshed once the stream starts and on device changes) */
+    cameras: CameraDevice[];
+    /** Explicitly selected camera, null when following `cameraFacing` */
+    selectedCameraId: string | null;
+    /** Device of the live stream */
+    cameraId: string | null;
+    /** Side the live camera faces, null when the browser doesn't report it (most desktop webcams) */
+    facing: CameraFacing | null;
+    /** The live track supports torch/flash control */
+    torchAvailable: boolean;
+    torch: boolean;
+}
+
+export interface IdCheckSessionEvents {
+    /** Emitted whenever any field of the session state changes */
+    state: IdCheckSessionState;
+    /** Emitted with every captured frame */
+    capture: CaptureResult;
+    /** Emitted when the camera could not be started or required models failed to load */
+    error: CaptureError;
+    /** Emitted with every telemetry event (same as the `onEvent` option) */
+    telemetry: TelemetryEvent;
+}
+
+export interface IdCheckSession {
+    /** Request the camera and start the draw and detection loops on the given elements */
+    start(video: HTMLVideoElement, canvas: HTMLCanvasElement): Promise<void>;
+    /** Stop the loops and release the camera */
+    stop(): void;
+    /**
+     * Grab the current frame (no overlay, not mirrored) and emit it as a `capture` event.
+     * Detection is paused afterwards so the next step does not fire immediately.
+     * Never rejects: resolves null without a frame, and when encoding fails it emits a
+     * `capture-failed` error and resumes detection.
+     */
+    capture(trigger?: CaptureTrigger): Promise<CaptureResult | null>;
+    /**
+     * Camera-less fallback: run the current overlay's detectors, quality checks and card crop
+     * on a still image (e.g. an uploaded file) and emit it as a `capture` event (trigger 'upload').
+     * Pauses detection like capture(); works without start(). Rejects when the image can't be decoded,
+     * or when processing it fails (then with a `capture-failed` error, detection resumed).
+     */
+    captureImage(image: ImageInput): Promise<CaptureResult>;
+    /** Suspend detection and auto-capture; the preview keeps running */
+    pause(): void;
+    /** Resume detection on the running stream (e.g. retake or next step) */
+    resume(): void;
+    /** Switch overlay; switches to the camera facing that side when no device is selected */
+    setOverlay(mode: OverlayMode): void;
+    /** Refresh `state.cameras` */
+    listCameras(): Promise<CameraDevice[]>;
+    /** Renegotiate the stream on another camera without stopping the session; null returns to automatic */
+    selectCamera(deviceId: string | null): Promise<void>;
+    /** Turn the torch on/off; resolves false when the camera doesn't support it */
+    setTorch(on: boolean): Promise<boolean>;
+    /** Update options on a running session (e.g. when component props change) */
+    configure(options: IdCheckSessionOptions): void;
+    /** Stop the session and restore the initial state */
+    reset(): void;
+    /** Report a telemetry event the session can't see itself (the UI's retake and close) */
+    track(event: TelemetryEventInput): void;
+    /** Id of the current (or last) run, as reported in telemetry events */
+    getSessionId(): string;
+    /** Frames recorded so far with the `record` option (null when recording is off) */
+    getRecording(): SessionRecording | null;
+    /** Drop the recorded frames */
+    clearRecording(): void;
+    getState(): IdCheckSessionState;
+    on<K extends keyof IdCheckSessionEvents>(
+        type: K,
+        listener: (payload: IdCheckSessionEvents[K]) => void,
+    ): () => void;
+    /** Stop the session and drop every listener */
+    destroy(): void;
+}
+
+// Detection ticks are chained (never overlapping) and spaced by twice their recent cost,
+// so slow devices back off instead of stacking work on the draw loop
+const DETECTION_INTERVAL_MS = 333;
+const MIN_DETECTION_INTERVAL_MS = 100;
+const MAX_DETECTION_INTERVAL_MS = 1000;
+// Width of the ROI bitmap sent to the worker for card detection (the OpenCV working width)
+const CARD_FRAME_WIDTH = OPENCV_WIDTH;
+
+const DEFAULT_OPTIONS: Required<IdCheckSessionOptions> = {
+    faceModelsUrl: '/models',
+    opencvUrl: '/opencv/opencv.js',
+    initialOverlay: 'face',
+    autoCapture: true,
+    autoCaptureDelayMs: 2000,
+    cropCard: true,
+    cardCropWidth: 1012, // ~300 dpi for an ID-1 card
+    qualityChecks: defaultQualityChecks(),
+    guidanceThresholds: DEFAULT_GUIDANCE_THRESHOLDS,
+    liveness: false,
+    cameraFacing: 'auto',
+    cameraDeviceId: null,
+    detectionWorker: true,
+    detectors: {},
+    debug: false,
+    documentProfile: 'ID-1',
+    barcodes: false,
+    onEvent: null,
+    sessionId: null,
+    record: false,
+};
+
+export function createIdCheckSession(options: IdCheckSessionOptions = {}): IdCheckSession {
+    let config: Required<IdCheckSessionOptions> = { ...DEFAULT_OPTIONS, ...stripUndefined(options) };
+    const emitter = createEmitter<IdCheckSessionEvents>();
+
+    let state: IdCheckSessionState = initialState(config);
+
+    let video: HTMLVideoElement | null = null;
+    let canvas: HTMLCanvasElement | null = null;
+    let stream: MediaStream | null = null;
+    let raf: number | null = null;
+    let detectionTimer: number | null = null;
+    // Bumped on stop so an in-flight tick doesn't reschedule a stale loop
+    let tickLoop = 0;
+    let tickCost = DETECTION_INTERVAL_MS / 2;
+    let autoCaptureTimer: number | null = null;
+    // Incremented per getUserMedia call so a slow, superseded request doesn't win
+    let streamRequest = 0;
+    let started = false;
+
+    // Detectors
+    let builtins: { key: string; card: CardDetector[]; face: FaceDetector } | null = null;
+    let preparedFace: FaceDetector | null = null;
+    let faceModelsError: Error | null = null;
+    let lastFaceBox: Box | null = null;
+    let lastFaceScore = 0;
+    let lastCard: { quad: Point[] | null; detector: CardDetectorKind } | null = null;
+    // Raw detector outputs of the last tick, for guidance
+    let lastFaceFrame: GuidanceInput['face'] = null;
+    let lastCardEstimate: (CardEstimate & { detector: CardDetectorKind }) | null = null;
+    // What the preview shows of the detections, eased between ticks (canvas pixels)
+    const cardShape = createShapeSmoother();
+    const faceShape = createShapeSmoother();
+    let liveness: LivenessTracker | null = null;
+    let mapping: Mapping | null = null;
+    // Created on first use; null when disabled, unsupported, or after it failed once
+    let worker: DetectionWorkerClient | null = null;
+    let workerFailed = false;
+    // Card detection ran in the worker: the main thread needs OpenCV for the card crop only
+    let cropNeedsOpenCV = false;
+
+    // Telemetry: a new id per start(); what was last reported, so only changes are
+    let sessionId: string | null = null;
+    let startedAt = 0;
+    let detectionStatus: DetectionStatus = 'idle';
+    let lastCardDetectorName: string | null = null;
+    let trackedCardDetector: CardDetector | null = null;
+    let lastQualityFailure = '';
+    let recorder: Recorder | null = null;
+
+    function setState(patch: Partial<IdCheckSessionState>) {
+        const next = { ...state, ...patch };
+        const changed = (Object.keys(patch) as (keyof IdCheckSessionState)[]).some((k) => next[k] !== state[k]);
+        if (!changed) return;
+        state = next;
+        emitter.emit('state', state);
+        trackDetectionStatus();
+    }
+
+    function currentSessionId() {
+        return (sessionId ??= config.sessionId ?? createSessionId());
+    }
+
+    function track(input: TelemetryEventInput) {
+        const event: TelemetryEvent = { ...input, sessionId: currentSessionId(), timestamp: Date.now() };
+        emitter.emit('telemetry', event);
+        config.onEvent?.(event);
+    }
+
+    function trackDetectionStatus() {
+        const status: DetectionStatus =
+            !state.isStreaming || state.paused ? 'idle' : detectionOk() ? 'detected' : 'searching';
+        if (status === detectionStatus) return;
+        detectionStatus = status;
+        track({ type: 'detection-change', mode: state.overlay, status });
+    }
+
+    // Reported when the set of failing checks changes, not on every tick
+    function trackQuality(quality: QualityReport | null) {
+        const failed = quality && !quality.passed ? quality.checks.filter((c) => !c.passed).map((c) => c.name) : [];
+        const key = failed.join(',');
+        if (key === lastQualityFailure) return;
+        lastQualityFailure = key;
+        if (failed.length) track({ type: 'quality-failed', mode: state.overlay, checks: failed });
+    }
+
+    function trackCardDetector(detectors: CardDetector[], name: string) {
+        if (name === lastCardDetectorName) return;
+        lastCardDetectorName = name;
+        track({ type: 'card-detector', detector: name, fallback: name !== detectors[0]?.name });
+    }
+
+    // Model load timing of a detector (init() is memoized, so this doesn't load it twice)
+    function trackInit(kind: 'face' | 'card', detector: FaceDetector | CardDetector) {
+        const t0 = performance.now();
+        const ready = initDetector(detector);
+        ready.then(
+            () => track({ type: 'model-loaded', kind, model: detector.name, durationMs: performance.now() - t0 }),
+            (e: unknown) =>
+                track({
+                    type: 'model-failed',
+                    kind,
+                    model: detector.name,
+                    durationMs: performance.now() - t0,
+                    message: e instanceof Error ? e.message : String(e),
+                }),
+        );
+        return ready;
+    }
+
+    // The worker loads its own OpenCV: trackInit() never sees it
+    function trackWorkerModel({ model, ok, durationMs, message = '' }: WorkerModelLoad) {
+        track(
+            ok
+                ? { type: 'model-loaded', kind: 'card', model, durationMs }
+                : { type: 'model-failed', kind: 'card', model, durationMs, message },
+        );
+    }
+
+    function fail(reason: CaptureErrorReason, error: Error) {
+        const captureError = { reason, error };
+        setState({ error: captureError });
+        emitter.emit('error', captureError);
+        track({ type: 'error', reason, message: error.message });
+    }
+
+    function detectionOk() {
+        if (state.paused) return false;
+        return state.overlay === 'face' ? state.faceInside : state.cardOk;
+    }
+
+    function qualityOk() {
+        return !state.quality || state.quality.passed;
+    }
+
+    function livenessOk() {
+        return state.overlay !== 'face' || !liveness || Boolean(state.liveness?.passed);
+    }
+
+    function resetLiveness() {
+        liveness?.reset();
+        setState({ liveness: liveness && state.overlay === 'face' ? liveness.result() : null });
+    }
+
+    function applyLivenessConfig() {
+        const opts = config.liveness;
+        liveness = opts ? createLivenessTracker(opts === true ? {} : opts) : null;
+        resetLiveness();
+    }
+
+    // ROI (video pixels) the quality gates look at: the face box (+20%) or the card guide
+    function qualityRoi(map: Mapping): Rect | null {
+        if (state.overlay === 'face') return lastFaceBox && expandBox(lastFaceBox, 0.1, map.vw, map.vh);
+        const { cW, cH, vw, vh, scale, dx, dy, mirrored } = map;
+        return canvasRectToVideoRect(cardGuide(cW, cH), { vw, vh, scale, dx, dy, mirrored });
+    }
+
+    function recordingOptions(): Required<RecordingOptions> {
+        return { ...DEFAULT_RECORDING_OPTIONS, ...(config.record === true ? {} : stripUndefined(config.record || {})) };
+    }
+
+    function applyRecordingConfig() {
+        recorder = config.record ? createRecorder(recordingOptions()) : null;
+    }
+
+    // What the detectors looked at this tick, downsampled, with their decisions
+    function recordTick(map: Mapping, quality: QualityReport | null) {
+        const timestamp = Date.now();
+        if (!recorder || !video || !recorder.due(timestamp)) return;
+        const options = recordingOptions();
+        if (state.overlay === 'card') {
+            if (!lastCardEstimate) return;
+            const { cW, cH, vw, vh, scale, dx, dy, mirrored } = map;
+            const roi = canvasRectToVideoRect(cardGuide(cW, cH), { vw, vh, scale, dx, dy, mirrored });
+            const { image, width, height } = encodeRoi(video, roi, options.cardWidth);
+            const s = width / roi.w;
+            const { ok, detector, confidence, areaRatio, quad, detail } = lastCardEstimate;
+            recorder.add({
+                timestamp,
+                mode: 'card',
+                image,
+                width,
+                height,
+                roi,
+                card: {
+                    ok,
+                    detector,
+                    confidence,
+                    areaRatio,
+                    quad: quad?.map((p) => ({ x: (p.x - roi.x) * s, y: (p.y - roi.y) * s })) ?? null,
+                    detail,
+                },
+                face: null,
+                quality,
+            });
+        } else {
+            if (!lastFaceFrame) return;
+            const roi = { x: 0, y: 0, w: map.vw, h: map.vh };
+            const { image, width, height } = encodeRoi(video, roi, options.faceWidth);
+            const s = width / roi.w;
+            const b = lastFaceBox;
+            recorder.add({
+                timestamp,
+                mode: 'face',
+                image,
+                width,
+                height,
+                roi,
+                card: null,
+                face: {
+                    confidence: lastFaceScore,
+                    box: b && { x: b.x * s, y: b.y * s, width: b.width * s, height: b.height * s },
+                    inside: lastFaceFrame.inside,
+                },
+                quality,
+            });
+        }
+    }
+
+    function detectionWorker() {
+        if (!config.detectionWorker || workerFailed || !isDetectionWorkerSupported()) return null;
+        return (worker ??= createDetectionWorker());
+    }
+
+    // e.g. blob workers blocked by CSP: keep detecting on the main thread
+    function dropWorker() {
+        worker?.dispose();
+        worker = null;
+        workerFailed = true;
+    }
+
+    function measureQuality(): QualityReport | null {
+        if (!video || !mapping || !config.qualityChecks.length) return null;
+        const roi = qualityRoi(mapping);
+        const image = roi && readRoi(video, roi);
+        return image ? evaluateQuality(image, config.qualityChecks) : null;
+    }
+
+    function resume() {
+        lastFaceBox = null;
+        lastCard = null;
+        lastFaceFrame = null;
+        lastCardEstimate = null;
+        setState({ paused: false });
+        resetLiveness();
+    }
+
+    function pause() {
+        if (autoCaptureTimer) {
+            window.clearTimeout(autoCaptureTimer);
+            autoCaptureTimer = null;
+        }
+        setState({
+            paused: true,
+            capturePending: false,
+            captureAt: null,
+            faceInside: false,
+            cardOk: false,
+            quality: null,
+            guidance: null,
+        });
+    }
+
+    function documentProfile() {
+        return resolveDocumentProfile(config.documentProfile);
+    }
+
+    // Card guide in canvas pixels, at the document's aspect
+    function cardGuide(cW: number, cH: number) {
+        return cardOverlayRectCanvas(cW, cH, documentProfile().aspect);
+    }
+
+    // Built-in detectors follow the URL/liveness/document options; rebuilt only when those change
+    function builtinDetectors() {
+        const { minAspect, maxAspect } = documentProfile();
+        const key = JSON.stringify([
+            config.opencvUrl,
+            config.faceModelsUrl,
+            Boolean(config.liveness),
+            minAspect,
+            maxAspect,
+        ]);
+        if (builtins?.key !== key) {
+            builtins = {
+                key,
+                card: [
+                    openCvCardDetector({ opencvUrl: config.opencvUrl, minAspect, maxAspect }),
+                    heuristicCardDetector(),
+                ],
+                // Landmarks + expressions only when liveness is on
+                face: tinyFaceDetector({ modelsUrl: config.faceModelsUrl, landmarks: Boolean(config.liveness) }),
+            };
+        }
+        return builtins;
+    }
+
+    function cardDetectors() {
+        return config.detectors.card ?? builtinDetectors().card;
+    }
+
+    function faceDetector() {
+        return config.detectors.face ?? builtinDetectors().face;
+    }
+
+    // Load the face detector's models in the background, once per detector
+    function prepareFaceDetector() {
+        const detector = faceDetector();
+        if (detector === preparedFace) return;
+        preparedFace = detector;
+        faceModelsError = null;
+        trackInit('face', detector).catch((e: unknown) => {
+            if (detector !== preparedFace) return;
+            // Only fatal while the face guide is in use (see setOverlay)
+            faceModelsError = e instanceof Error ? e : new Error('Failed to load face models');
+            if (state.overlay === 'face') fail('model-load-failed', faceModelsError);
+        });
+    }
+
+    // === DRAW LOOP: render video + overlay (color reflects detection state) ===
+    function draw() {
+        const mirrored = state.facing ? state.facing === 'user' : state.overlay === 'face';
+        if (!video || !canvas || video.readyState < 2) {
+            raf = requestAnimationFrame(draw);
+            return;
+        }
+
+        const ctx = canvas.getContext('2d');
+        if (!ctx) {
+            raf = requestAnimationFrame(draw);
+            return;
+        }
+
+        // Fullscreen portrait sizing
+        const targetW = canvas.clientWidth || window.innerWidth || 1440;
+        const targetH = canvas.clientHeight || window.innerHeight || 2560;
+        const dpr = Math.max(1, Math.min(3, window.devicePixelRatio || 1));
+        const cW = Math.floor(targetW * dpr),
+            cH = Math.floor(targetH * dpr);
+        if (canvas.width !== cW || canvas.height !== cH) {
+            canvas.width = cW;
+            canvas.height = cH;
+        }
+
+        const vw = video.videoWidth || 1440;
+        const vh = video.videoHeight || 2560;
+        const scale = Math.max(cW / vw, cH / vh);
+        const dw = vw * scale,
+            dh = vh * scale;
+        const dx = Math.floor((cW - dw) / 2),
+            dy = Math.floor((cH - dh) / 2);
+
+        // share mapping for detection loop
+        mapping = { cW, cH, vw, vh, scale, dx, dy, mirrored };
+
+        // Clear + draw video (mirrored for the front camera)
+        ctx.clearRect(0, 0, cW, cH);
+        if (mirrored) {
+            ctx.save();
+            ctx.scale(-1, 1);
+            ctx.drawImage(video, -dx - dw, dy, dw, dh);
+            ctx.restore();
+        } else {
+            ctx.drawImage(video, dx, dy, dw, dh);
+        }
+
+        // === Overlay ===
+        const current = state.overlay;
+
+        // Dim whole screen
+        ctx.save();
+        ctx.fillStyle = 'rgba(0,0,0,0.35)';
+        ctx.fillRect(0, 0, cW, cH);
+
+        // Build path for the guide
+        let guidePath: Path2D;
+        if (current === 'face') {
+            const cx = cW / 2;
+            const cy = cH * 0.5;
+            const w = Math.min(cW, cH) * 0.7;
+            const h = w * 1.25;
+            guidePath = faceSilhouettePath2D(cx, cy, w, h);
+        } else {
+            const { x, y, w, h } = cardGuide(cW, cH);
+            guidePath = roundedRectPath2D(x, y, w, h, Math.min(w, h) * documentProfile().cornerRadius);
+        }
+
+        // Cutout
+        ctx.globalCompositeOperation = 'destination-out';
+        ctx.fill(guidePath);
+
+        // Border color based on detection result
+        ctx.globalCompositeOperation = 'source-over';
+        ctx.strokeStyle = detectionOk() ? 'rgba(125, 211, 252, 1)' : 'rgba(255,255,255,0.95)'; // light blue when OK
+        ctx.lineWidth = 3 * dpr;
+        ctx.stroke(guidePath);
+
+        ctx.restore();
+
+        drawDetections(ctx, mapping, dpr, detectionOk() ? 'rgba(125, 211, 252, 1)' : 'rgba(255,255,255,0.95)');
+
+        raf = requestAnimationFrame(draw);
+    }
+
+    // Live card quad / face box, auto-capture countdown ring and (debug) scores
+    function drawDetections(ctx: CanvasRenderingContext2D, map: Mapping, dpr: number, color: string) {
+        const now = performance.now();
+        const live = !state.paused;
+        const toCanvas = (p: Point) => videoPointToCanvas(p, map);
+
+        const quad = live && state.overlay === 'card' && lastCardEstimate?.ok ? lastCardEstimate.quad : null;
+        const card = cardShape.update(quad?.map(toCanvas) ?? null, now);
+        if (card) drawCardQuad(ctx, card, color, dpr);
+
+        const b = live && state.overlay === 'face' ? lastFaceBox : null;
+        const box = b && rectCorners({ x: b.x, y: b.y, w: b.width, h: b.height }).map(toCanvas);
+        const face = faceShape.update(box, now);
+        if (face) drawFaceBox(ctx, face, color, dpr);
+
+        // Around the guide center, filling over the auto-capture delay
+        if (state.captureAt !== null) {
+            const remaining = (state.captureAt - Date.now()) / config.autoCaptureDelayMs;
+            const r = Math.min(map.cW, map.cH) * 0.07;
+            const { y, h } = cardGuide(map.cW, map.cH);
+            const cy = state.overlay === 'card' ? y + h / 2 : map.cH * 0.5;
+            drawProgressRing(ctx, map.cW / 2, cy, r, 1 - remaining, 'rgba(125, 211, 252, 1)', dpr);
+        }
+
+        if (config.debug) {
+            const detection =
+                state.overlay === 'card'
+                    ? [
+                          `card ${lastCardEstimate?.detector ?? '-'}`,
+                          ...formatScores({
+                              confidence: lastCardEstimate?.confidence,
+                              ...lastCardEstimate?.detail,
+                          }),
+                      ]
+                    : [
+                          `face ${faceDetector().name}`,
+                          ...formatScores({ confidence: lastFaceScore, sizeRatio: lastFaceFrame?.sizeRatio }),
+                      ];
+            const quality = (state.quality?.checks ?? []).map(
+                (c) => `${c.passed ? '✓' : '✗'} ${c.name} ${c.score.toFixed(3)}`,
+            );
+            const tick = `tick ${Math.round(tickCost)}ms${worker ? ' (worker)' : ''}`;
+            drawDebugLines(ctx, [...detection, ...quality, tick], 12 * dpr, 72 * dpr, dpr);
+        }
+    }
+
+    // Capture WITHOUT overlay at 1440x2560 portrait (not mirrored)
+    async function capture(trigger: CaptureTrigger = 'manual'): Promise<CaptureResult | null> {
+        if (!video) return null;
+        const mode = state.overlay;
+        const timestamp = Date.now();
+        const quality = measureQuality();
+        const outW = 1440,
+            outH = 2560;
+        const off = document.createElement('canvas');
+        off.width = outW;
+        off.height = outH;
+        const ctx = off.getContext('2d');
+        if (!ctx) return null;
+        pause();
+
+        const vw = video.videoWidth || outW;
+        const vh = video.videoHeight || outH;
+        const scale = Math.max(outW / vw, outH / vh);
+        const dw = vw * scale,
+            dh = vh * scale;
+        const dx = (outW - dw) / 2,
+            dy = (outH - dh) / 2;
+        ctx.drawImage(video, dx, dy, dw, dh);
+
+        let dataUrl: string, blob: Blob;
+        try {
+            dataUrl = off.toDataURL('image/jpeg', 0.95);
+            blob = await canvasToBlob(off, 'image/jpeg', 0.95);
+        } catch (e) {
+            // Encoding failed (e.g. out of memory)
+            captureFailed(e);
+            return null;
+        }
+
+        // Flat card crop from the native frame (not the 1440x2560 cover-scaled one)
+        const cardImage =
+            mode === 'card' && config.cropCard && lastCard?.quad
+                ? await cropCapturedCard(video, lastCard.quad)
+                : null;
+        const barcodes = mode === 'card' ? await readCardBarcodes(off) : null;
+
+        // video -> captured image
+        const toImage = (p: Point): Point => ({ x: dx + p.x * scale, y: dy + p.y * scale });
+        const result: CaptureResult = {
+            blob,
+            dataUrl,
+            width: outW,
+            height: outH,
+            mode,
+            videoWidth: vw,
+            videoHeight: vh,
+            detection:
+                mode === 'face'
+                    ? {
+                          mode,
+                          box: lastFaceBox
+                              ? {
+                                    x: dx + lastFaceBox.x * scale,
+                                    y: dy + lastFaceBox.y * scale,
+                                    width: lastFaceBox.width * scale,
+                                    height: lastFaceBox.height * scale,
+                                }
+                              : null,
+                      }
+                    : {
+                          mode,
+                          quad: lastCard?.quad?.map(toImage) ?? null,
+                          detector: lastCard?.detector ?? null,
+                      },
+            cardImage,
+            barcodes,
+            quality,
+            liveness: mode === 'face' ? state.liveness : null,
+            timestamp,
+            trigger,
+        };
+        emitter.emit('capture', result);
+        track({ type: 'capture', mode, trigger });
+        return result;
+    }
+
+    // Perspective crop with OpenCV, else a bounding-box one. In worker mode OpenCV is loaded by the
+    // first crop, while the preview is paused on the captured frame (later crops reuse it)
+    async function cropCapturedCard(source: FrameSource, quad: Point[]) {
+        if (cropNeedsOpenCV) await ensureOpenCV(config.opencvUrl).catch(() => undefined);
+        return cropCard(source, quad, config.cardCropWidth, documentProfile().aspect).catch(() => null);
+    }
+
+    // Back to live detection so the user can retry, with the error reported
+    function captureFailed(e: unknown) {
+        const error = e instanceof Error ? e : new Error(String(e));
+        resume();
+        emitter.emit('error', { reason: 'capture-failed', error });
+        track({ type: 'error', reason: 'capture-failed', message: error.message });
+        return error;
+    }
+
+    // Barcodes of the captured card (null when disabled); a missing decoder must not lose the capture
+    async function readCardBarcodes(source: HTMLCanvasElement) {
+        if (!config.barcodes) return null;
+        return readBarcodes(source, config.barcodes === true ? {} : config.barcodes).catch(() => null);
+    }
+
+    // Upload fallback: the live pipeline on a still image, returned at its own aspect (long side <= 2560)
+    async function captureImage(input: ImageInput): Promise<CaptureResult> {
+        const mode = state.overlay;
+        const timestamp = Date.now();
+        const image = await loadImageCanvas(input);
+        if (!image.width || !image.height) throw new Error('Image has no pixels');
+        pause();
+
+        let result: CaptureResult;
+        try {
+            result = await processImage(image, mode, timestamp);
+        } catch (e) {
+            throw captureFailed(e);
+        }
+        emitter.emit('capture', result);
+        track({ type: 'capture', mode, trigger: 'upload' });
+        return result;
+    }
+
+    // Detection, quality, encoding and crop of an uploaded image (captureImage() reports failures)
+    async function processImage(
+        image: HTMLCanvasElement,
+        mode: OverlayMode,
+        timestamp: number,
+    ): Promise<CaptureResult> {
+        const iw = image.width,
+            ih = image.height;
+        const frame = { source: image, roi: { x: 0, y: 0, w: iw, h: ih } };
+        let faceBox: Box | null = null;
+        let card: (CardEstimate & { detector: CardDetectorKind }) | null = null;
+        if (mode === 'face') {
+            const detector = faceDetector();
+            await initDetector(detector);
+            faceBox = (await detector.detect(frame)).box;
+        } else {
+            card = await detectCard(cardDetectors(), frame);
+        }
+        const quad = card?.ok ? card.quad : null;
+
+        // Same ROIs as live: face box (+20%) or the card, else the whole image
+        const roi = faceBox ? expandBox(faceBox, 0.1, iw, ih) : quad ? pointsBounds(quad) : frame.roi;
+        const pixels = config.qualityChecks.length ? readRoi(image, roi) : null;
+        const quality = pixels && evaluateQuality(pixels, config.qualityChecks);
+
+        const s = Math.min(1, 2560 / Math.max(iw, ih));
+        const off = document.createElement('canvas');
+        off.width = Math.round(iw * s);
+        off.height = Math.round(ih * s);
+        off.getContext('2d')?.drawImage(image, 0, 0, off.width, off.height);
+        const dataUrl = off.toDataURL('image/jpeg', 0.95);
+        const blob = await canvasToBlob(off, 'image/jpeg', 0.95);
+
+        const cardImage =
+            quad && config.cropCard
+                ? await cropCapturedCard(image, quad)
+                : null;
+        const barcodes = mode === 'card' ? await readCardBarcodes(image) : null;
+
+        return {
+            blob,
+            dataUrl,
+            width: off.width,
+            height: off.height,
+            mode,
+            videoWidth: iw,
+            videoHeight: ih,
+            detection:
+                mode === 'face'
+                    ? {
+                          mode,
+                          box: faceBox && {
+                              x: faceBox.x * s,
+                              y: faceBox.y * s,
+                              width: faceBox.width * s,
+                              height: faceBox.height * s,
+                          },
+                      }
+                    : {
+                          mode,
+                          quad: quad?.map((p) => ({ x: p.x * s, y: p.y * s })) ?? null,
+                          detector: quad && card ? card.detector : null,
+                      },
+            cardImage,
+            barcodes,
+            quality,
+            // A still image can't prove liveness
+            liveness: null,
+            timestamp,
+            trigger: 'upload',
+        };
+    }
+
+    // === DETECTION LOOP ===
+    async function detectionTick() {
+        const map = mapping;
+        if (!video || !map || state.paused) return;
+        // Quality report the worker computed on the card frame, if any
+        let cardFrameQuality: QualityReport | null = null;
+
+        if (state.overlay === 'face') prepareFaceDetector();
+        const face = faceDetector();
+        if (state.overlay === 'face' && isDetectorReady(face)) {
+            try {
+                const est = await face.detect({ source: video, roi: { x: 0, y: 0, w: map.vw, h: map.vh } });
+                if (liveness && est.landmarks && !state.paused) {
+                    setState({ liveness: liveness.update({ landmarks: est.landmarks, expressions: est.expressions }) });
+                }
+                lastFaceBox = est.box;
+                lastFaceScore = est.confidence;
+                let faceInside = false;
+                let sizeRatio = 0;
+                if (lastFaceBox) {
+                    const { cW, cH, vw, scale, dx, dy, mirrored } = map;
+                    const b = lastFaceBox;
+                    // map video -> canvas
+                    const left = dx + (mirrored ? vw - (b.x + b.width) : b.x) * scale;
+                    const top = dy + b.y * scale;
+                    const centerX = left + (b.width * scale) / 2;
+                    const centerY = top + (b.height * scale) / 2;
+
+                    const p = faceSilhouettePath2D(
+                        cW / 2,
+                        cH * 0.5,
+                        Math.min(cW, cH) * 0.7,
+                        Math.min(cW, cH) * 0.5 * 1.25,
+                    );
+                    const ctx = canvas?.getContext('2d');
+                    if (ctx) {
+                        faceInside = ctx.isPointInPath(p, centerX, centerY);
+                    }
+                    sizeRatio = (b.width * scale) / (Math.min(cW, cH) * 0.7);
+                }
+                lastFaceFrame = { detected: Boolean(lastFaceBox), inside: faceInside, sizeRatio };
+                if (!state.paused) setState({ faceInside });
+            } catch {
+                /* ignore transient errors */
+            }
+        } else if (state.overlay === 'card') {
+            try {
+                const { cW, cH, vw, vh, scale, dx, dy, mirrored } = map;
+                const rc = cardGuide(cW, cH);
+                const rv = canvasRectToVideoRect(rc, { vw, vh, scale, dx, dy, mirrored });
+                const detectors = cardDetectors();
+                let result: (CardEstimate & { detector: CardDetectorKind }) | null = null;
+                const remote = detectionWorker();
+                // The worker can only run detectors it can rebuild from a spec
+                const specs = detectors.flatMap((d) => (d.spec ? [d.spec] : []));
+                if (remote && specs.length === detectors.length) {
+                    // Not loaded now: compiling opencv.js on the main thread would stall the preview
+                    cropNeedsOpenCV = true;
+                    try {
+                        const res = await remote.detect(video, rv, {
+                            card: specs.map((s) =>
+                                s.type === 'opencv' ? { ...s, opencvUrl: new URL(s.opencvUrl, location.href).href } : s,
+                            ),
+                            quality: workerQualitySpecs(),
+                            width: CARD_FRAME_WIDTH,
+                        });
+                        res?.models.forEach((m) => trackWorkerModel(m));
+                        // Busy (backpressure) or the user switched overlay meanwhile
+                        if (!res?.card || state.overlay !== 'card') return;
+                        result = res.card;
+                        cardFrameQuality = res.quality;
+                    } catch {
+                        dropWorker();
+                    }
+                } else if (detectors[0]?.init && detectors[0] !== trackedCardDetector) {
+                    // Load timing of the primary detector (OpenCV by default); the worker loads its own
+                    trackedCardDetector = detectors[0];
+                    trackInit('card', trackedCardDetector).catch(() => undefined);
+                }
+                const answer = result ?? (await detectCard(detectors, { source: video, roi: rv }));
+                // Whichever detector answered, card or not: a fallback that never finds one counts too
+                if (answer) trackCardDetector(detectors, answer.detector);
+                const { detector, ...estimate } = answer ?? {
+                    ok: false,
+                    confidence: 0,
+                    quad: null,
+                    areaRatio: null,
+                    detector: 'heuristic',
+                };
+                if (estimate.ok) lastCard = { quad: estimate.quad, detector };
+                lastCardEstimate = { ...estimate, detector };
+                if (!state.paused) setState({ cardOk: estimate.ok });
+            } catch {
+                /* ignore */
+            }
+        }
+
+        // Quality gates only matter once the subject is in the guide
+        if (state.paused) return;
+        const quality = detectionOk() ? await tickQuality(cardFrameQuality) : null;
+        if (state.paused) return;
+        setState({ quality });
+        trackQuality(quality);
+        recordTick(map, quality);
+
+        // Auto-capture if enabled and detection + quality (+ liveness) are OK
+        if (config.autoCapture && !state.capturePending && detectionOk() && qualityOk() && livenessOk()) {
+            setState({ capturePending: true, captureAt: Date.now() + config.autoCaptureDelayMs });
+            autoCaptureTimer = window.setTimeout(() => {
+                autoCaptureTimer = null;
+                if (detectionOk() && qualityOk() && livenessOk()) capture('auto');
+                setState({ capturePending: false, captureAt: null });
+            }, config.autoCaptureDelayMs);
+        }
+
+        updateGuidance();
+    }
+
+    function workerQualitySpecs() {
+        return config.qualityChecks.flatMap((c) => (c.spec ? [c.spec] : []));
+    }
+
+    // Same report as measureQuality(), with the spec'd checks computed in the worker
+    // (taken from the card frame when there is one) and custom checks on the main thread
+    async function tickQuality(cardFrameQuality: QualityReport | null): Promise<QualityReport | null> {
+        const remote = detectionWorker();
+        const checks = config.qualityChecks;
+        if (!remote || !video || !mapping || !checks.length) return measureQuality();
+        const roi = qualityRoi(mapping);
+        if (!roi) return null;
+        let remoteReport = cardFrameQuality;
+        if (!remoteReport && checks.some((c) => c.spec)) {
+            try {
+                const res = await remote.detect(video, roi, {
+                    card: [],
+                    quality: workerQualitySpecs(),
+                    width: QUALITY_ROI_WIDTH,
+                });
+                // Worker busy: keep the last report rather than queueing a frame
+                if (!res) return state.quality;
+                remoteReport = res.quality;
+            } catch {
+                dropWorker();
+                return measureQuality();
+            }
+        }
+        const remoteResults = [...(remoteReport?.checks ?? [])];
+        const image = checks.some((c) => !c.spec) ? readRoi(video, roi) : null;
+        const results = checks.flatMap((c): QualityCheckResult[] => {
+            const r = c.spec ? remoteResults.shift() : image && c.evaluate(image);
+            return r ? [r] : [];
+        });
+        return results.length ? { passed: results.every((r) => r.passed), checks: results } : null;
+    }
+
+    function startTicks() {
+        const loop = ++tickLoop;
+        const schedule = () => {
+            const delay = Math.min(MAX_DETECTION_INTERVAL_MS, Math.max(MIN_DETECTION_INTERVAL_MS, tickCost * 2));
+            detectionTimer = window.setTimeout(async () => {
+                const t0 = performance.now();
+                try {
+                    await detectionTick();
+                } finally {
+                    tickCost = tickCost * 0.7 + (performance.now() - t0) * 0.3;
+                    if (loop === tickLoop) schedule();
+                }
+            }, delay);
+        };
+        schedule();
+    }
+
+    function updateGuidance() {
+        const guidance = computeGuidance(
+            {
+                mode: state.overlay,
+                face: lastFaceFrame,
+                card: lastCardEstimate && { ok: lastCardEstimate.ok, areaRatio: lastCardEstimate.areaRatio },
+                quality: state.quality,
+                liveness: state.overlay === 'face' ? state.liveness : null,
+                countdownMs: state.captureAt !== null ? state.captureAt - Date.now() : null,
+            },
+            config.guidanceThresholds,
+        );
+        // Keep the same object while the hint is unchanged to avoid spurious state events
+        if (!sameHint(guidance, state.guidance)) setState({ guidance });
+    }
+
+    async function start(videoEl: HTMLVideoElement, canvasEl: HTMLCanvasElement) {
+        video = videoEl;
+        canvas = canvasEl;
+        started = true;
+        sessionId = null;
+        startedAt = Date.now();
+        lastCardDetectorName = null;
+        trackedCardDetector = null;
+        lastQualityFailure = '';
+        track({ type: 'session-start', overlay: state.overlay, autoCapture: config.autoCapture });
+        setState({ error: null });
+        try {
+            // Load face models in parallel; don't block UI if card mode is selected first
+            prepareFaceDetector();
+
+            if (!navigator.mediaDevices?.getUserMedia) {
+                fail('no-camera', new DOMException('Camera API not available', 'NotSupportedError'));
+                return;
+            }
+
+            videoEl.playsInline = true; // iOS/Safari
+            const onPlaying = () => {
+                track({
+                    type: 'camera-ready',
+                    cameraId: state.cameraId,
+                    facing: state.facing,
+                    timeToFirstFrameMs: Date.now() - startedAt,
+                });
+                setState({ isStreaming: true });
+                if (!raf) raf = requestAnimationFrame(draw);
+                if (!detectionTimer) startTicks();
+            };
+            videoEl.addEventListener('playing', onPlaying, { once: true });
+            navigator.mediaDevices.addEventListener?.('devicechange', refreshCameras);
+            await openStream();
+        } catch (e: unknown) {
+            const err = e instanceof Error ? e : new Error('Camera access failed. Check permissions.');
+            setState({ isStreaming: false });
+            fail(cameraErrorReason(err), err);
+        }
+    }
+
+    function wantedFacing(): CameraFacing {
+        return config.cameraFacing === 'auto' ? facingForOverlay(state.overlay) : config.cameraFacing;
+    }
+
+    // (Re)open the camera on the selected device or the wanted side; the loops keep running
+    async function openStream() {
+        if (!video) return;
+        const request = ++streamRequest;
+        // Release first: most phones can't open two cameras at once
+        releaseStream();
+        const facing = wantedFacing();
+        let next: MediaStream;
+        try {
+            next = await navigator.mediaDevices.getUserMedia({
+                video: videoConstraints(state.selectedCameraId, facing),
+                audio: false,
+            });
+        } catch (e) {
+            if (request !== streamRequest) return;
+            throw e;
+        }
+        if (request !== streamRequest || !video) {
+            next.getTracks().forEach((t) => t.stop());
+            return;
+        }
+        stream = next;
+        video.srcObject = next;
+        const track = next.getVideoTracks()[0];
+        const settings = track?.getSettings() ?? {};
+        setState({
+            cameraId: settings.deviceId ?? null,
+            facing: isFacing(settings.facingMode) ? settings.facingMode : null,
+            torchAvailable: hasTorch(track),
+            torch: false,
+        });
+        await video.play();
+        // Labels are only exposed once access was granted
+        refreshCameras();
+    }
+
+    function releaseStream() {
+        if (stream) {
+            stream.getTracks().forEach((t) => t.stop());
+            stream = null;
+        }
+    }
+
+    // Switch cameras on a running session; an unavailable device falls back to automatic selection
+    async function renegotiate() {
+        if (!started) return;
+        try {
+            await openStream();
+        } catch (e: unknown) {
+            if (state.selectedCameraId) {
+                setState({ selectedCameraId: null });
+                return renegotiate();
+            }
+            const err = e instanceof Error ? e : new Error('Camera switch failed');
+            setState({ isStreaming: false });
+            fail(cameraErrorReason(err), err);
+        }
+    }
+
+    async function refreshCameras() {
+        try {
+            const cameras = await listCameras();
+            const same =
+                cameras.length === state.cameras.length &&
+                cameras.every((c, i) => c.deviceId === state.cameras[i].deviceId && c.label === state.cameras[i].label);
+            if (!same) setState({ cameras });
+        } catch {
+            /* enumerateDevices unavailable */
+        }
+        return state.cameras;
+    }
+
+    async function setTorch(on: boolean) {
+        const track = stream?.getVideoTracks()[0];
+        if (!track || !state.torchAvailable) return false;
+        try {
+            await applyTorch(track, on);
+            setState({ torch: on });
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
+    function stop() {
+        if (raf) {
+            cancelAnimationFrame(raf);
+            raf = null;
+        }
+        tickLoop++;
+        if (detectionTimer) {
+            window.clearTimeout(detectionTimer);
+            detectionTimer = null;
+        }
+        if (autoCaptureTimer) {
+            window.clearTimeout(autoCaptureTimer);
+            autoCaptureTimer = null;
+        }
+        // Drop any getUserMedia still in flight
+        started = false;
+        streamRequest++;
+        releaseStream();
+        navigator.mediaDevices?.removeEventListener?.('devicechange', refreshCameras);
+        setState({ isStreaming: false, capturePending: false, captureAt: null, guidance: null, torch: false });
+    }
+
+    function reset() {
+        stop();
+        // Fresh built-in detectors so a failed model load is retried
+        builtins = null;
+        preparedFace = null;
+        faceModelsError = null;
+        lastFaceBox = null;
+        lastFaceScore = 0;
+        lastCard = null;
+        lastFaceFrame = null;
+        lastCardEstimate = null;
+        cardShape.reset();
+        faceShape.reset();
+        mapping = null;
+        setState(initialState(config));
+        resetLiveness();
+    }
+
+    applyLivenessConfig();
+    applyRecordingConfig();
+
+    return {
+        start,
+        stop,
+        capture,
+        captureImage,
+        pause,
+        resume,
+        reset,
+        setOverlay(mode) {
+            const before = wantedFacing();
+            if (mode !== state.overlay) {
+                lastFaceFrame = null;
+                lastCardEstimate = null;
+            }
+            setState({ overlay: mode });
+            resetLiveness();
+            if (mode === 'face' && faceModelsError) fail('model-load-failed', faceModelsError);
+            // Only with a choice of cameras: a single webcam would just flicker
+            if (!state.selectedCameraId && wantedFacing() !== before && state.cameras.length > 1) renegotiate();
+        },
+        listCameras: refreshCameras,
+        selectCamera(deviceId) {
+            if (deviceId === state.selectedCameraId) return Promise.resolve();
+            setState({ selectedCameraId: deviceId });
+            return renegotiate();
+        },
+        setTorch,
+        configure(next) {
+            const previous = config;
+            config = { ...config, ...stripUndefined(next) };
+            // Recreating the tracker drops progress, so only do it on a real change
+            if (JSON.stringify(previous.liveness) !== JSON.stringify(config.liveness)) applyLivenessConfig();
+            // Same for recorded frames
+            if (JSON.stringify(previous.record) !== JSON.stringify(config.record)) applyRecordingConfig();
+            if (previous.cameraDeviceId !== config.cameraDeviceId) {
+                setState({ selectedCameraId: config.cameraDeviceId });
+                renegotiate();
+            } else if (previous.cameraFacing !== config.cameraFacing && !state.selectedCameraId) {
+                renegotiate();
+            }
+            if (!config.detectionWorker && worker) {
+                worker.dispose();
+                worker = null;
+            }
+        },
+        track,
+        getSessionId: currentSessionId,
+        getRecording() {
+            if (!recorder) return null;
+            return {
+                version: 1,
+                createdAt: new Date().toISOString(),
+                userAgent: navigator.userAgent,
+                document: documentProfile(),
+                cardDetectors: cardDetectors().flatMap((d) => (d.spec ? [d.spec] : [])),
+                qualityChecks: workerQualitySpecs(),
+                frames: recorder.frames(),
+            };
+        },
+        clearRecording() {
+            recorder?.clear();
+        },
+        getState() {
+            return state;
+        },
+        on(type, listener) {
+            return emitter.on(type, listener);
+        },
+        destroy() {
+            stop();
+            // Only the detectors the session built: caller-supplied ones may outlive it (StrictMode remounts)
+            [...(builtins?.card ?? []), builtins?.face].forEach((d) => d?.dispose?.());
+            builtins = null;
+            preparedFace = null;
+            worker?.dispose();
+            worker = null;
+            emitter.clear();
+            video = null;
+            canvas = null;
+        },
+    };
+}
+
+function initialState({ initialOverlay, cameraDeviceId }: Required<IdCheckSessionOptions>): IdCheckSessionState {
+    return {
+        overlay: initialOverlay,
+        isStreaming: false,
+        faceInside: false,
+        cardOk: false,
+        capturePending: false,
+        paused: false,
+        quality: null,
+        liveness: null,
+        captureAt: null,
+        guidance: null,
+        error: null,
+        cameras: [],
+        selectedCameraId: cameraDeviceId,
+        cameraId: null,
+        facing: null,
+        torchAvailable: false,
+        torch: false,
+    };
+}
+
+function isFacing(value: string | undefined): value is CameraFacing {
+    return value === 'user' || value === 'environment';
+}
+
+// getUserMedia DOMException names -> outcome
+function cameraErrorReason(err: Error): CaptureErrorReason {
+    switch (err.name) {
+        case 'NotAllowedError':
+        case 'SecurityError':
+            return 'permission-denied';
+        default:
+            return 'no-camera';
+    }
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality: number) {
+    return new Promise<Blob>((resolve, reject) => {
+        canvas.toBlob((b) => (b ? resolve(b) : reject(new Error('Canvas encoding failed'))), type, quality);
+    });
+}
+
+function stripUndefined<T extends object>(o: T): Partial<T> {
+    return Object.fromEntries(Object.entries(o).filter(([, v]) => v !== undefined)) as Partial<T>;
+}
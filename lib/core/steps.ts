@@ -0,0 +1,17 @@
+import { resolveDocumentProfile, type DocumentFormat, type DocumentProfile } from './documents';
+import type { CaptureStep } from './types';
+
+// Default onboarding sequence, matching the images the verification workflow expects.
+// Titles and instructions come from the `step.<id>.*` messages.
+export const DEFAULT_CAPTURE_STEPS: CaptureStep[] = [
+    { id: 'card-front', mode: 'card' },
+    { id: 'card-back', mode: 'card' },
+    { id: 'selfie', mode: 'face' },
+];
+
+/** DEFAULT_CAPTURE_STEPS for a document: front (+ back when it has two sides), then the selfie */
+export function captureStepsForDocument(profile: DocumentFormat | DocumentProfile): CaptureStep[] {
+    return resolveDocumentProfile(profile).sides === 2
+        ? DEFAULT_CAPTURE_STEPS
+        : DEFAULT_CAPTURE_STEPS.filter((step) => step.id !== 'card-back');
+}
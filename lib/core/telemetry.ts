@@ -0,0 +1,200 @@
+import type { CameraFacing } from './camera';
+import type { CaptureErrorReason, CaptureTrigger, OverlayMode } from './types';
+
+// === Session telemetry ===
+// Typed events the capture engine reports through `onEvent` (and the `telemetry` session event),
+// and an aggregator folding them into one summary per session id. Events carry no image data.
+
+/** 'idle': not streaming or paused (review, between steps); 'searching': white guide; 'detected': blue guide */
+export type DetectionStatus = 'idle' | 'searching' | 'detected';
+
+export type TelemetryEventInput =
+    | { type: 'session-start'; overlay: OverlayMode; autoCapture: boolean }
+    | {
+          type: 'camera-ready';
+          cameraId: string | null;
+          facing: CameraFacing | null;
+          /** From start() to the first played frame */
+          timeToFirstFrameMs: number;
+      }
+    | { type: 'model-loaded'; kind: 'face' | 'card'; model: string; durationMs: number }
+    | { type: 'model-failed'; kind: 'face' | 'card'; model: string; durationMs: number; message: string }
+    | { type: 'detection-change'; mode: OverlayMode; status: DetectionStatus }
+    /** The card detector that answered changed; `fallback` when it isn't the first of the cascade */
+    | { type: 'card-detector'; detector: string; fallback: boolean }
+    /** Quality gates failing while the subject is in the guide (reported when the failing set changes) */
+    | { type: 'quality-failed'; mode: OverlayMode; checks: string[] }
+    | { type: 'capture'; mode: OverlayMode; trigger: CaptureTrigger }
+    /** Reported by the UI: a capture was rejected in review */
+    | { type: 'retake'; mode: OverlayMode }
+    | { type: 'error'; reason: CaptureErrorReason; message: string }
+    /** Reported by the UI: the outcome status passed to onCapture / onComplete */
+    | { type: 'close'; status: string };
+
+export type TelemetryEventType = TelemetryEventInput['type'];
+
+export type TelemetryEvent = TelemetryEventInput & {
+    sessionId: string;
+    /** Epoch milliseconds */
+    timestamp: number;
+};
+
+export interface TelemetrySummary {
+    sessionId: string;
+    /** Epoch ms of session-start (null when the session was never started, e.g. upload only) */
+    startedAt: number | null;
+    /** Epoch ms of the last event */
+    lastEventAt: number;
+    /** session-start to close (or to the last event while open) */
+    durationMs: number;
+    timeToFirstFrameMs: number | null;
+    /** Time spent detecting with a white guide (subject not found or not framed) */
+    guideSearchingMs: number;
+    /** Time spent detecting with a blue guide */
+    guideDetectedMs: number;
+    /** Times the guide turned blue */
+    detections: number;
+    /** Load time per model that loaded */
+    modelLoadMs: Record<string, number>;
+    /** Models that failed to load */
+    modelFailures: string[];
+    /** Times a card detector other than the first of the cascade answered (e.g. OpenCV unavailable) */
+    cardDetectorFallbacks: number;
+    /** Failure count per quality check */
+    qualityFailures: Record<string, number>;
+    captures: Record<CaptureTrigger, number>;
+    retakes: number;
+    errors: CaptureErrorReason[];
+    /** null while the session is open */
+    closeStatus: string | null;
+    events: number;
+}
+
+export interface TelemetryAggregator {
+    /** Feed one event; pass it as `onEvent` directly */
+    handle(event: TelemetryEvent): void;
+    /** Summary of one session, null when no event was seen for it */
+    summary(sessionId: string): TelemetrySummary | null;
+    /** Summaries of every session seen, oldest first */
+    summaries(): TelemetrySummary[];
+    clear(): void;
+}
+
+/** Random session id (UUID where available) */
+export function createSessionId() {
+    if (typeof crypto !== 'undefined' && typeof crypto.randomUUID === 'function') return crypto.randomUUID();
+    return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+function emptySummary(sessionId: string, timestamp: number): TelemetrySummary {
+    return {
+        sessionId,
+        startedAt: null,
+        lastEventAt: timestamp,
+        durationMs: 0,
+        timeToFirstFrameMs: null,
+        guideSearchingMs: 0,
+        guideDetectedMs: 0,
+        detections: 0,
+        modelLoadMs: {},
+        modelFailures: [],
+        cardDetectorFallbacks: 0,
+        qualityFailures: {},
+        captures: { manual: 0, auto: 0, upload: 0 },
+        retakes: 0,
+        errors: [],
+        closeStatus: null,
+        events: 0,
+    };
+}
+
+interface SessionEntry {
+    summary: TelemetrySummary;
+    firstEventAt: number;
+    detection: { status: DetectionStatus; since: number };
+}
+
+export function createTelemetryAggregator(): TelemetryAggregator {
+    const sessions = new Map<string, SessionEntry>();
+
+    // Time in the previous detection status goes to its bucket
+    function settleDetection(entry: SessionEntry, at: number) {
+        const { summary, detection } = entry;
+        const elapsed = Math.max(0, at - detection.since);
+        if (detection.status === 'searching') summary.guideSearchingMs += elapsed;
+        else if (detection.status === 'detected') summary.guideDetectedMs += elapsed;
+        detection.since = at;
+    }
+
+    return {
+        handle(event) {
+            let entry = sessions.get(event.sessionId);
+            if (!entry) {
+                entry = {
+                    summary: emptySummary(event.sessionId, event.timestamp),
+                    firstEventAt: event.timestamp,
+                    detection: { status: 'idle', since: event.timestamp },
+                };
+                sessions.set(event.sessionId, entry);
+            }
+            const { summary } = entry;
+            summary.events++;
+            summary.lastEventAt = event.timestamp;
+
+            switch (event.type) {
+                case 'session-start':
+                    summary.startedAt = event.timestamp;
+                    break;
+                case 'camera-ready':
+                    summary.timeToFirstFrameMs ??= event.timeToFirstFrameMs;
+                    break;
+                case 'model-loaded':
+                    summary.modelLoadMs[event.model] = event.durationMs;
+                    break;
+                case 'model-failed':
+                    if (!summary.modelFailures.includes(event.model)) summary.modelFailures.push(event.model);
+                    break;
+                case 'detection-change':
+                    settleDetection(entry, event.timestamp);
+                    if (event.status === 'detected' && entry.detection.status !== 'detected') summary.detections++;
+                    entry.detection.status = event.status;
+                    break;
+                case 'card-detector':
+                    if (event.fallback) summary.cardDetectorFallbacks++;
+                    break;
+                case 'quality-failed':
+                    event.checks.forEach((c) => {
+                        summary.qualityFailures[c] = (summary.qualityFailures[c] ?? 0) + 1;
+                    });
+                    break;
+                case 'capture':
+                    summary.captures[event.trigger]++;
+                    break;
+                case 'retake':
+                    summary.retakes++;
+                    break;
+                case 'error':
+                    summary.errors.push(event.reason);
+                    break;
+                case 'close':
+                    settleDetection(entry, event.timestamp);
+                    entry.detection.status = 'idle';
+                    summary.closeStatus = event.status;
+                    break;
+            }
+            // Events after close (the session winding down) don't extend it
+            if (event.type === 'close' || summary.closeStatus === null)
+                summary.durationMs = event.timestamp - (summary.startedAt ?? entry.firstEventAt);
+        },
+        summary(sessionId) {
+            const entry = sessions.get(sessionId);
+            return entry ? structuredClone(entry.summary) : null;
+        },
+        summaries() {
+            return [...sessions.values()].map((e) => structuredClone(e.summary));
+        },
+        clear() {
+            sessions.clear();
+        },
+    };
+}
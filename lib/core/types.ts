@@ -0,0 +1,81 @@
+import type { Barcode } from '../barcode/read';
+import type { CroppedImage } from './cardCrop';
+import type { CardDetectorKind } from './cardDetection';
+import type { Box, Point } from './geometry';
+import type { LivenessResult } from './liveness';
+import type { QualityReport } from './quality';
+
+export type OverlayMode = 'face' | 'card';
+
+/** Still image accepted by the post-capture helpers (Blob, URL/data URL, or element) */
+export type ImageInput = Blob | string | HTMLImageElement | HTMLCanvasElement;
+
+/** `upload`: still image from the camera-less fallback (see IdCheckSession.captureImage) */
+export type CaptureTrigger = 'manual' | 'auto' | 'upload';
+
+export type FaceDetection = {
+    mode: 'face';
+    /** Last face box from the detector, in captured image pixels */
+    box: Box | null;
+};
+
+export type CardDetection = {
+    mode: 'card';
+    /** Card corners in captured image pixels (clockwise from top-left) */
+    quad: Point[] | null;
+    /** Which detector produced the quad; null if no card was detected yet */
+    detector: CardDetectorKind | null;
+};
+
+export interface CaptureResult {
+    /** JPEG image (no overlay, not mirrored) */
+    blob: Blob;
+    /** Same image as a JPEG data URL */
+    dataUrl: string;
+    width: number;
+    height: number;
+    mode: OverlayMode;
+    /** Native resolution of the camera stream the image was taken from (or of the uploaded image) */
+    videoWidth: number;
+    videoHeight: number;
+    detection: FaceDetection | CardDetection;
+    /** Card mode: perspective-corrected crop of the detected card at the document aspect (null if unavailable) */
+    cardImage: CroppedImage | null;
+    /** Card mode with `barcodes` enabled: decoded 2D codes, AAMVA fields included (null when not read) */
+    barcodes: Barcode[] | null;
+    /** Quality scores of the ROI at capture time (null when no checks ran) */
+    quality: QualityReport | null;
+    /** Face mode with liveness enabled: challenge results and score at capture time (null for uploads) */
+    liveness: LivenessResult | null;
+    /** Epoch milliseconds */
+    timestamp: number;
+    trigger: CaptureTrigger;
+}
+
+/** `capture-failed` (the frame could not be encoded) is transient: the session resumes and the user can retry */
+export type CaptureErrorReason = 'permission-denied' | 'no-camera' | 'model-load-failed' | 'capture-failed';
+
+export interface CaptureError {
+    reason: CaptureErrorReason;
+    error: Error;
+}
+
+export type CaptureOutcome =
+    | { status: 'captured'; result: CaptureResult }
+    | { status: 'cancelled' }
+    | { status: CaptureErrorReason; error: Error };
+
+export interface CaptureStep {
+    /** Key of this step's image in the flow result */
+    id: string;
+    mode: OverlayMode;
+    /** Short label shown in the step bar (default: `step.<id>.title` message) */
+    title?: string;
+    /** Instruction shown while this step is being captured (default: `step.<id>.instruction` message) */
+    instruction?: string;
+}
+
+export type CaptureFlowOutcome =
+    | { status: 'completed'; results: Record<string, CaptureResult> }
+    | { status: 'cancelled' }
+    | { status: CaptureErrorReason; error: Error };
@@ -0,0 +1,32 @@
+import { useCallback, useEffect, useRef, useState, useSyncExternalStore } from 'react';
+import { createIdCheckSession, type IdCheckSessionOptions } from '../core/session';
+
+// Binds one capture engine to a component: creates it once, mirrors its state
+// into React, and starts/stops the camera with `isOpen`.
+export function useIdCheckSession(options: IdCheckSessionOptions, isOpen: boolean) {
+    const [session] = useState(() => createIdCheckSession(options));
+    const state = useSyncExternalStore(
+        useCallback((notify) => session.on('state', notify), [session]),
+        session.getState,
+    );
+
+    const videoRef = useRef<HTMLVideoElement | null>(null);
+    const canvasRef = useRef<HTMLCanvasElement | null>(null);
+
+    // Options may change on every render; configure() only merges them
+    useEffect(() => {
+        session.configure(options);
+    });
+
+    useEffect(() => () => session.destroy(), [session]);
+
+    useEffect(() => {
+        if (!isOpen) return;
+        const video = videoRef.current;
+        const canvas = canvasRef.current;
+        if (video && canvas) session.start(video, canvas);
+        return () => session.stop();
+    }, [isOpen, session]);
+
+    return { session, state, videoRef, canvasRef };
+}
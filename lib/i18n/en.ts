@@ -0,0 +1,74 @@
+import type { Messages } from './messages';
+
+export const en: Messages = {
+    close: 'Close',
+    capture: 'Capture',
+    startingCamera: 'Starting camera…',
+    overlayFace: 'Face',
+    overlayCard: 'Card',
+    retake: 'Retake',
+    continue: 'Continue',
+    finish: 'Finish',
+    usePhoto: 'Use photo',
+    reviewTitle: 'Check that the photo is sharp and readable',
+    zoomIn: 'Zoom',
+    zoomOut: 'Fit',
+    stepProgress: 'Step {current} / {total}',
+    camera: 'Camera',
+    cameraAuto: 'Automatic',
+    cameraFallback: 'Camera {index}',
+    torchOn: 'Turn flash on',
+    torchOff: 'Turn flash off',
+
+    'quality.sharpness': 'Sharpness',
+    'quality.glare': 'Glare',
+    'quality.exposure': 'Exposure',
+
+    'upload.title': 'Camera unavailable: upload a photo instead',
+    'upload.choose': 'Choose a photo',
+    'upload.drop': 'or drop an image here',
+    'upload.processing': 'Analyzing…',
+    'upload.failed': 'This file could not be read. Choose a JPEG or PNG photo.',
+
+    'verification.trust': 'Trust score',
+    'verification.faceSimilarity': 'Face similarity',
+    'verification.noFaceMatch': 'No face match',
+    'verification.causes': 'Checks',
+    'verification.verdict.accept': 'Accepted',
+    'verification.verdict.reject': 'Rejected',
+    'verification.verdict.manual-review': 'Manual review needed',
+
+    'guidance.no-face': 'Place your face inside the outline',
+    'guidance.face-move-closer': 'Move closer',
+    'guidance.face-move-back': 'Move back a little',
+    'guidance.face-not-centered': 'Center your face in the outline',
+    'guidance.no-card': 'Place your card inside the frame',
+    'guidance.card-move-closer': 'Move the card closer',
+    'guidance.card-not-in-frame': 'Card not fully in frame',
+    'guidance.card-align': 'Align the card with the frame',
+    'guidance.too-dark': 'Too dark, find more light',
+    'guidance.too-bright': 'Too bright, avoid direct light',
+    'guidance.glare': 'Tilt the card to avoid reflections',
+    'guidance.hold-still': 'Hold still',
+    'guidance.liveness-blink': 'Blink your eyes',
+    'guidance.liveness-turn-left': 'Slowly turn your head to the left',
+    'guidance.liveness-turn-right': 'Slowly turn your head to the right',
+    'guidance.liveness-smile': 'Smile',
+    'guidance.countdown': 'Hold still… {seconds}',
+
+    'error.NotAllowedError': 'Camera access was denied. Allow the camera in your browser settings and try again.',
+    'error.NotFoundError': 'No camera was found on this device.',
+    'error.NotReadableError': 'The camera is already in use by another application.',
+    'error.OverconstrainedError': 'Your camera does not support the required resolution.',
+    'error.noCameraApi': 'This browser does not support camera access.',
+    'error.modelLoadFailed': 'Face detection could not be loaded. Check your connection and try again.',
+    'error.captureFailed': 'The photo could not be taken. Please try again.',
+    'error.unknown': 'Camera access failed. Check permissions.',
+
+    'step.card-front.title': 'Card front',
+    'step.card-front.instruction': 'Place the front of your ID card inside the frame',
+    'step.card-back.title': 'Card back',
+    'step.card-back.instruction': 'Turn your card over and place the back inside the frame',
+    'step.selfie.title': 'Selfie',
+    'step.selfie.instruction': 'Hold your ID card next to your face and look at the camera',
+};
@@ -0,0 +1,75 @@
+import type { Messages } from './messages';
+
+export const fr: Messages = {
+    close: 'Fermer',
+    capture: 'Capturer',
+    startingCamera: 'Démarrage de la caméra…',
+    overlayFace: 'Visage',
+    overlayCard: 'Carte',
+    retake: 'Reprendre',
+    continue: 'Continuer',
+    finish: 'Terminer',
+    usePhoto: 'Utiliser la photo',
+    reviewTitle: 'Vérifiez que la photo est nette et lisible',
+    zoomIn: 'Zoomer',
+    zoomOut: 'Ajuster',
+    stepProgress: 'Étape {current} / {total}',
+    camera: 'Caméra',
+    cameraAuto: 'Automatique',
+    cameraFallback: 'Caméra {index}',
+    torchOn: 'Allumer le flash',
+    torchOff: 'Éteindre le flash',
+
+    'quality.sharpness': 'Netteté',
+    'quality.glare': 'Reflets',
+    'quality.exposure': 'Exposition',
+
+    'upload.title': 'Caméra indisponible : importez une photo',
+    'upload.choose': 'Choisir une photo',
+    'upload.drop': 'ou déposez une image ici',
+    'upload.processing': 'Analyse…',
+    'upload.failed': 'Ce fichier est illisible. Choisissez une photo JPEG ou PNG.',
+
+    'verification.trust': 'Score de confiance',
+    'verification.faceSimilarity': 'Similarité du visage',
+    'verification.noFaceMatch': 'Aucune correspondance de visage',
+    'verification.causes': 'Contrôles',
+    'verification.verdict.accept': 'Accepté',
+    'verification.verdict.reject': 'Refusé',
+    'verification.verdict.manual-review': 'Vérification manuelle requise',
+
+    'guidance.no-face': 'Placez votre visage dans le contour',
+    'guidance.face-move-closer': 'Rapprochez-vous',
+    'guidance.face-move-back': 'Reculez un peu',
+    'guidance.face-not-centered': 'Centrez votre visage dans le contour',
+    'guidance.no-card': 'Placez votre carte dans le cadre',
+    'guidance.card-move-closer': 'Rapprochez la carte',
+    'guidance.card-not-in-frame': 'La carte dépasse du cadre',
+    'guidance.card-align': 'Alignez la carte avec le cadre',
+    'guidance.too-dark': 'Trop sombre, cherchez plus de lumière',
+    'guidance.too-bright': 'Trop lumineux, évitez la lumière directe',
+    'guidance.glare': 'Inclinez la carte pour éviter les reflets',
+    'guidance.hold-still': 'Ne bougez plus',
+    'guidance.liveness-blink': 'Clignez des yeux',
+    'guidance.liveness-turn-left': 'Tournez lentement la tête vers la gauche',
+    'guidance.liveness-turn-right': 'Tournez lentement la tête vers la droite',
+    'guidance.liveness-smile': 'Souriez',
+    'guidance.countdown': 'Ne bougez plus… {seconds}',
+
+    'error.NotAllowedError':
+        "L'accès à la caméra a été refusé. Autorisez la caméra dans les réglages du navigateur puis réessayez.",
+    'error.NotFoundError': 'Aucune caméra détectée sur cet appareil.',
+    'error.NotReadableError': 'La caméra est déjà utilisée par une autre application.',
+    'error.OverconstrainedError': 'Votre caméra ne prend pas en charge la résolution requise.',
+    'error.noCameraApi': "Ce navigateur ne permet pas l'accès à la caméra.",
+    'error.modelLoadFailed': "La détection du visage n'a pas pu être chargée. Vérifiez votre connexion et réessayez.",
+    'error.captureFailed': "La photo n'a pas pu être prise. Veuillez réessayer.",
+    'error.unknown': "Impossible d'accéder à la caméra. Vérifiez les autorisations.",
+
+    'step.card-front.title': 'Recto',
+    'step.card-front.instruction': "Placez le recto de votre pièce d'identité dans le cadre",
+    'step.card-back.title': 'Verso',
+    'step.card-back.instruction': 'Retournez votre carte et placez le verso dans le cadre',
+    'step.selfie.title': 'Selfie',
+    'step.selfie.instruction': "Tenez votre pièce d'identité à côté de votre visage et regardez la caméra",
+};
@@ -0,0 +1,19 @@
+import { en } from './en';
+import { fr } from './fr';
+import type { Messages } from './messages';
+
+export { describeError, formatGuidance, formatMessage } from './messages';
+export type { CameraErrorName, DefaultStepId, MessageKey, Messages } from './messages';
+export { en, fr };
+
+export const BUILTIN_MESSAGES: Record<string, Messages> = { en, fr };
+
+/**
+ * Dictionary for `locale` (e.g. 'fr', 'fr-CA'; default: the browser language),
+ * falling back to English, with `overrides` applied on top.
+ */
+export function resolveMessages(locale?: string, overrides: Partial<Messages> = {}): Messages {
+    const tag = (locale ?? (typeof navigator !== 'undefined' ? navigator.language : 'en')).toLowerCase();
+    const base = BUILTIN_MESSAGES[tag] ?? BUILTIN_MESSAGES[tag.split('-')[0]] ?? en;
+    return { ...base, ...overrides };
+}
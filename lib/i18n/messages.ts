@@ -0,0 +1,84 @@
+import type { GuidanceHint, GuidanceKey } from '../core/guidance';
+import type { QualityCheckSpec } from '../core/quality';
+import type { CaptureError } from '../core/types';
+import type { VerificationVerdict } from '../verification';
+
+// Typed UI dictionary. Placeholders use `{name}` (see formatMessage).
+
+/** getUserMedia DOMException names with a dedicated message */
+export type CameraErrorName = 'NotAllowedError' | 'NotFoundError' | 'NotReadableError' | 'OverconstrainedError';
+
+/** Ids of DEFAULT_CAPTURE_STEPS, whose title/instruction come from the dictionary */
+export type DefaultStepId = 'card-front' | 'card-back' | 'selfie';
+
+export type MessageKey =
+    | 'close'
+    | 'capture'
+    | 'startingCamera'
+    | 'overlayFace'
+    | 'overlayCard'
+    | 'retake'
+    | 'continue'
+    | 'finish'
+    | 'usePhoto'
+    | 'reviewTitle'
+    | 'zoomIn'
+    | 'zoomOut'
+    | `quality.${QualityCheckSpec['type']}`
+    | 'upload.title'
+    | 'upload.choose'
+    | 'upload.drop'
+    | 'upload.processing'
+    | 'upload.failed'
+    | 'stepProgress'
+    | 'camera'
+    | 'cameraAuto'
+    | 'cameraFallback'
+    | 'torchOn'
+    | 'torchOff'
+    | 'verification.trust'
+    | 'verification.faceSimilarity'
+    | 'verification.noFaceMatch'
+    | 'verification.causes'
+    | `verification.verdict.${VerificationVerdict}`
+    | `guidance.${GuidanceKey}`
+    | `error.${CameraErrorName}`
+    | 'error.noCameraApi'
+    | 'error.modelLoadFailed'
+    | 'error.captureFailed'
+    | 'error.unknown'
+    | `step.${DefaultStepId}.title`
+    | `step.${DefaultStepId}.instruction`;
+
+export type Messages = Record<MessageKey, string>;
+
+export function formatMessage(template: string, params: Record<string, string | number> = {}) {
+    return template.replace(/\{(\w+)\}/g, (m, name: string) => (name in params ? String(params[name]) : m));
+}
+
+export function formatGuidance(hint: GuidanceHint, messages: Messages) {
+    return formatMessage(messages[`guidance.${hint.key}`], { seconds: hint.seconds ?? '' });
+}
+
+/** Human-readable message for a session error, instead of the browser-specific text */
+export function describeError(err: CaptureError, messages: Messages) {
+    if (err.reason === 'model-load-failed') return messages['error.modelLoadFailed'];
+    if (err.reason === 'capture-failed') return messages['error.captureFailed'];
+    switch (err.error.name) {
+        case 'NotAllowedError':
+        case 'SecurityError':
+            return messages['error.NotAllowedError'];
+        case 'NotFoundError':
+        case 'DevicesNotFoundError':
+            return messages['error.NotFoundError'];
+        case 'NotReadableError':
+        case 'TrackStartError':
+            return messages['error.NotReadableError'];
+        case 'OverconstrainedError':
+            return messages['error.OverconstrainedError'];
+        case 'NotSupportedError':
+            return messages['error.noCameraApi'];
+        default:
+            return messages['error.unknown'];
+    }
+}
@@ -1 +1,203 @@
-export { LightIdCheck } from './components/LightIdCheck';
\ No newline at end of file
+export { LightIdCheck } from './components/LightIdCheck';
+export type { LightIdCheckProps, OverlayMode } from './components/LightIdCheck';
+export { LightIdCheckFlow } from './components/LightIdCheckFlow';
+export type { LightIdCheckFlowProps } from './components/LightIdCheckFlow';
+export { VerificationResult } from './components/VerificationResult';
+export type { VerificationResultProps } from './components/VerificationResult';
+export { captureStepsForDocument, DEFAULT_CAPTURE_STEPS } from './core/steps';
+export { DOCUMENT_PROFILES, resolveDocumentProfile } from './core/documents';
+export type { DocumentFormat, DocumentProfile } from './core/documents';
+export { createIdCheckSession } from './core/session';
+export type {
+    IdCheckSession,
+    IdCheckSessionEvents,
+    IdCheckSessionOptions,
+    IdCheckSessionState,
+} from './core/session';
+export type {
+    CaptureError,
+    CaptureErrorReason,
+    CaptureFlowOutcome,
+    CaptureOutcome,
+    CaptureResult,
+    CaptureStep,
+    CaptureTrigger,
+    CardDetection,
+    FaceDetection,
+    ImageInput,
+} from './core/types';
+export { listCameras } from './core/camera';
+export type { CameraDevice, CameraFacing } from './core/camera';
+export {
+    HEURISTIC_WIDTH,
+    heuristicCardFromPixels,
+    OPENCV_WIDTH,
+    openCvCardFromPixels,
+} from './core/cardDetection';
+export type { CardDetectorKind, CardEstimate, HeuristicCardOptions, OpenCvCardOptions } from './core/cardDetection';
+export {
+    heuristicCardDetector,
+    openCvCardDetector,
+    ssdMobilenetFaceDetector,
+    tinyFaceDetector,
+} from './core/detectors';
+export type {
+    CardDetector,
+    CardDetectorSpec,
+    Detector,
+    DetectorFrame,
+    Detectors,
+    FaceDetector,
+    FaceEstimate,
+} from './core/detectors';
+export { cropCard, ID1_ASPECT } from './core/cardCrop';
+export type { CroppedImage } from './core/cardCrop';
+export type { Box, Point } from './core/geometry';
+export {
+    defaultQualityChecks,
+    evaluateQuality,
+    exposureCheck,
+    glareCheck,
+    laplacianVariance,
+    qualityCheckFromSpec,
+    sharpnessCheck,
+} from './core/quality';
+export type {
+    ExposureCheckOptions,
+    GlareCheckOptions,
+    QualityCheck,
+    QualityCheckResult,
+    QualityCheckSpec,
+    QualityReport,
+    SharpnessCheckOptions,
+} from './core/quality';
+export { computeGuidance, DEFAULT_GUIDANCE_THRESHOLDS } from './core/guidance';
+export type { GuidanceHint, GuidanceInput, GuidanceKey, GuidanceThresholds } from './core/guidance';
+export { DEFAULT_RECORDING_OPTIONS } from './core/recording';
+export type {
+    FrameLabels,
+    RecordedCard,
+    RecordedFace,
+    RecordedFrame,
+    RecordingOptions,
+    SessionRecording,
+} from './core/recording';
+export { createSessionId, createTelemetryAggregator } from './core/telemetry';
+export type {
+    DetectionStatus,
+    TelemetryAggregator,
+    TelemetryEvent,
+    TelemetryEventInput,
+    TelemetryEventType,
+    TelemetrySummary,
+} from './core/telemetry';
+export {
+    BUILTIN_MESSAGES,
+    describeError,
+    en,
+    formatGuidance,
+    formatMessage,
+    fr,
+    resolveMessages,
+} from './i18n';
+export type { CameraErrorName, DefaultStepId, MessageKey, Messages } from './i18n';
+export { createLivenessTracker, estimateYaw, eyeAspectRatio, pickChallenges } from './core/liveness';
+export type {
+    LivenessChallengeResult,
+    LivenessChallengeType,
+    LivenessFrame,
+    LivenessOptions,
+    LivenessResult,
+    LivenessTracker,
+} from './core/liveness';
+export {
+    checkAuthenticity,
+    DEFAULT_AUTHENTICITY_PENALTIES,
+    DEFAULT_AUTHENTICITY_THRESHOLDS,
+} from './core/authenticity';
+export type {
+    AuthenticityCheckName,
+    AuthenticityCheckResult,
+    AuthenticityOptions,
+    AuthenticityReport,
+    AuthenticityThresholds,
+} from './core/authenticity';
+export { ensureFaceMatchModels, matchCaptures, matchFaces } from './core/faceMatch';
+export type { FaceMatchOptions, FaceMatchResult, FaceMatchVerdict } from './core/faceMatch';
+export { isUploadError, N8N_FIELDS, submitVerification, withRetry } from './upload';
+export type {
+    PresignedUpload,
+    RetryOptions,
+    SubmitVerificationOptions,
+    UploadError,
+    UploadFile,
+    UploadProgress,
+    VerificationSubmission,
+} from './upload';
+export {
+    DEFAULT_VERIFICATION_THRESHOLDS,
+    faceSimilarity,
+    summarizeVerification,
+    validateVerificationResponse,
+    verificationVerdict,
+} from './verification';
+export type {
+    FaceMatch,
+    VerificationCause,
+    VerificationResponse,
+    VerificationSummary,
+    VerificationThresholds,
+    VerificationValidation,
+    VerificationVerdict,
+} from './verification';
+export {
+    detectMrzFormat,
+    findMrz,
+    locateMrzRegion,
+    mrzCheckDigit,
+    normalizeMrzLine,
+    parseMrz,
+    readMrz,
+} from './mrz';
+export type {
+    MrzCheck,
+    MrzField,
+    MrzFormat,
+    MrzParseOptions,
+    MrzReadOptions,
+    MrzReadResult,
+    MrzResult,
+    RgbaImage,
+} from './mrz';
+export { parseAamva, readBarcodes } from './barcode';
+export type {
+    AamvaAddress,
+    AamvaLicense,
+    AamvaSex,
+    Barcode,
+    BarcodeFormat,
+    BarcodeInput,
+    BarcodeReadOptions,
+} from './barcode';
+export {
+    ageOn,
+    DEFAULT_FIELD_PENALTIES,
+    DOCUMENT_NUMBER_FORMATS,
+    documentNumberFormats,
+    EU_MEMBER_STATES,
+    ICAO_SPECIAL_CODES,
+    ISO_3166_ALPHA3,
+    matchDocumentNumber,
+    normalizeDocumentNumber,
+    toAlpha3,
+    validateIdentityFields,
+} from './validation';
+export type {
+    DocumentNumberFormat,
+    FieldCheck,
+    FieldFinding,
+    FieldValidationOptions,
+    FieldValidationReport,
+    IdentityDocumentType,
+    IdentityFields,
+} from './validation';
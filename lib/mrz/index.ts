@@ -0,0 +1,6 @@
+export { locateMrzRegion } from './locate';
+export type { RgbaImage } from './locate';
+export { readMrz } from './ocr';
+export type { MrzReadOptions, MrzReadResult } from './ocr';
+export { detectMrzFormat, findMrz, mrzCheckDigit, normalizeMrzLine, parseMrz } from './parse';
+export type { MrzCheck, MrzField, MrzFormat, MrzParseOptions, MrzResult } from './parse';
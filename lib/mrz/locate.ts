@@ -0,0 +1,60 @@
+import type { Rect } from '../core/geometry';
+
+// === MRZ region locator ===
+// The MRZ is a band of 2-3 full-width text lines at the bottom of the document.
+// Rows are scored by horizontal contrast transitions; the lowest band of wide
+// "texty" rows wins. Pure: takes RGBA pixels, no DOM.
+
+export interface RgbaImage {
+    data: Uint8ClampedArray;
+    width: number;
+    height: number;
+}
+
+/** Fallback when no band is found: bottom 40% of the document */
+const FALLBACK_SHARE = 0.4;
+
+export function locateMrzRegion({ data, width: w, height: h }: RgbaImage): Rect {
+    const fallback = { x: 0, y: Math.round(h * (1 - FALLBACK_SHARE)), w, h: Math.round(h * FALLBACK_SHARE) };
+    if (w < 8 || h < 8) return fallback;
+
+    const lum = (i: number) => 0.299 * data[i] + 0.587 * data[i + 1] + 0.114 * data[i + 2];
+    const texty: boolean[] = new Array(h).fill(false);
+    for (let y = 0; y < h; y++) {
+        let transitions = 0,
+            first = -1,
+            last = -1;
+        let prev = lum(y * w * 4);
+        for (let x = 1; x < w; x++) {
+            const v = lum((y * w + x) * 4);
+            if (Math.abs(v - prev) > 40) {
+                transitions++;
+                if (first < 0) first = x;
+                last = x;
+            }
+            prev = v;
+        }
+        texty[y] = transitions / w > 0.04 && last - first > w * 0.6;
+    }
+
+    // Walk up from the bottom: skip the margin, then collect text rows, tolerating
+    // the gaps between MRZ lines, until a gap as tall as a few lines.
+    const maxGap = Math.max(2, Math.round(h * 0.04));
+    let bottom = -1,
+        top = -1,
+        gap = 0;
+    for (let y = h - 1; y >= h / 2; y--) {
+        if (texty[y]) {
+            if (bottom < 0) bottom = y;
+            top = y;
+            gap = 0;
+        } else if (bottom >= 0 && ++gap > maxGap) {
+            break;
+        }
+    }
+    if (bottom < 0 || bottom - top < h * 0.08) return fallback;
+
+    const margin = Math.round((bottom - top) * 0.15);
+    const y = Math.max(0, top - margin);
+    return { x: 0, y, w, h: Math.min(h, bottom + margin + 1) - y };
+}
@@ -0,0 +1,82 @@
+import { resolveDocumentProfile, type DocumentFormat, type DocumentProfile } from '../core/documents';
+import type { Rect } from '../core/geometry';
+import { loadImageCanvas } from '../core/image';
+import type { ImageInput } from '../core/types';
+import { locateMrzRegion } from './locate';
+import { findMrz, type MrzParseOptions, type MrzResult } from './parse';
+
+// === MRZ OCR (Tesseract.js, optional peer dependency) ===
+
+export interface MrzReadOptions extends MrzParseOptions {
+    /**
+     * Tesseract language; an OCR-B trained model (e.g. 'ocrb' or 'mrz' with `langPath`) reads better than 'eng'
+     * @default 'eng'
+     */
+    lang?: string;
+    /** Where to fetch `<lang>.traineddata` from (default: Tesseract.js CDN) */
+    langPath?: string;
+    /**
+     * MRZ region in image pixels, or 'auto' to locate it
+     * @default 'auto'
+     */
+    region?: Rect | 'auto';
+    /**
+     * Document being read (the session's `documentProfile`): only its `mrz` format is accepted,
+     * unless `format` is set. Profiles without an MRZ accept any format.
+     */
+    documentProfile?: DocumentFormat | DocumentProfile;
+}
+
+export interface MrzReadResult {
+    mrz: MrzResult | null;
+    /** Raw OCR text of the region */
+    text: string;
+    /** Region that was read, in image pixels */
+    region: Rect;
+    /** Tesseract mean confidence (0..100) */
+    confidence: number;
+}
+
+// OCR-B only uses these characters
+const MRZ_WHITELIST = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ0123456789<';
+// Tesseract is most reliable with ~30px glyphs: upscale the band to this width
+const OCR_WIDTH = 1400;
+
+/**
+ * Locate and OCR the MRZ on a document image (ideally the flat card crop,
+ * CaptureResult.cardImage) and parse it. Requires the `tesseract.js` package.
+ */
+export async function readMrz(image: ImageInput, options: MrzReadOptions = {}): Promise<MrzReadResult> {
+    const { lang = 'eng', langPath, region = 'auto', documentProfile, ...parseOptions } = options;
+    const profile = documentProfile && resolveDocumentProfile(documentProfile);
+    const format = parseOptions.format ?? profile?.mrz ?? undefined;
+    const canvas = await loadImageCanvas(image);
+    const ctx = canvas.getContext('2d', { willReadFrequently: true });
+    if (!ctx) throw new Error('2D canvas not available');
+
+    const roi = region === 'auto' ? locateMrzRegion(ctx.getImageData(0, 0, canvas.width, canvas.height)) : region;
+
+    // Grayscale, upscaled band
+    const band = document.createElement('canvas');
+    band.width = OCR_WIDTH;
+    band.height = Math.max(1, Math.round((OCR_WIDTH * roi.h) / roi.w));
+    const bctx = band.getContext('2d');
+    if (!bctx) throw new Error('2D canvas not available');
+    bctx.filter = 'grayscale(1) contrast(1.4)';
+    bctx.drawImage(canvas, roi.x, roi.y, roi.w, roi.h, 0, 0, band.width, band.height);
+
+    const { createWorker, PSM } = await import('tesseract.js');
+    const worker = await createWorker(lang, undefined, langPath ? { langPath } : {});
+    try {
+        await worker.setParameters({
+            tessedit_char_whitelist: MRZ_WHITELIST,
+            tessedit_pageseg_mode: PSM.SINGLE_BLOCK,
+            preserve_interword_spaces: '0',
+        });
+        const { data } = await worker.recognize(band);
+        const mrz = findMrz(data.text, { ...parseOptions, format });
+        return { mrz, text: data.text, region: roi, confidence: data.confidence };
+    } finally {
+        await worker.terminate();
+    }
+}
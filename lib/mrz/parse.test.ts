@@ -0,0 +1,166 @@
+import { describe, expect, it } from 'vitest';
+import { DOCUMENT_PROFILES } from '../core/documents';
+import { detectMrzFormat, findMrz, mrzCheckDigit, parseMrz } from './parse';
+
+// Specimens of ICAO Doc 9303 (parts 4, 5 and 6)
+const TD3 = ['P<UTOERIKSSON<<ANNA<MARIA<<<<<<<<<<<<<<<<<<<', 'L898902C36UTO7408122F1204159ZE184226B<<<<<10'];
+const TD2 = ['I<UTOERIKSSON<<ANNA<MARIA<<<<<<<<<<<', 'D231458907UTO7408122F1204159<<<<<<<6'];
+const TD1 = ['I<UTOD231458907<<<<<<<<<<<<<<<', '7408122F1204159UTO<<<<<<<<<<<6', 'ERIKSSON<<ANNA<MARIA<<<<<<<<<<'];
+
+const now = new Date('2025-06-01T00:00:00Z');
+
+// Replace the character at `index` of line `line`
+function tamper(lines: string[], line: number, index: number, c: string) {
+    return lines.map((l, i) => (i === line ? l.slice(0, index) + c + l.slice(index + 1) : l));
+}
+
+const invalidChecks = (lines: string[]) =>
+    parseMrz(lines, { now })
+        ?.checks.filter((c) => !c.valid)
+        .map((c) => c.field);
+
+describe('mrzCheckDigit', () => {
+    it.each([
+        ['L898902C3', 6],
+        ['740812', 2],
+        ['120415', 9],
+        ['ZE184226B<<<<<', 1],
+        ['D23145890', 7],
+        ['<<<<<<<<<', 0],
+    ])('%s -> %i', (value, digit) => {
+        expect(mrzCheckDigit(value)).toBe(digit);
+    });
+});
+
+describe('detectMrzFormat', () => {
+    it.each([
+        [TD1, 'TD1'],
+        [TD2, 'TD2'],
+        [TD3, 'TD3'],
+        [[TD3[0], TD3[1].slice(0, 43)], null],
+        [[...TD2, TD2[1]], null],
+    ])('%j -> %s', (lines, format) => {
+        expect(detectMrzFormat(lines)).toBe(format);
+    });
+});
+
+describe('parseMrz', () => {
+    it('parses the TD3 (passport) specimen', () => {
+        expect(parseMrz(TD3, { now })).toMatchObject({
+            format: 'TD3',
+            documentCode: 'P',
+            issuingState: 'UTO',
+            surname: 'ERIKSSON',
+            givenNames: 'ANNA MARIA',
+            documentNumber: 'L898902C3',
+            nationality: 'UTO',
+            birthDate: '1974-08-12',
+            sex: 'F',
+            expiryDate: '2012-04-15',
+            optionalData: 'ZE184226B',
+            valid: true,
+        });
+        expect(parseMrz(TD3, { now })?.checks.map((c) => c.field)).toEqual([
+            'documentNumber',
+            'birthDate',
+            'expiryDate',
+            'personalNumber',
+            'composite',
+        ]);
+    });
+
+    it('parses the TD2 specimen', () => {
+        expect(parseMrz(TD2, { now })).toMatchObject({
+            format: 'TD2',
+            documentCode: 'I',
+            issuingState: 'UTO',
+            surname: 'ERIKSSON',
+            givenNames: 'ANNA MARIA',
+            documentNumber: 'D23145890',
+            birthDate: '1974-08-12',
+            sex: 'F',
+            expiryDate: '2012-04-15',
+            optionalData: '',
+            valid: true,
+        });
+    });
+
+    it('parses the TD1 (ID card) specimen', () => {
+        expect(parseMrz(TD1, { now })).toMatchObject({
+            format: 'TD1',
+            documentCode: 'I',
+            issuingState: 'UTO',
+            surname: 'ERIKSSON',
+            givenNames: 'ANNA MARIA',
+            documentNumber: 'D23145890',
+            nationality: 'UTO',
+            birthDate: '1974-08-12',
+            sex: 'F',
+            expiryDate: '2012-04-15',
+            valid: true,
+        });
+    });
+
+    it('accepts a single string with spaces and lowercase', () => {
+        expect(parseMrz(TD3.join('\n').toLowerCase().replace(/<</g, '< <'), { now })?.valid).toBe(true);
+    });
+
+    it.each([
+        ['TD3 document number', tamper(TD3, 1, 3, '1'), ['documentNumber', 'composite']],
+        ['TD3 birth date', tamper(TD3, 1, 18, '3'), ['birthDate', 'composite']],
+        ['TD3 expiry check digit', tamper(TD3, 1, 27, '8'), ['expiryDate', 'composite']],
+        ['TD3 personal number', tamper(TD3, 1, 30, '9'), ['personalNumber', 'composite']],
+        ['TD3 composite check digit', tamper(TD3, 1, 43, '1'), ['composite']],
+        ['TD2 document number', tamper(TD2, 1, 1, '3'), ['documentNumber', 'composite']],
+        ['TD2 composite check digit', tamper(TD2, 1, 35, '5'), ['composite']],
+        ['TD1 document number', tamper(TD1, 0, 6, '3'), ['documentNumber', 'composite']],
+        ['TD1 expiry date', tamper(TD1, 1, 9, '3'), ['expiryDate', 'composite']],
+        ['TD1 composite check digit', tamper(TD1, 1, 29, '7'), ['composite']],
+    ])('flags a changed %s', (_, lines, fields) => {
+        expect(invalidChecks(lines)).toEqual(fields);
+        expect(parseMrz(lines, { now })?.valid).toBe(false);
+    });
+
+    it('fixes OCR confusions in numeric fields only', () => {
+        // O for 0 in the expiry date, Z for 2 in the birth date check digit
+        const misread = tamper(tamper(TD3, 1, 23, 'O'), 1, 19, 'Z');
+        // The alphanumeric document number keeps its letters
+        expect(parseMrz(misread, { now })).toMatchObject({
+            documentNumber: 'L898902C3',
+            expiryDate: '2012-04-15',
+            valid: true,
+        });
+        expect(parseMrz(misread, { now, correctOcr: false })?.valid).toBe(false);
+    });
+
+    it('puts birth years after the current one in the last century', () => {
+        const born2024 = tamper(tamper(TD3, 1, 13, '2'), 1, 14, '4');
+        expect(parseMrz(born2024, { now })?.birthDate).toBe('2024-08-12');
+        expect(parseMrz(born2024, { now: new Date('2023-01-01T00:00:00Z') })?.birthDate).toBe('1924-08-12');
+    });
+
+    it('returns null for other shapes or another format than asked', () => {
+        expect(parseMrz([TD3[0]])).toBeNull();
+        expect(parseMrz(TD3, { format: 'TD1' })).toBeNull();
+    });
+});
+
+describe('findMrz', () => {
+    it('finds the MRZ in OCR text with other lines and a dropped filler', () => {
+        const text = ['PASSPORT  PASSEPORT', 'Surname / Nom  ERIKSSON', TD3[0].slice(0, -1), TD3[1], ''].join('\n');
+        expect(findMrz(text, { now })).toMatchObject({ format: 'TD3', documentNumber: 'L898902C3', valid: true });
+    });
+
+    it('returns null without an MRZ', () => {
+        expect(findMrz('REPUBLIC OF UTOPIA\nIDENTITY CARD')).toBeNull();
+    });
+
+    it.each([
+        ['ID-1', null],
+        ['ID-2', 'TD2'],
+        ['ID-3', null],
+    ] as const)("only accepts the %s profile's format", (profile, format) => {
+        const result = findMrz(TD2.join('\n'), { now, format: DOCUMENT_PROFILES[profile].mrz ?? undefined });
+        expect(result?.format ?? null).toBe(format);
+    });
+});
@@ -0,0 +1,238 @@
+// === ICAO 9303 MRZ parsing (TD1, TD2, TD3) ===
+// Pure functions: no DOM, no OCR. Feed them the lines read from the document.
+
+export type MrzFormat = 'TD1' | 'TD2' | 'TD3';
+
+export type MrzField = 'documentNumber' | 'birthDate' | 'expiryDate' | 'personalNumber' | 'composite';
+
+export interface MrzCheck {
+    field: MrzField;
+    /** Check digit read from the MRZ */
+    expected: string;
+    /** Check digit computed from the field */
+    computed: number;
+    valid: boolean;
+}
+
+export interface MrzResult {
+    format: MrzFormat;
+    /** e.g. 'P', 'ID', 'I<' (trailing filler removed) */
+    documentCode: string;
+    issuingState: string;
+    documentNumber: string;
+    nationality: string;
+    /** ISO date (YYYY-MM-DD), null if the field is not a valid date */
+    birthDate: string | null;
+    expiryDate: string | null;
+    sex: 'M' | 'F' | 'X';
+    surname: string;
+    givenNames: string;
+    /** Personal number (TD3) or optional data (TD1/TD2), filler removed */
+    optionalData: string;
+    checks: MrzCheck[];
+    /** All check digits are valid */
+    valid: boolean;
+    /** Normalized MRZ lines the result was parsed from */
+    lines: string[];
+}
+
+export interface MrzParseOptions {
+    /**
+     * Fix common OCR confusions (O->0, I->1, ...) in numeric-only positions
+     * @default true
+     */
+    correctOcr?: boolean;
+    /** Reference date for the birth-date century (default: now) */
+    now?: Date;
+    /** Only accept this format (e.g. the document profile's `mrz`); default: any */
+    format?: MrzFormat;
+}
+
+const LINE_LENGTHS: Record<MrzFormat, [number, number]> = {
+    TD1: [3, 30],
+    TD2: [2, 36],
+    TD3: [2, 44],
+};
+
+const DIGIT_FIXES: Record<string, string> = {
+    O: '0',
+    Q: '0',
+    D: '0',
+    I: '1',
+    L: '1',
+    Z: '2',
+    S: '5',
+    G: '6',
+    B: '8',
+};
+
+/** ICAO 9303 check digit: weights 7-3-1, A-Z = 10..35, '<' = 0 */
+export function mrzCheckDigit(value: string) {
+    const weights = [7, 3, 1];
+    let sum = 0;
+    for (let i = 0; i < value.length; i++) {
+        const c = value[i];
+        let v = 0;
+        if (c >= '0' && c <= '9') v = c.charCodeAt(0) - 48;
+        else if (c >= 'A' && c <= 'Z') v = c.charCodeAt(0) - 55;
+        sum += v * weights[i % 3];
+    }
+    return sum % 10;
+}
+
+/** Uppercase, strip spaces and map lookalike fillers to '<' */
+export function normalizeMrzLine(line: string) {
+    return line
+        .toUpperCase()
+        .replace(/[«‹]/g, '<')
+        .replace(/\s+/g, '')
+        .replace(/[^A-Z0-9<]/g, '<');
+}
+
+export function detectMrzFormat(lines: string[]): MrzFormat | null {
+    for (const format of Object.keys(LINE_LENGTHS) as MrzFormat[]) {
+        const [count, length] = LINE_LENGTHS[format];
+        if (lines.length === count && lines.every((l) => l.length === length)) return format;
+    }
+    return null;
+}
+
+function digits(value: string, correct: boolean) {
+    return correct ? value.replace(/[A-Z]/g, (c) => DIGIT_FIXES[c] ?? c) : value;
+}
+
+function trimFiller(value: string) {
+    return value.replace(/<+$/g, '').replace(/</g, ' ').trim();
+}
+
+function parseNames(value: string) {
+    const [surname = '', ...rest] = value.replace(/<+$/, '').split('<<');
+    return { surname: surname.replace(/</g, ' ').trim(), givenNames: rest.join(' ').replace(/</g, ' ').trim() };
+}
+
+// YYMMDD -> YYYY-MM-DD; birth dates can't be in the future, expiry dates rarely predate 2000
+function parseDate(value: string, kind: 'birth' | 'expiry', now: Date) {
+    if (!/^\d{6}$/.test(value)) return null;
+    const yy = Number(value.slice(0, 2)),
+        mm = Number(value.slice(2, 4)),
+        dd = Number(value.slice(4, 6));
+    if (mm < 1 || mm > 12 || dd < 1 || dd > 31) return null;
+    const currentYY = now.getUTCFullYear() % 100;
+    const century = kind === 'birth' ? (yy > currentYY ? 1900 : 2000) : yy >= 70 ? 1900 : 2000;
+    const date = new Date(Date.UTC(century + yy, mm - 1, dd));
+    if (date.getUTCMonth() !== mm - 1) return null;
+    return date.toISOString().slice(0, 10);
+}
+
+function sexOf(c: string): MrzResult['sex'] {
+    return c === 'M' || c === 'F' ? c : 'X';
+}
+
+function check(field: MrzField, value: string, expected: string): MrzCheck {
+    const computed = mrzCheckDigit(value);
+    // '<' stands for 0 in an empty optional field
+    return { field, expected, computed, valid: String(computed) === (expected === '<' ? '0' : expected) };
+}
+
+/**
+ * Parse TD1 (3x30), TD2 (2x36) or TD3 (2x44) MRZ lines.
+ * Returns null if the lines don't match any format.
+ */
+export function parseMrz(input: string | string[], options: MrzParseOptions = {}): MrzResult | null {
+    const { correctOcr = true, now = new Date() } = options;
+    const raw = typeof input === 'string' ? input.split(/\r?\n/) : input;
+    const lines = raw.map(normalizeMrzLine).filter((l) => l.length > 0);
+    const format = detectMrzFormat(lines);
+    if (!format || (options.format && format !== options.format)) return null;
+    const d = (v: string) => digits(v, correctOcr);
+
+    let result: Omit<MrzResult, 'valid' | 'lines'>;
+    if (format === 'TD1') {
+        const [l1, l2, l3] = lines;
+        let documentNumber = l1.slice(5, 14);
+        let docCheck = l1.slice(14, 15);
+        let optional1 = l1.slice(15, 30);
+        // Long document numbers overflow into the optional field; the check digit
+        // is then the last character before the filler.
+        if (docCheck === '<') {
+            const overflow = optional1.replace(/<.*$/, '');
+            documentNumber += overflow.slice(0, -1);
+            docCheck = overflow.slice(-1);
+            optional1 = optional1.slice(overflow.length + 1);
+        }
+        const birth = d(l2.slice(0, 6)),
+            expiry = d(l2.slice(8, 14));
+        const composite = l1.slice(5, 30) + d(l2.slice(0, 7)) + d(l2.slice(8, 15)) + l2.slice(18, 29);
+        result = {
+            format,
+            documentCode: trimFiller(l1.slice(0, 2)),
+            issuingState: trimFiller(l1.slice(2, 5)),
+            documentNumber: trimFiller(documentNumber),
+            nationality: trimFiller(l2.slice(15, 18)),
+            birthDate: parseDate(birth, 'birth', now),
+            expiryDate: parseDate(expiry, 'expiry', now),
+            sex: sexOf(l2[7]),
+            ...parseNames(l3),
+            optionalData: trimFiller(optional1 + '<' + l2.slice(18, 29)),
+            checks: [
+                check('documentNumber', documentNumber, d(docCheck)),
+                check('birthDate', birth, d(l2[6])),
+                check('expiryDate', expiry, d(l2[14])),
+                check('composite', composite, d(l2[29])),
+            ],
+        };
+    } else {
+        const [l1, l2] = lines;
+        const td3 = format === 'TD3';
+        const birth = d(l2.slice(13, 19)),
+            expiry = d(l2.slice(21, 27));
+        const optional = td3 ? l2.slice(28, 42) : l2.slice(28, 35);
+        const compositeEnd = td3 ? 43 : 35;
+        const composite = l2.slice(0, 10) + d(l2.slice(13, 20)) + d(l2.slice(21, 28)) + l2.slice(28, compositeEnd);
+        const checks = [
+            check('documentNumber', l2.slice(0, 9), d(l2[9])),
+            check('birthDate', birth, d(l2[19])),
+            check('expiryDate', expiry, d(l2[27])),
+        ];
+        if (td3) checks.push(check('personalNumber', optional, d(l2[42])));
+        checks.push(check('composite', composite, d(l2[compositeEnd])));
+        result = {
+            format,
+            documentCode: trimFiller(l1.slice(0, 2)),
+            issuingState: trimFiller(l1.slice(2, 5)),
+            documentNumber: trimFiller(l2.slice(0, 9)),
+            nationality: trimFiller(l2.slice(10, 13)),
+            birthDate: parseDate(birth, 'birth', now),
+            expiryDate: parseDate(expiry, 'expiry', now),
+            sex: sexOf(l2[20]),
+            ...parseNames(l1.slice(5)),
+            optionalData: trimFiller(optional),
+            checks,
+        };
+    }
+
+    return { ...result, valid: result.checks.every((c) => c.valid), lines };
+}
+
+/**
+ * Pick MRZ-looking lines out of free OCR text (other text on the document is ignored)
+ * and parse them. Tries the longest format first.
+ */
+export function findMrz(text: string, options?: MrzParseOptions): MrzResult | null {
+    const candidates = text
+        .split(/\r?\n/)
+        .map(normalizeMrzLine)
+        .filter((l) => l.length >= 28 && l.includes('<'));
+    for (const format of options?.format ? [options.format] : (['TD3', 'TD2', 'TD1'] as MrzFormat[])) {
+        const [count, length] = LINE_LENGTHS[format];
+        // OCR often adds or drops a trailing filler: pad/trim lines close to the expected length
+        const fitted = candidates
+            .filter((l) => Math.abs(l.length - length) <= 2)
+            .map((l) => (l.length > length ? l.slice(0, length) : l.padEnd(length, '<')));
+        for (let i = 0; i + count <= fitted.length; i++) {
+            const parsed = parseMrz(fitted.slice(i, i + count), options);
+            if (parsed) return parsed;
+        }
+    }
+    return null;
+}
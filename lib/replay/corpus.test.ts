@@ -0,0 +1,33 @@
+import { readdirSync, readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import { tinyFaceDetectorFromWeights } from './face';
+import { decodePng } from './png';
+import { replayImage } from './replay';
+
+// The committed corpus (corpus/README.md): every labelled frame must get its labels back
+const CORPUS = join(import.meta.dirname, '../../corpus');
+const readJson = (path: string) => JSON.parse(readFileSync(path, 'utf8'));
+
+const manifest = readJson(join(CORPUS, 'models/tiny_face_detector_model-weights_manifest.json'));
+const face = tinyFaceDetectorFromWeights({
+    manifest,
+    weights: Buffer.concat(
+        manifest
+            .flatMap((group: { paths: string[] }) => group.paths)
+            .map((p: string) => readFileSync(join(CORPUS, 'models', p))),
+    ),
+});
+
+describe.each(['card', 'face'])('%s corpus', (dir) => {
+    const names = readdirSync(join(CORPUS, dir)).filter((f) => f.endsWith('.png'));
+
+    it.each(names)('%s', async (name) => {
+        const path = join(CORPUS, dir, name);
+        const label = readJson(path.replace(/\.png$/, '.json'));
+        const frame = await replayImage(await decodePng(readFileSync(path)), label, { face });
+
+        expect(frame.mode).toBe(dir);
+        expect(Object.fromEntries(frame.checks.map((c) => [c.decision, c.actual]))).toEqual(label.labels);
+    });
+});
@@ -0,0 +1,51 @@
+import * as faceapi from 'face-api.js';
+import type { FaceEstimate } from '../core/detectors';
+import type { RgbaImage } from '../mrz/locate';
+
+// === Face detector for Node ===
+// The browser detectors hand face-api a video or canvas; here the RGBA frame goes in as a
+// tensor, so no canvas package is needed. Weights are given as bytes (face-api's loadFromUri
+// needs fetch and a server): read the models directory the app serves (`public/models`).
+
+export interface FaceModelWeights {
+    /** Parsed `tiny_face_detector_model-weights_manifest.json` */
+    manifest: faceapi.tf.io.WeightsManifestConfig;
+    /** The shards listed in the manifest's `paths`, concatenated in order */
+    weights: Uint8Array;
+}
+
+/** face-api TinyFaceDetector on RGBA frames, with the browser detector's defaults (`ReplayOptions.face`) */
+export function tinyFaceDetectorFromWeights(
+    { manifest, weights }: FaceModelWeights,
+    { inputSize = 224, scoreThreshold = 0.5 }: { inputSize?: number; scoreThreshold?: number } = {},
+): (image: RgbaImage) => Promise<FaceEstimate> {
+    // A net of its own: faceapi.nets.tinyFaceDetector may be the app's
+    const net = new faceapi.TinyFaceDetector();
+    const buffer = weights.buffer.slice(weights.byteOffset, weights.byteOffset + weights.byteLength) as ArrayBuffer;
+    net.loadFromWeightMap(
+        faceapi.tf.io.decodeWeights(
+            buffer,
+            manifest.flatMap((group) => group.weights),
+        ),
+    );
+    const options = new faceapi.TinyFaceDetectorOptions({ inputSize, scoreThreshold });
+
+    return async ({ data, width, height }) => {
+        const rgb = new Int32Array(width * height * 3);
+        for (let i = 0, p = 0; p < rgb.length; i += 4, p += 3) {
+            rgb[p] = data[i];
+            rgb[p + 1] = data[i + 1];
+            rgb[p + 2] = data[i + 2];
+        }
+        const input = faceapi.tf.tensor3d(rgb, [height, width, 3], 'int32');
+        try {
+            // Most confident face, like detectSingleFace()
+            const [det] = (await net.locateFaces(input, options)).sort((a, b) => b.score - a.score);
+            if (!det) return { confidence: 0, box: null };
+            const { x, y, width: w, height: h } = det.box;
+            return { confidence: det.score, box: { x, y, width: w, height: h } };
+        } finally {
+            input.dispose();
+        }
+    };
+}
@@ -0,0 +1,17 @@
+// Replay entry (`@nwzx/light-id-check/replay`): detection regression runs on recorded sessions
+// and labelled images, in Node 18+ (no React, DOM or canvas)
+export { HEURISTIC_WIDTH, heuristicCardFromPixels, OPENCV_WIDTH, openCvCardFromPixels } from '../core/cardDetection';
+export type {
+    FrameLabels,
+    RecordedCard,
+    RecordedFace,
+    RecordedFrame,
+    RecordingOptions,
+    SessionRecording,
+} from '../core/recording';
+export { tinyFaceDetectorFromWeights } from './face';
+export type { FaceModelWeights } from './face';
+export { cropRgba, resizeRgba } from './pixels';
+export { dataUrlBytes, decodePng } from './png';
+export { DEFAULT_REPLAY_CARD_DETECTORS, replayFrame, replayImage, replayRecording, summarizeReplay } from './replay';
+export type { ReplayCheck, ReplayDecision, ReplayFrameResult, ReplayOptions, ReplayReport } from './replay';
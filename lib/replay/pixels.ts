@@ -0,0 +1,50 @@
+import type { Rect } from '../core/geometry';
+import type { RgbaImage } from '../mrz/locate';
+
+// Canvas-free stand-ins for the drawImage() calls the live detectors make on their ROI
+
+/** Bilinear resample to `width` px wide (height keeps the aspect unless given), like a smoothed drawImage */
+export function resizeRgba(
+    image: RgbaImage,
+    width: number,
+    height = Math.max(1, Math.round((width * image.height) / image.width)),
+): RgbaImage {
+    const { data: src, width: sw, height: sh } = image;
+    if (width === sw && height === sh) return image;
+    const data = new Uint8ClampedArray(width * height * 4);
+    const fx = sw / width,
+        fy = sh / height;
+    for (let y = 0; y < height; y++) {
+        const sy = Math.min(sh - 1, Math.max(0, (y + 0.5) * fy - 0.5));
+        const y0 = Math.floor(sy),
+            y1 = Math.min(sh - 1, y0 + 1),
+            wy = sy - y0;
+        for (let x = 0; x < width; x++) {
+            const sx = Math.min(sw - 1, Math.max(0, (x + 0.5) * fx - 0.5));
+            const x0 = Math.floor(sx),
+                x1 = Math.min(sw - 1, x0 + 1),
+                wx = sx - x0;
+            const o = (y * width + x) * 4;
+            for (let c = 0; c < 4; c++) {
+                const top = src[(y0 * sw + x0) * 4 + c] * (1 - wx) + src[(y0 * sw + x1) * 4 + c] * wx;
+                const bottom = src[(y1 * sw + x0) * 4 + c] * (1 - wx) + src[(y1 * sw + x1) * 4 + c] * wx;
+                data[o + c] = top * (1 - wy) + bottom * wy;
+            }
+        }
+    }
+    return { data, width, height };
+}
+
+/** Pixels inside `rect` (clamped to the image, whole pixels) */
+export function cropRgba(image: RgbaImage, rect: Rect): RgbaImage {
+    const x = Math.max(0, Math.floor(rect.x)),
+        y = Math.max(0, Math.floor(rect.y));
+    const width = Math.max(1, Math.min(image.width, Math.ceil(rect.x + rect.w)) - x);
+    const height = Math.max(1, Math.min(image.height, Math.ceil(rect.y + rect.h)) - y);
+    const data = new Uint8ClampedArray(width * height * 4);
+    for (let row = 0; row < height; row++) {
+        const from = ((y + row) * image.width + x) * 4;
+        data.set(image.data.subarray(from, from + width * 4), row * width * 4);
+    }
+    return { data, width, height };
+}
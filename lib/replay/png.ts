@@ -0,0 +1,113 @@
+import type { RgbaImage } from '../mrz/locate';
+
+// === PNG decoder ===
+// Enough PNG for recorded frames (canvas output: 8-bit RGBA) and hand-made fixtures
+// (grayscale, RGB, palette, with or without alpha, 8 or 16 bits). No interlacing.
+// Uses DecompressionStream, so it runs in Node 18+ and browsers without dependencies.
+
+const SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+// Samples per pixel of each color type
+const CHANNELS: Record<number, number> = { 0: 1, 2: 3, 3: 1, 4: 2, 6: 4 };
+
+/** Bytes of a base64 data URL (e.g. RecordedFrame.image) */
+export function dataUrlBytes(url: string) {
+    const comma = url.indexOf(',');
+    if (!url.startsWith('data:') || comma === -1 || !url.slice(0, comma).endsWith(';base64'))
+        throw new Error('Not a base64 data URL');
+    const binary = atob(url.slice(comma + 1));
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return bytes;
+}
+
+async function inflate(data: Uint8Array) {
+    const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate'));
+    return new Uint8Array(await new Response(stream).arrayBuffer());
+}
+
+function paeth(a: number, b: number, c: number) {
+    const p = a + b - c;
+    const pa = Math.abs(p - a),
+        pb = Math.abs(p - b),
+        pc = Math.abs(p - c);
+    return pa <= pb && pa <= pc ? a : pb <= pc ? b : c;
+}
+
+export async function decodePng(bytes: Uint8Array): Promise<RgbaImage> {
+    if (bytes.length < 8 || SIGNATURE.some((b, i) => bytes[i] !== b)) throw new Error('Not a PNG file');
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+
+    let width = 0,
+        height = 0,
+        depth = 0,
+        colorType = 0;
+    let palette: Uint8Array | null = null;
+    let transparency: Uint8Array | null = null;
+    const idat: Uint8Array[] = [];
+    for (let offset = 8; offset + 8 <= bytes.length; ) {
+        const length = view.getUint32(offset);
+        const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8));
+        const data = bytes.subarray(offset + 8, offset + 8 + length);
+        offset += 12 + length;
+        if (type === 'IHDR') {
+            const header = new DataView(data.buffer, data.byteOffset, data.byteLength);
+            width = header.getUint32(0);
+            height = header.getUint32(4);
+            depth = data[8];
+            colorType = data[9];
+            if (data[12] !== 0) throw new Error('Interlaced PNGs are not supported');
+        } else if (type === 'PLTE') palette = data;
+        else if (type === 'tRNS') transparency = data;
+        else if (type === 'IDAT') idat.push(data);
+        else if (type === 'IEND') break;
+    }
+    const channels = CHANNELS[colorType];
+    if (!width || !height || !channels) throw new Error('Invalid PNG header');
+    if (depth !== 8 && !(depth === 16 && colorType !== 3)) throw new Error(`Unsupported PNG bit depth ${depth}`);
+    if (colorType === 3 && !palette) throw new Error('PNG palette missing');
+
+    const compressed = new Uint8Array(idat.reduce((n, c) => n + c.length, 0));
+    idat.reduce((at, c) => (compressed.set(c, at), at + c.length), 0);
+    const raw = await inflate(compressed);
+
+    // Undo the per-row filters
+    const bpp = (channels * depth) / 8;
+    const stride = width * bpp;
+    if (raw.length < (stride + 1) * height) throw new Error('Truncated PNG data');
+    const pixels = new Uint8Array(stride * height);
+    for (let y = 0; y < height; y++) {
+        const filter = raw[y * (stride + 1)];
+        const src = raw.subarray(y * (stride + 1) + 1, (y + 1) * (stride + 1));
+        const row = y * stride;
+        if (filter > 4) throw new Error(`Invalid PNG filter ${filter}`);
+        for (let x = 0; x < stride; x++) {
+            const a = x >= bpp ? pixels[row + x - bpp] : 0;
+            const b = y > 0 ? pixels[row - stride + x] : 0;
+            const c = x >= bpp && y > 0 ? pixels[row - stride + x - bpp] : 0;
+            const predictor =
+                filter === 1 ? a : filter === 2 ? b : filter === 3 ? (a + b) >> 1 : filter === 4 ? paeth(a, b, c) : 0;
+            pixels[row + x] = (src[x] + predictor) & 0xff;
+        }
+    }
+
+    // To RGBA (16-bit samples keep their high byte)
+    const data = new Uint8ClampedArray(width * height * 4);
+    const sample = (p: number, s: number) => pixels[p * bpp + (s * depth) / 8];
+    for (let p = 0; p < width * height; p++) {
+        const o = p * 4;
+        if (colorType === 3 && palette) {
+            const i = sample(p, 0);
+            data.set(palette.subarray(i * 3, i * 3 + 3), o);
+            data[o + 3] = transparency && i < transparency.length ? transparency[i] : 255;
+        } else if (channels <= 2) {
+            data[o] = data[o + 1] = data[o + 2] = sample(p, 0);
+            data[o + 3] = channels === 2 ? sample(p, 1) : 255;
+        } else {
+            data[o] = sample(p, 0);
+            data[o + 1] = sample(p, 1);
+            data[o + 2] = sample(p, 2);
+            data[o + 3] = channels === 4 ? sample(p, 3) : 255;
+        }
+    }
+    return { data, width, height };
+}
@@ -0,0 +1,181 @@
+import {
+    HEURISTIC_WIDTH,
+    heuristicCardFromPixels,
+    OPENCV_WIDTH,
+    openCvCardFromPixels,
+    type CardEstimate,
+} from '../core/cardDetection';
+import type { CardDetectorSpec, FaceEstimate } from '../core/detectors';
+import { expandBox, type Box } from '../core/geometry';
+import {
+    defaultQualityChecks,
+    evaluateQuality,
+    QUALITY_ROI_WIDTH,
+    qualityCheckFromSpec,
+    type QualityCheckSpec,
+    type QualityReport,
+} from '../core/quality';
+import type { FrameLabels, RecordedFrame, SessionRecording } from '../core/recording';
+import type { OverlayMode } from '../core/types';
+import type { RgbaImage } from '../mrz/locate';
+import { cropRgba, resizeRgba } from './pixels';
+import { dataUrlBytes, decodePng } from './png';
+
+// === Replay runner ===
+// Feeds recorded frames (see the session's `record` option) or fixture images through the
+// card cascade, an optional face detector and the quality gates, without a DOM or a canvas,
+// and compares each decision with the frame's labels (or what the device decided). Run it
+// on a corpus before shipping a threshold change (scripts/replay.mjs).
+
+export type ReplayDecision = keyof FrameLabels;
+
+export interface ReplayOptions {
+    /** Card cascade to replay with; default: the recording's (fixtures: opencv, then heuristic) */
+    cardDetectors?: CardDetectorSpec[];
+    /** Quality gates to replay with; default: the recording's (fixtures: the default checks) */
+    qualityChecks?: QualityCheckSpec[];
+    /** OpenCV.js module (in Node, the loaded opencv.js); without it OpenCV detectors are skipped, like a failed load */
+    opencv?: unknown;
+    /** Face detector on RGBA frames; without one, face decisions are not replayed */
+    face?: (image: RgbaImage) => Promise<FaceEstimate>;
+}
+
+export interface ReplayCheck {
+    decision: ReplayDecision;
+    expected: boolean;
+    actual: boolean;
+    passed: boolean;
+}
+
+export interface ReplayFrameResult {
+    mode: OverlayMode;
+    /** Card mode: answer of the cascade (null when no detector could run) */
+    card: (CardEstimate & { detector: string }) | null;
+    /** Face mode with a face detector */
+    face: FaceEstimate | null;
+    quality: QualityReport | null;
+    checks: ReplayCheck[];
+    passed: boolean;
+}
+
+export interface ReplayReport {
+    frames: ReplayFrameResult[];
+    /** Decisions compared */
+    checks: number;
+    failures: number;
+    passed: boolean;
+}
+
+/** Cascade for fixture images: the session's default one */
+export const DEFAULT_REPLAY_CARD_DETECTORS: CardDetectorSpec[] = [
+    { type: 'opencv', opencvUrl: '', options: {} },
+    { type: 'heuristic', options: {} },
+];
+
+// Same cascade as detectCard(): first detector that can run answers; the quad is in image pixels
+function detectCard(image: RgbaImage, specs: CardDetectorSpec[], cv: unknown) {
+    const roi = { x: 0, y: 0, w: image.width, h: image.height };
+    for (const spec of specs) {
+        try {
+            if (spec.type === 'opencv') {
+                if (!cv) continue;
+                const estimate = openCvCardFromPixels(resizeRgba(image, OPENCV_WIDTH), roi, spec.options, cv);
+                return { ...estimate, detector: spec.type };
+            }
+            return {
+                ...heuristicCardFromPixels(resizeRgba(image, HEURISTIC_WIDTH), roi, spec.options),
+                detector: spec.type,
+            };
+        } catch {
+            /* next detector */
+        }
+    }
+    return null;
+}
+
+/** Replay one image: card frames are the card guide ROI, face frames the whole camera frame */
+export async function replayImage(
+    image: RgbaImage,
+    {
+        mode,
+        labels = {},
+        faceBox = null,
+    }: {
+        mode: OverlayMode;
+        /** Expected decisions; decisions without a label are computed but not checked */
+        labels?: FrameLabels;
+        /** Face box for the quality ROI when no face detector is given (e.g. the recorded one) */
+        faceBox?: Box | null;
+    },
+    {
+        cardDetectors = DEFAULT_REPLAY_CARD_DETECTORS,
+        qualityChecks = defaultQualityChecks().flatMap((c) => (c.spec ? [c.spec] : [])),
+        opencv,
+        face: faceDetector,
+    }: ReplayOptions = {},
+): Promise<ReplayFrameResult> {
+    const checks: ReplayCheck[] = [];
+    const check = (decision: ReplayDecision, actual: boolean) => {
+        const expected = labels[decision];
+        if (expected !== undefined) checks.push({ decision, expected, actual, passed: expected === actual });
+    };
+
+    let card: ReplayFrameResult['card'] = null;
+    let face: FaceEstimate | null = null;
+    // Same ROIs as live: the card guide (the whole image here), or the face box + 20%
+    let qualityImage: RgbaImage | null = null;
+    if (mode === 'card') {
+        card = detectCard(image, cardDetectors, opencv);
+        check('cardOk', Boolean(card?.ok));
+        qualityImage = image;
+    } else {
+        if (faceDetector) {
+            face = await faceDetector(image);
+            check('faceDetected', face.box !== null);
+        }
+        const box = faceDetector ? face?.box : faceBox;
+        if (box) qualityImage = cropRgba(image, expandBox(box, 0.1, image.width, image.height));
+    }
+
+    const quality =
+        qualityImage && qualityChecks.length
+            ? evaluateQuality(resizeRgba(qualityImage, QUALITY_ROI_WIDTH), qualityChecks.map(qualityCheckFromSpec))
+            : null;
+    if (quality) check('qualityPassed', quality.passed);
+
+    return { mode, card, face, quality, checks, passed: checks.every((c) => c.passed) };
+}
+
+/** Replay a recorded frame; unlabelled decisions are expected to match what the device decided */
+export async function replayFrame(frame: RecordedFrame, options: ReplayOptions = {}): Promise<ReplayFrameResult> {
+    const image = await decodePng(dataUrlBytes(frame.image));
+    const recorded: FrameLabels = {
+        cardOk: frame.card?.ok,
+        faceDetected: frame.face ? frame.face.box !== null : undefined,
+        qualityPassed: frame.quality?.passed,
+    };
+    return replayImage(
+        image,
+        { mode: frame.mode, labels: { ...recorded, ...frame.labels }, faceBox: frame.face?.box ?? null },
+        options,
+    );
+}
+
+export async function replayRecording(recording: SessionRecording, options: ReplayOptions = {}): Promise<ReplayReport> {
+    if (recording.version !== 1) throw new Error(`Unsupported recording version ${recording.version}`);
+    const frameOptions: ReplayOptions = {
+        cardDetectors: recording.cardDetectors,
+        qualityChecks: recording.qualityChecks,
+        ...options,
+    };
+    const frames: ReplayFrameResult[] = [];
+    // One at a time: frames are decoded on demand to keep memory flat on large corpora
+    for (const frame of recording.frames) frames.push(await replayFrame(frame, frameOptions));
+    return summarizeReplay(frames);
+}
+
+export function summarizeReplay(frames: ReplayFrameResult[]): ReplayReport {
+    const checks = frames.reduce((n, f) => n + f.checks.length, 0);
+    const failures = frames.reduce((n, f) => n + f.checks.filter((c) => !c.passed).length, 0);
+    return { frames, checks, failures, passed: failures === 0 };
+}
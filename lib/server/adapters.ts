@@ -0,0 +1,149 @@
+import { validateVerificationResponse, type FaceMatch, type VerificationCause } from '../verification';
+import type { FaceMatcher, LlmAdapter, OcrAdapter, TrustAgent, TrustAgentInput } from './types';
+
+// === Adapters for the services the workflow calls ===
+
+export interface CompreFaceOptions {
+    /** CompreFace base URL (e.g. http://compreface-fe.compreface.svc.cluster.local) */
+    url: string;
+    /** API key of the verification service */
+    apiKey: string;
+    /**
+     * face_plugins query parameter
+     * @default 'landmarks, gender, age, pose'
+     */
+    facePlugins?: string;
+    fetch?: typeof fetch;
+}
+
+// CompreFace error code of the 400 "No face is found in the given image"
+const NO_FACE_FOUND = 28;
+
+/** CompreFace `/api/v1/verification/verify` ("Send Images to Face Matching" node) */
+export function compreFaceMatcher({
+    url,
+    apiKey,
+    facePlugins = 'landmarks, gender, age, pose',
+    fetch: fetchImpl = fetch,
+}: CompreFaceOptions): FaceMatcher {
+    return {
+        async verify(source, target, signal) {
+            const body = new FormData();
+            body.append('source_image', source, 'source');
+            body.append('target_image', target, 'target');
+            const endpoint = new URL('/api/v1/verification/verify', url);
+            endpoint.searchParams.set('face_plugins', facePlugins);
+            const res = await fetchImpl(endpoint, { method: 'POST', headers: { 'x-api-key': apiKey }, body, signal });
+            const json = (await res.json().catch(() => null)) as {
+                result?: { face_matches?: FaceMatch[] }[];
+                code?: number;
+                message?: string;
+            } | null;
+            // No face on one of the images is an answer, not a failure: the workflow goes on with no matches
+            if (res.status === 400 && (json?.code === NO_FACE_FOUND || /no face is found/i.test(json?.message ?? ''))) {
+                return [];
+            }
+            if (!res.ok) throw new Error(`CompreFace verification failed with HTTP ${res.status}`);
+            return json?.result?.[0]?.face_matches ?? [];
+        },
+    };
+}
+
+export interface OpenAiOptions {
+    apiKey: string;
+    /**
+     * Chat model
+     * @default 'gpt-4o'
+     */
+    model?: string;
+    /**
+     * API base URL (any OpenAI-compatible endpoint)
+     * @default 'https://api.openai.com/v1'
+     */
+    baseUrl?: string;
+    fetch?: typeof fetch;
+}
+
+/** OpenAI chat completions (or a compatible server) */
+export function openAiLlm({
+    apiKey,
+    model = 'gpt-4o',
+    baseUrl = 'https://api.openai.com/v1',
+    fetch: fetchImpl = fetch,
+}: OpenAiOptions): LlmAdapter {
+    return {
+        async complete(prompt, { json = false, signal } = {}) {
+            const res = await fetchImpl(`${baseUrl.replace(/\/$/, '')}/chat/completions`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json', Authorization: `Bearer ${apiKey}` },
+                body: JSON.stringify({
+                    model,
+                    messages: [{ role: 'user', content: prompt }],
+                    ...(json ? { response_format: { type: 'json_object' } } : {}),
+                }),
+                signal,
+            });
+            if (!res.ok) throw new Error(`Chat completion failed with HTTP ${res.status}`);
+            const body = (await res.json()) as { choices?: { message?: { content?: string } }[] };
+            const content = body.choices?.[0]?.message?.content;
+            if (typeof content !== 'string') throw new Error('Chat completion returned no content');
+            return content;
+        },
+    };
+}
+
+function parseJsonObject(text: string): Record<string, unknown> {
+    // Models wrap JSON in ```json fences at times
+    const json: unknown = JSON.parse(text.replace(/^\s*```(?:json)?\s*|\s*```\s*$/g, ''));
+    if (typeof json !== 'object' || json === null || Array.isArray(json)) throw new Error('Reply is not a JSON object');
+    return json as Record<string, unknown>;
+}
+
+/** "Clean OCR Result" node: the LLM turns the client OCR text into JSON fields (the image is not sent) */
+export function llmOcrCleaner(llm: LlmAdapter): OcrAdapter {
+    return {
+        async extract({ text }, signal) {
+            if (!text?.trim()) return {};
+            const reply = await llm.complete(
+                `Clean this OCR result from ID document and extract essential info to json :\n\n${text}`,
+                { json: true, signal },
+            );
+            return parseJsonObject(reply);
+        },
+    };
+}
+
+/** Judgment rules of the workflow prompt that DEFAULT_RULES leave out */
+export const DEFAULT_AGENT_RULES = [
+    'OCR show that name does not seem suspicious (-0.5 if not).',
+    'OCR AND METADATA show that it is not AI generated (-1 if not).',
+];
+
+/** "AI Agent" node restricted to `rules`; its causes are scored with the deterministic ones */
+export function llmTrustAgent(llm: LlmAdapter, rules: string[] = DEFAULT_AGENT_RULES): TrustAgent {
+    return {
+        async assess({ document, metadata, now }: TrustAgentInput, signal) {
+            const prompt = [
+                'Score the authenticity of an ID document with these rules only.',
+                '',
+                'FILE OCR:',
+                JSON.stringify(document),
+                '',
+                'FILE METADATA:',
+                JSON.stringify(metadata),
+                '',
+                `Current Date: ${now.toISOString()}`,
+                'Rule:',
+                ...rules.map((r) => `- ${r}`),
+                '',
+                'Answer with a JSON object {"trust": "0.5000", "cause": [{"message": "...", "score": 0}]}',
+                'with one cause per rule (score 0 when the rule passes).',
+            ].join('\n');
+            const reply = parseJsonObject(await llm.complete(prompt, { json: true, signal }));
+            // Same checks as the webhook response; trust is recomputed from the causes
+            const validation = validateVerificationResponse({ trust: 0, ...reply });
+            if (!validation.valid) throw new Error(`Invalid trust agent reply: ${validation.errors.join('; ')}`);
+            return validation.response.cause satisfies VerificationCause[];
+        },
+    };
+}
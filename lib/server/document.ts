@@ -0,0 +1,83 @@
+import type { DocumentData } from './types';
+
+// === Cleaned OCR output -> DocumentData ===
+// The LLM picks its own keys ("expiry_date", "dateOfExpiry", nested "personal_info"...):
+// known fields are looked up by alias, ignoring case and separators, and dates become ISO.
+
+type KnownField =
+    | 'lastName'
+    | 'firstName'
+    | 'documentNumber'
+    | 'nationality'
+    | 'sex'
+    | 'birthDate'
+    | 'issueDate'
+    | 'expiryDate';
+
+const ALIASES: Record<KnownField, string[]> = {
+    lastName: ['lastname', 'surname', 'familyname', 'nom', 'nomdefamille'],
+    firstName: ['firstname', 'firstnames', 'givenname', 'givennames', 'prenom', 'prenoms'],
+    documentNumber: ['documentnumber', 'cardnumber', 'idnumber', 'passportnumber', 'number', 'numero'],
+    nationality: ['nationality', 'nationalite'],
+    sex: ['sex', 'gender', 'sexe'],
+    birthDate: ['birthdate', 'dateofbirth', 'dob', 'datedenaissance'],
+    issueDate: ['issuedate', 'dateofissue', 'issued', 'deliverydate', 'datededelivrance'],
+    expiryDate: ['expirydate', 'expirationdate', 'dateofexpiry', 'validuntil', 'datedexpiration'],
+};
+const DATE_FIELDS = new Set(['birthDate', 'issueDate', 'expiryDate']);
+
+const keyOf = (key: string) =>
+    key
+        .normalize('NFD')
+        .replace(/\p{Diacritic}/gu, '')
+        .toLowerCase()
+        .replace(/[^a-z]/g, '');
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+// Depth-first: the first scalar under a matching key wins
+function findField(raw: Record<string, unknown>, aliases: string[]): unknown {
+    for (const [key, value] of Object.entries(raw)) {
+        if (aliases.includes(keyOf(key)) && (typeof value === 'string' || typeof value === 'number')) return value;
+    }
+    for (const value of Object.values(raw)) {
+        if (isObject(value)) {
+            const found = findField(value, aliases);
+            if (found !== undefined) return found;
+        }
+    }
+    return undefined;
+}
+
+/** ISO date (YYYY-MM-DD) from ISO or day-first (DD/MM/YYYY, DD.MM.YYYY, DD-MM-YYYY) text */
+export function parseDocumentDate(value: unknown): string | null {
+    if (typeof value !== 'string') return null;
+    const text = value.trim();
+    const iso = /^(\d{4})-(\d{2})-(\d{2})/.exec(text);
+    const dayFirst = /^(\d{1,2})[ ./-](\d{1,2})[ ./-](\d{4})$/.exec(text);
+    const parts = iso
+        ? [iso[1], iso[2], iso[3]]
+        : dayFirst && [dayFirst[3], dayFirst[2].padStart(2, '0'), dayFirst[1].padStart(2, '0')];
+    if (!parts) return null;
+    const [y, mo, d] = parts;
+    const date = new Date(`${y}-${mo}-${d}T00:00:00Z`);
+    // Rejects 31/02 and the like, which Date would roll over
+    return Number.isNaN(date.getTime()) || date.getUTCDate() !== Number(d) ? null : `${y}-${mo}-${d}`;
+}
+
+export function normalizeDocumentData(raw: Record<string, unknown>): DocumentData {
+    const document: DocumentData = { ...raw };
+    for (const [field, aliases] of Object.entries(ALIASES)) {
+        const value = findField(raw, aliases);
+        if (value === undefined) continue;
+        if (DATE_FIELDS.has(field)) {
+            const date = parseDocumentDate(String(value));
+            if (date) document[field] = date;
+        } else {
+            document[field] = String(value).trim();
+        }
+    }
+    return document;
+}
@@ -0,0 +1,60 @@
+// Server entry (`@nwzx/light-id-check/server`): no React or DOM-only code, runs in Node 18+
+export { compreFaceMatcher, DEFAULT_AGENT_RULES, llmOcrCleaner, llmTrustAgent, openAiLlm } from './adapters';
+export type { CompreFaceOptions, OpenAiOptions } from './adapters';
+export { normalizeDocumentData, parseDocumentDate } from './document';
+export { exifMetadataReader, readImageMetadata } from './metadata';
+export {
+    DEFAULT_RULES,
+    evaluateRules,
+    expiryAfterIssueRule,
+    nameRule,
+    notExpiredRule,
+    notGeneratedRule,
+    notScannedRule,
+    recentCaptureRule,
+    smartphoneRule,
+    trustFromScore,
+    ZERO_TRUST_SCORE,
+} from './rules';
+export type { RuleContext, RuleOutcome, RuleResult, RulesEvaluation, VerificationRule } from './rules';
+export { stubFaceMatcher, stubLlm, stubOcr, stubTrustAgent } from './stubs';
+export { createVerifier, isPipelineError } from './verify';
+export type { Verifier, VerifierOptions } from './verify';
+export type {
+    DocumentData,
+    FaceMatcher,
+    ImageMetadata,
+    ImageMetadataReader,
+    LlmAdapter,
+    OcrAdapter,
+    PipelineError,
+    PipelineStage,
+    ServerImage,
+    ServerVerificationResult,
+    TrustAgent,
+    TrustAgentInput,
+    VerificationInput,
+} from './types';
+export {
+    ageOn,
+    DEFAULT_FIELD_PENALTIES,
+    DOCUMENT_NUMBER_FORMATS,
+    toAlpha3,
+    validateIdentityFields,
+} from '../validation';
+export type {
+    DocumentNumberFormat,
+    FieldCheck,
+    FieldFinding,
+    FieldValidationOptions,
+    FieldValidationReport,
+    IdentityFields,
+} from '../validation';
+export { DEFAULT_VERIFICATION_THRESHOLDS, summarizeVerification, validateVerificationResponse } from '../verification';
+export type {
+    FaceMatch,
+    VerificationCause,
+    VerificationResponse,
+    VerificationSummary,
+    VerificationThresholds,
+} from '../verification';
@@ -0,0 +1,179 @@
+import type { ImageMetadata, ImageMetadataReader } from './types';
+
+// === Image file metadata (the workflow's "Extract Metadata" node) ===
+// Dependency-free: JPEG size and EXIF (IFD0 + Exif IFD), PNG size, pHYs and Software
+// text, WebP size. Enough for the rules; anything else is left null, as is whatever a
+// truncated file cuts off.
+
+const TAG_MAKE = 0x010f;
+const TAG_MODEL = 0x0110;
+const TAG_X_RESOLUTION = 0x011a;
+const TAG_RESOLUTION_UNIT = 0x0128;
+const TAG_SOFTWARE = 0x0131;
+const TAG_DATE_TIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_DATE_TIME_ORIGINAL = 0x9003;
+
+type ExifTags = Map<number, string | number>;
+
+/** Metadata of a JPEG, PNG or WebP file */
+export async function readImageMetadata(image: Blob): Promise<ImageMetadata> {
+    const bytes = new Uint8Array(await image.arrayBuffer());
+    const metadata: ImageMetadata = {
+        format: 'unknown',
+        size: bytes.length,
+        width: null,
+        height: null,
+        make: null,
+        model: null,
+        software: null,
+        capturedAt: null,
+        dpi: null,
+    };
+    if (bytes[0] === 0xff && bytes[1] === 0xd8) readJpeg(bytes, metadata);
+    else if (ascii(bytes, 1, 3) === 'PNG') readPng(bytes, metadata);
+    else if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP') readWebp(bytes, metadata);
+    return metadata;
+}
+
+export function exifMetadataReader(): ImageMetadataReader {
+    return { read: readImageMetadata };
+}
+
+// Not String.fromCharCode(...bytes): lengths come from the file, and a large chunk overflows the call stack
+const LATIN1 = new TextDecoder('latin1');
+function ascii(bytes: Uint8Array, offset: number, length: number) {
+    return LATIN1.decode(bytes.subarray(offset, offset + length));
+}
+
+function readJpeg(bytes: Uint8Array, metadata: ImageMetadata) {
+    metadata.format = 'jpeg';
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    let offset = 2;
+    while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+        const marker = bytes[offset + 1];
+        const length = view.getUint16(offset + 2);
+        const data = offset + 4;
+        // Segment end, clamped to a truncated file
+        const end = Math.min(data + length - 2, bytes.length);
+        if (marker === 0xe1 && ascii(bytes, data, 4) === 'Exif') {
+            applyExif(readExif(view, data + 6), metadata);
+        } else if (marker === 0xe0 && ascii(bytes, data, 4) === 'JFIF' && metadata.dpi === null && data + 10 <= end) {
+            // Density units: 1 = dpi, 2 = dots per cm
+            const unit = bytes[data + 7];
+            const density = view.getUint16(data + 8);
+            if (unit === 1 || unit === 2) metadata.dpi = unit === 1 ? density : Math.round(density * 2.54);
+        } else if (marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc) {
+            // Start of frame: the image size; the scan data follows
+            if (data + 5 > end) return;
+            metadata.height = view.getUint16(data + 1);
+            metadata.width = view.getUint16(data + 3);
+            return;
+        }
+        offset = data + length - 2;
+    }
+}
+
+// TIFF structure: byte order, IFD0 offset, then entries of 12 bytes
+function readExif(view: DataView, tiff: number): ExifTags {
+    const tags: ExifTags = new Map();
+    if (tiff + 8 > view.byteLength) return tags;
+    const little = view.getUint16(tiff) === 0x4949;
+    const u16 = (o: number) => view.getUint16(o, little);
+    const u32 = (o: number) => view.getUint32(o, little);
+
+    const readIfd = (ifd: number) => {
+        if (ifd + 2 > view.byteLength) return;
+        const count = u16(ifd);
+        for (let i = 0; i < count; i++) {
+            const entry = ifd + 2 + i * 12;
+            if (entry + 12 > view.byteLength) return;
+            const tag = u16(entry),
+                type = u16(entry + 2),
+                n = u32(entry + 4);
+            if (type === 2) {
+                // ASCII: inline when it fits in 4 bytes
+                const at = n <= 4 ? entry + 8 : tiff + u32(entry + 8);
+                if (at + n > view.byteLength) continue;
+                let text = '';
+                for (let k = 0; k < n; k++) text += String.fromCharCode(view.getUint8(at + k));
+                tags.set(tag, text.replace(/\0+$/, '').trim());
+            } else if (type === 3) {
+                tags.set(tag, u16(entry + 8));
+            } else if (type === 4) {
+                tags.set(tag, u32(entry + 8));
+            } else if (type === 5) {
+                const at = tiff + u32(entry + 8);
+                if (at + 8 <= view.byteLength && u32(at + 4)) tags.set(tag, u32(at) / u32(at + 4));
+            }
+        }
+    };
+
+    readIfd(tiff + u32(tiff + 4));
+    const exifIfd = tags.get(TAG_EXIF_IFD);
+    if (typeof exifIfd === 'number') readIfd(tiff + exifIfd);
+    return tags;
+}
+
+function applyExif(tags: ExifTags, metadata: ImageMetadata) {
+    const text = (tag: number) => {
+        const value = tags.get(tag);
+        return typeof value === 'string' && value ? value : null;
+    };
+    metadata.make = text(TAG_MAKE);
+    metadata.model = text(TAG_MODEL);
+    metadata.software = text(TAG_SOFTWARE);
+    // "YYYY:MM:DD HH:MM:SS"
+    const date = text(TAG_DATE_TIME_ORIGINAL) ?? text(TAG_DATE_TIME);
+    const m = date && /^(\d{4}):(\d{2}):(\d{2})[ T](\d{2}):(\d{2}):(\d{2})/.exec(date);
+    metadata.capturedAt = m ? `${m[1]}-${m[2]}-${m[3]}T${m[4]}:${m[5]}:${m[6]}` : null;
+    const resolution = tags.get(TAG_X_RESOLUTION);
+    if (typeof resolution === 'number' && resolution > 0) {
+        // Resolution unit: 2 = inch (default), 3 = centimetre
+        metadata.dpi = Math.round(tags.get(TAG_RESOLUTION_UNIT) === 3 ? resolution * 2.54 : resolution);
+    }
+}
+
+// Chunks: length (4), type (4), data, CRC (4)
+function readPng(bytes: Uint8Array, metadata: ImageMetadata) {
+    metadata.format = 'png';
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    for (let offset = 8; offset + 12 <= bytes.length; ) {
+        const length = view.getUint32(offset);
+        const type = ascii(bytes, offset + 4, 4);
+        const data = offset + 8;
+        const end = Math.min(data + length, bytes.length);
+        if (type === 'IHDR' && data + 8 <= end) {
+            metadata.width = view.getUint32(data);
+            metadata.height = view.getUint32(data + 4);
+        } else if (type === 'pHYs' && data + 9 <= end && bytes[data + 8] === 1) {
+            // Pixels per metre
+            metadata.dpi = Math.round(view.getUint32(data) * 0.0254);
+        } else if (type === 'tEXt') {
+            const chunk = ascii(bytes, data, length);
+            const [key, value] = chunk.split('\0');
+            if (key === 'Software' && value) metadata.software = value;
+        } else if (type === 'IDAT' || type === 'IEND') {
+            return;
+        }
+        offset = data + length + 4;
+    }
+}
+
+function readWebp(bytes: Uint8Array, metadata: ImageMetadata) {
+    metadata.format = 'webp';
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const chunk = ascii(bytes, 12, 4);
+    if (chunk === 'VP8X' && bytes.length >= 30) {
+        // 24-bit canvas size minus one
+        metadata.width = 1 + (bytes[24] | (bytes[25] << 8) | (bytes[26] << 16));
+        metadata.height = 1 + (bytes[27] | (bytes[28] << 8) | (bytes[29] << 16));
+    } else if (chunk === 'VP8 ' && bytes.length >= 30) {
+        metadata.width = view.getUint16(26, true) & 0x3fff;
+        metadata.height = view.getUint16(28, true) & 0x3fff;
+    } else if (chunk === 'VP8L' && bytes.length >= 25) {
+        const bits = view.getUint32(21, true);
+        metadata.width = 1 + (bits & 0x3fff);
+        metadata.height = 1 + ((bits >> 14) & 0x3fff);
+    }
+}
@@ -0,0 +1,187 @@
+import type { VerificationCause } from '../verification';
+import type { DocumentData, ImageMetadata } from './types';
+
+// === Deterministic trust rules ===
+// The scoring rules of the workflow's "AI Agent" prompt, as code: each rule passes (0) or
+// applies its penalty, and "Total score <= -0.5 will always result to trust of 0" is
+// trustFromScore. Rules return null when they have nothing to judge: metadata rules skip
+// images without the tags they read (browser canvas captures carry no EXIF at all).
+
+export interface RuleContext {
+    document: DocumentData;
+    metadata: ImageMetadata | null;
+    now: Date;
+}
+
+export interface RuleOutcome {
+    passed: boolean;
+    message: string;
+}
+
+export interface VerificationRule {
+    id: string;
+    /** Score when the rule fails (negative) */
+    penalty: number;
+    /** null when the rule doesn't apply */
+    evaluate(context: RuleContext): RuleOutcome | null;
+}
+
+export interface RuleResult extends VerificationCause {
+    rule: string;
+    passed: boolean;
+}
+
+export interface RulesEvaluation {
+    results: RuleResult[];
+    /** Results as workflow causes */
+    causes: VerificationCause[];
+    /** Sum of the scores */
+    score: number;
+}
+
+/** At or below this total score the trust is 0 */
+export const ZERO_TRUST_SCORE = -0.5;
+
+// Letters (any script), spaces, hyphens and apostrophes
+const NAME_PATTERN = /^[\p{L}][\p{L}\p{M}' -]*$/u;
+// EXIF Software / PNG text of image generators and editors
+const GENERATOR_PATTERN =
+    /dall[-·]?e|midjourney|stable ?diffusion|firefly|imagen|novelai|comfyui|automatic1111|leonardo/i;
+const EDITOR_PATTERN = /photoshop|gimp|lightroom|affinity|pixelmator|canva|picsart|snapseed/i;
+const SCANNER_PATTERN = /scan|twain|wia|epson|canon ?scan|hp ?scan|fujitsu|brother/i;
+const PHONE_MAKERS =
+    /apple|samsung|google|huawei|xiaomi|redmi|oneplus|oppo|vivo|motorola|sony|nokia|honor|realme|nothing|fairphone|asus|lg/i;
+
+const days = (from: string, to: Date) => (to.getTime() - new Date(`${from}T00:00:00Z`).getTime()) / 86_400_000;
+const isoDay = (date: Date) => date.toISOString().slice(0, 10);
+
+export const nameRule: VerificationRule = {
+    id: 'name-valid',
+    penalty: -0.5,
+    evaluate({ document }) {
+        const names = [document.lastName, document.firstName].filter((n): n is string => !!n);
+        if (!names.length) return { passed: false, message: 'No holder name was read on the document' };
+        const invalid = names.filter((n) => !NAME_PATTERN.test(n) || /(.)\1{3,}/u.test(n));
+        return invalid.length
+            ? { passed: false, message: `Holder name has digits or invalid characters (${invalid.join(', ')})` }
+            : { passed: true, message: 'Holder name only has valid characters' };
+    },
+};
+
+export const expiryAfterIssueRule: VerificationRule = {
+    id: 'expiry-after-issue',
+    penalty: -1,
+    evaluate({ document: { issueDate, expiryDate } }) {
+        if (!issueDate || !expiryDate) return null;
+        return expiryDate > issueDate
+            ? { passed: true, message: `Expiry date ${expiryDate} is after issue date ${issueDate}` }
+            : { passed: false, message: `Expiry date ${expiryDate} is not after issue date ${issueDate}` };
+    },
+};
+
+export const notExpiredRule: VerificationRule = {
+    id: 'not-expired',
+    penalty: -1,
+    evaluate({ document: { expiryDate }, now }) {
+        if (!expiryDate) return { passed: false, message: 'No expiry date was read on the document' };
+        return expiryDate >= isoDay(now)
+            ? { passed: true, message: `Document is valid until ${expiryDate}` }
+            : { passed: false, message: `Document expired on ${expiryDate}` };
+    },
+};
+
+export const smartphoneRule: VerificationRule = {
+    id: 'smartphone-capture',
+    penalty: -0.1,
+    evaluate({ metadata }) {
+        if (!metadata || (!metadata.make && !metadata.model)) return null;
+        const camera = [metadata.make, metadata.model].filter(Boolean).join(' ');
+        return PHONE_MAKERS.test(camera)
+            ? { passed: true, message: `Image was taken with a smartphone (${camera})` }
+            : { passed: false, message: `Image was not taken with a smartphone (${camera})` };
+    },
+};
+
+export const notScannedRule: VerificationRule = {
+    id: 'not-scanned',
+    penalty: -0.1,
+    evaluate({ metadata }) {
+        if (!metadata || (!metadata.software && !metadata.dpi)) return null;
+        // Cameras write 72 dpi; scanners their scan resolution
+        const scanned =
+            (!!metadata.software && SCANNER_PATTERN.test(metadata.software)) ||
+            (!metadata.make && !!metadata.dpi && metadata.dpi >= 150);
+        return scanned
+            ? {
+                  passed: false,
+                  message: `Image looks like a scanned document (${metadata.software ?? `${metadata.dpi} dpi`})`,
+              }
+            : { passed: true, message: 'Image is not a scanned document' };
+    },
+};
+
+/** "dated from current date": captured within `maxAgeDays` of the verification */
+export function recentCaptureRule(maxAgeDays = 1): VerificationRule {
+    return {
+        id: 'recent-capture',
+        penalty: -0.2,
+        evaluate({ metadata, now }) {
+            if (!metadata?.capturedAt) return null;
+            const age = days(metadata.capturedAt.slice(0, 10), now);
+            return age <= maxAgeDays && age >= -1
+                ? { passed: true, message: `Image was taken on ${metadata.capturedAt.slice(0, 10)}` }
+                : { passed: false, message: `Image is not from today (taken on ${metadata.capturedAt.slice(0, 10)})` };
+        },
+    };
+}
+
+/** Generator or photo editor named in the file metadata (the visual judgment is left to the trust agent) */
+export const notGeneratedRule: VerificationRule = {
+    id: 'not-ai-generated',
+    penalty: -1,
+    evaluate({ metadata }) {
+        if (!metadata?.software) return null;
+        if (GENERATOR_PATTERN.test(metadata.software))
+            return { passed: false, message: `Image was produced by an image generator (${metadata.software})` };
+        if (EDITOR_PATTERN.test(metadata.software))
+            return { passed: false, message: `Image was edited with ${metadata.software}` };
+        return { passed: true, message: 'Metadata shows no image generator or editor' };
+    },
+};
+
+/** The workflow prompt's rules, minus the judgment calls (suspicious name, AI look) */
+export const DEFAULT_RULES: VerificationRule[] = [
+    nameRule,
+    expiryAfterIssueRule,
+    notExpiredRule,
+    smartphoneRule,
+    notScannedRule,
+    recentCaptureRule(),
+    notGeneratedRule,
+];
+
+export function evaluateRules(rules: VerificationRule[], context: RuleContext): RulesEvaluation {
+    const results = rules.flatMap((rule): RuleResult[] => {
+        const outcome = rule.evaluate(context);
+        if (!outcome) return [];
+        return [
+            {
+                rule: rule.id,
+                passed: outcome.passed,
+                message: outcome.message,
+                score: outcome.passed ? 0 : rule.penalty,
+            },
+        ];
+    });
+    return {
+        results,
+        causes: results.map(({ message, score }) => ({ message, score })),
+        score: results.reduce((sum, r) => sum + r.score, 0),
+    };
+}
+
+/** Trust (0..1) from the total score: 1 minus the penalties, 0 at or below `zeroAt` */
+export function trustFromScore(score: number, zeroAt = ZERO_TRUST_SCORE) {
+    if (score <= zeroAt) return 0;
+    return Math.max(0, Math.min(1, 1 + score));
+}
@@ -0,0 +1,28 @@
+import type { FaceMatch, VerificationCause } from '../verification';
+import type { FaceMatcher, LlmAdapter, OcrAdapter, TrustAgent } from './types';
+
+// === Local stand-ins for the adapters ===
+// Fixed or computed answers and no network: run the pipeline in scripts, demos or CI.
+
+/** Face matcher answering the given similarities (one face match each) */
+export function stubFaceMatcher(similarities: number | number[] | FaceMatch[] = 0.99): FaceMatcher {
+    const matches = (Array.isArray(similarities) ? similarities : [similarities]).map((m) =>
+        typeof m === 'number' ? { similarity: m } : m,
+    );
+    return { verify: async () => matches };
+}
+
+/** LLM answering `reply`, or what `reply(prompt)` returns */
+export function stubLlm(reply: string | ((prompt: string) => string)): LlmAdapter {
+    return { complete: async (prompt) => (typeof reply === 'string' ? reply : reply(prompt)) };
+}
+
+/** OCR step returning fixed fields whatever the input */
+export function stubOcr(fields: Record<string, unknown>): OcrAdapter {
+    return { extract: async () => fields };
+}
+
+/** Trust agent returning fixed causes (none: every judgment passes) */
+export function stubTrustAgent(causes: VerificationCause[] = []): TrustAgent {
+    return { assess: async () => causes };
+}
@@ -0,0 +1,99 @@
+import type { FaceMatch, VerificationCause, VerificationResponse, VerificationSummary } from '../verification';
+
+// === Server-side verification pipeline (the n8n workflow as code) ===
+// Adapters stand in for the workflow's external services so they can be swapped
+// (other providers) or stubbed (local runs, fixtures).
+
+/** Image given to the pipeline: a URL to download (as the workflow does) or the bytes */
+export type ServerImage = string | Blob | ArrayBuffer | Uint8Array;
+
+export interface VerificationInput {
+    /** ID document image (webhook field `idDocumentFile`) */
+    idDocument: ServerImage;
+    /** Selfie holding the document (`selfieWithIdDocumentFile`) */
+    selfie: ServerImage;
+    /** Raw OCR text of the document (`idDocumentOCR`) */
+    idDocumentOCR?: string;
+    /** Client-side causes (e.g. checkAuthenticity signals), scored as they are */
+    signals?: VerificationCause[];
+}
+
+/** "Extract Metadata" node: what the rules read from the ID document file */
+export interface ImageMetadata {
+    format: 'jpeg' | 'png' | 'webp' | 'unknown';
+    /** Bytes */
+    size: number;
+    width: number | null;
+    height: number | null;
+    /** Camera maker and model (EXIF Make / Model) */
+    make: string | null;
+    model: string | null;
+    /** Producing software (EXIF Software, PNG Software text chunk) */
+    software: string | null;
+    /** Capture date, ISO without time zone as EXIF stores it (DateTimeOriginal, else DateTime) */
+    capturedAt: string | null;
+    /** Dots per inch, null when unknown */
+    dpi: number | null;
+}
+
+/** Cleaned document fields ("Clean OCR Result" node); known keys normalized, the rest kept as is */
+export interface DocumentData {
+    lastName?: string;
+    firstName?: string;
+    documentNumber?: string;
+    nationality?: string;
+    sex?: string;
+    /** ISO dates (YYYY-MM-DD) */
+    birthDate?: string;
+    issueDate?: string;
+    expiryDate?: string;
+    [field: string]: unknown;
+}
+
+/** Face matching service ("Send Images to Face Matching" node) */
+export interface FaceMatcher {
+    /** Matches of the faces of `target` against the face of `source` */
+    verify(source: Blob, target: Blob, signal?: AbortSignal): Promise<FaceMatch[]>;
+}
+
+/** Chat model used by the OCR cleaner and the trust agent */
+export interface LlmAdapter {
+    /** Answer to a single-message prompt; `json` asks for a JSON object reply */
+    complete(prompt: string, options?: { json?: boolean; signal?: AbortSignal }): Promise<string>;
+}
+
+/** OCR step: document fields from the client OCR text and/or the image */
+export interface OcrAdapter {
+    extract(input: { text: string | null; image: Blob }, signal?: AbortSignal): Promise<Record<string, unknown>>;
+}
+
+/** What a trust agent judges: the inputs of the workflow's "AI Agent" prompt */
+export interface TrustAgentInput {
+    document: DocumentData;
+    metadata: ImageMetadata | null;
+    now: Date;
+}
+
+/** Judgment calls the rules can't make (e.g. "not AI generated"); its causes are scored with the rules' */
+export interface TrustAgent {
+    assess(input: TrustAgentInput, signal?: AbortSignal): Promise<VerificationCause[]>;
+}
+
+export interface ImageMetadataReader {
+    read(image: Blob): Promise<ImageMetadata>;
+}
+
+export type PipelineStage = 'download' | 'metadata' | 'ocr' | 'face-match' | 'agent';
+
+/** Rejection of the pipeline: the stage that failed and its cause */
+export type PipelineError = Error & { name: 'PipelineError'; stage: PipelineStage; cause: unknown };
+
+export interface ServerVerificationResult {
+    /** Same shape as the workflow's webhook response (trust as a "0.0000" string) */
+    response: VerificationResponse;
+    summary: VerificationSummary;
+    document: DocumentData;
+    metadata: ImageMetadata | null;
+    /** Sum of the cause scores the trust is derived from */
+    score: number;
+}
@@ -0,0 +1,193 @@
+import { describe, expect, it } from 'vitest';
+import { compreFaceMatcher, llmOcrCleaner } from './adapters';
+import { readImageMetadata } from './metadata';
+import { stubFaceMatcher, stubLlm, stubOcr, stubTrustAgent } from './stubs';
+import { createVerifier, isPipelineError } from './verify';
+
+const TAG_MAKE = 0x010f;
+const TAG_MODEL = 0x0110;
+const TAG_DATE_TIME = 0x0132;
+
+// Smallest JPEG the metadata reader understands: SOI, APP1 Exif (IFD0 ASCII tags), SOF0 with the size
+function jpeg(width: number, height: number, tags: Record<number, string> = {}) {
+    const entries = Object.entries(tags).map(([tag, text]) => [Number(tag), `${text}\0`] as const);
+    const ifdSize = 2 + entries.length * 12 + 4;
+    const tiff = new Uint8Array(8 + ifdSize + entries.reduce((n, [, text]) => n + text.length, 0));
+    const view = new DataView(tiff.buffer);
+    tiff.set([0x4d, 0x4d, 0x00, 0x2a]); // big-endian TIFF
+    view.setUint32(4, 8);
+    view.setUint16(8, entries.length);
+    let at = 8 + ifdSize;
+    entries.forEach(([tag, text], i) => {
+        const entry = 10 + i * 12;
+        view.setUint16(entry, tag);
+        view.setUint16(entry + 2, 2); // ASCII
+        view.setUint32(entry + 4, text.length);
+        view.setUint32(entry + 8, at);
+        tiff.set(
+            [...text].map((c) => c.charCodeAt(0)),
+            at,
+        );
+        at += text.length;
+    });
+
+    const exif = new Uint8Array([0x45, 0x78, 0x69, 0x66, 0, 0, ...tiff]);
+    const app1 = [0xff, 0xe1, (exif.length + 2) >> 8, (exif.length + 2) & 0xff, ...exif];
+    const sof = [0xff, 0xc0, 0, 11, 8, height >> 8, height & 0xff, width >> 8, width & 0xff, 1, 1, 0x11, 0];
+    return new Uint8Array([0xff, 0xd8, ...app1, ...sof, 0xff, 0xd9]);
+}
+
+const now = () => new Date('2025-06-01T12:00:00Z');
+const phonePhoto = jpeg(3024, 4032, {
+    [TAG_MAKE]: 'Apple',
+    [TAG_MODEL]: 'iPhone 13',
+    [TAG_DATE_TIME]: '2025:06:01 10:30:00',
+});
+const fields = { surname: 'ERIKSSON', givenNames: 'Anna Maria', issueDate: '15/01/2020', expiryDate: '14/01/2030' };
+
+describe('createVerifier', () => {
+    it('accepts a valid document with a matching face', async () => {
+        const verifier = createVerifier({
+            faceMatcher: stubFaceMatcher(0.96),
+            ocr: stubOcr(fields),
+            agent: stubTrustAgent(),
+            now,
+        });
+        const result = await verifier.verify({ idDocument: phonePhoto, selfie: new Uint8Array([1]) });
+
+        expect(result.metadata).toMatchObject({
+            format: 'jpeg',
+            width: 3024,
+            height: 4032,
+            make: 'Apple',
+            model: 'iPhone 13',
+            capturedAt: '2025-06-01T10:30:00',
+        });
+        expect(result.document).toMatchObject({
+            lastName: 'ERIKSSON',
+            firstName: 'Anna Maria',
+            issueDate: '2020-01-15',
+            expiryDate: '2030-01-14',
+        });
+        expect(result.score).toBe(0);
+        expect(result.response.trust).toBe('1.0000');
+        expect(result.response.cause.every((c) => c.score === 0)).toBe(true);
+        expect(result.response.similaritySum).toBe(0.96);
+        expect(result.summary.verdict).toBe('accept');
+    });
+
+    it('scores the LLM-cleaned OCR, the trust agent and the client signals together', async () => {
+        const verifier = createVerifier({
+            faceMatcher: stubFaceMatcher(0.97),
+            ocr: llmOcrCleaner(
+                stubLlm(
+                    '```json\n{"personal_info": {"nom": "Eriksson", "prenom": "Anna"}, "date_of_expiry": "01.01.2024"}\n```',
+                ),
+            ),
+            agent: stubTrustAgent([{ message: 'Name looks made up', score: -0.5 }]),
+            now,
+        });
+        const result = await verifier.verify({
+            idDocument: phonePhoto,
+            selfie: new Uint8Array([1]),
+            idDocumentOCR: 'ERIKSSON ANNA 01.01.2024',
+            signals: [{ message: 'Screen replay suspected', score: -0.1 }],
+        });
+
+        expect(result.document).toMatchObject({ lastName: 'Eriksson', firstName: 'Anna', expiryDate: '2024-01-01' });
+        expect(result.response.cause.map((c) => [c.message, c.score])).toEqual(
+            expect.arrayContaining([
+                ['Document expired on 2024-01-01', -1],
+                ['Name looks made up', -0.5],
+                ['Screen replay suspected', -0.1],
+            ]),
+        );
+        expect(result.score).toBeCloseTo(-1.6);
+        expect(result.response.trust).toBe('0.0000');
+        expect(result.summary.verdict).toBe('reject');
+    });
+
+    it('scores no face on an image as no match, like the workflow', async () => {
+        const noFace = async () =>
+            Response.json({ message: 'No face is found in the given image', code: 28 }, { status: 400 });
+        const verifier = createVerifier({
+            faceMatcher: compreFaceMatcher({ url: 'http://compreface.test', apiKey: 'key', fetch: noFace }),
+            ocr: stubOcr(fields),
+            now,
+        });
+        const result = await verifier.verify({ idDocument: phonePhoto, selfie: new Uint8Array([1]) });
+
+        expect(result.response).toMatchObject({ trust: '1.0000', face_matches: [] });
+        expect(result.summary).toMatchObject({ faceSimilarity: null, verdict: 'manual-review' });
+    });
+
+    it('fails the face-match stage on other CompreFace errors', async () => {
+        const unauthorized = async () => Response.json({ message: 'Invalid API key', code: 1 }, { status: 401 });
+        const verifier = createVerifier({
+            faceMatcher: compreFaceMatcher({ url: 'http://compreface.test', apiKey: 'key', fetch: unauthorized }),
+            ocr: stubOcr(fields),
+            now,
+        });
+        const error = await verifier.verify({ idDocument: phonePhoto, selfie: new Uint8Array([1]) }).catch((e) => e);
+
+        expect(error).toMatchObject({
+            stage: 'face-match',
+            message: 'Verification face-match step failed: CompreFace verification failed with HTTP 401',
+        });
+    });
+
+    it('names the stage that failed', async () => {
+        const verifier = createVerifier({
+            faceMatcher: { verify: () => Promise.reject(new Error('CompreFace is down')) },
+            ocr: stubOcr(fields),
+            now,
+        });
+        const error = await verifier.verify({ idDocument: phonePhoto, selfie: new Uint8Array([1]) }).catch((e) => e);
+
+        expect(isPipelineError(error)).toBe(true);
+        expect(error).toMatchObject({
+            stage: 'face-match',
+            message: 'Verification face-match step failed: CompreFace is down',
+        });
+    });
+});
+
+describe('readImageMetadata', () => {
+    it('keeps what a truncated JPEG has before the cut', async () => {
+        // SOF0 data up to the width, then EOI
+        const withSize = phonePhoto.length - 6;
+        for (let length = 2; length < phonePhoto.length; length++) {
+            const metadata = await readImageMetadata(new Blob([phonePhoto.subarray(0, length)]));
+            expect(metadata.format).toBe('jpeg');
+            expect(metadata.width).toBe(length >= withSize ? 3024 : null);
+        }
+    });
+
+    it('reads the Software text of a PNG with a large text chunk', async () => {
+        const chunk = (type: string, data: Uint8Array) => {
+            const bytes = new Uint8Array(12 + data.length);
+            new DataView(bytes.buffer).setUint32(0, data.length);
+            bytes.set(new TextEncoder().encode(type), 4);
+            bytes.set(data, 8);
+            return bytes; // CRC left at 0: the reader doesn't check it
+        };
+        const ihdr = new Uint8Array(13);
+        new DataView(ihdr.buffer).setUint32(0, 640);
+        new DataView(ihdr.buffer).setUint32(4, 480);
+        const comment = new TextEncoder().encode(`Comment\0${'x'.repeat(1 << 20)}`);
+        const png = new Blob([
+            new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+            chunk('IHDR', ihdr),
+            chunk('tEXt', comment),
+            chunk('tEXt', new TextEncoder().encode('Software\0Adobe Photoshop')),
+            chunk('IEND', new Uint8Array()),
+        ]);
+
+        expect(await readImageMetadata(png)).toMatchObject({
+            format: 'png',
+            width: 640,
+            height: 480,
+            software: 'Adobe Photoshop',
+        });
+    });
+});
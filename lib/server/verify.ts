@@ -0,0 +1,145 @@
+import {
+    faceSimilarity,
+    summarizeVerification,
+    type FaceMatch,
+    type VerificationCause,
+    type VerificationResponse,
+    type VerificationThresholds,
+} from '../verification';
+import { normalizeDocumentData } from './document';
+import { exifMetadataReader } from './metadata';
+import { DEFAULT_RULES, evaluateRules, trustFromScore, type VerificationRule } from './rules';
+import type {
+    FaceMatcher,
+    ImageMetadata,
+    ImageMetadataReader,
+    OcrAdapter,
+    PipelineError,
+    PipelineStage,
+    ServerImage,
+    ServerVerificationResult,
+    TrustAgent,
+    VerificationInput,
+} from './types';
+
+// === The verification workflow as a pipeline ===
+// Download both images -> ID metadata, OCR fields and face match (in parallel) -> rules,
+// trust agent and client signals scored together -> trust and verdict.
+
+export interface VerifierOptions {
+    /** Selfie vs ID document face matching (CompreFace in the workflow) */
+    faceMatcher: FaceMatcher;
+    /** Document fields from the OCR text; without it the fields are empty (name and expiry rules fail) */
+    ocr?: OcrAdapter;
+    /** Judgment calls on top of the rules (the workflow's AI Agent) */
+    agent?: TrustAgent;
+    /**
+     * ID document file metadata
+     * @default exifMetadataReader()
+     */
+    metadata?: ImageMetadataReader;
+    /**
+     * Scoring rules
+     * @default DEFAULT_RULES
+     */
+    rules?: VerificationRule[];
+    /** Verdict thresholds of the summary */
+    thresholds?: Partial<VerificationThresholds>;
+    /** Clock of the date rules (fixed in fixtures) */
+    now?: () => Date;
+    /** Used to download URL inputs */
+    fetch?: typeof fetch;
+}
+
+export interface Verifier {
+    /** Rejects with a PipelineError naming the failed stage, or an AbortError when cancelled */
+    verify(input: VerificationInput, signal?: AbortSignal): Promise<ServerVerificationResult>;
+}
+
+function pipelineError(stage: PipelineStage, cause: unknown): PipelineError {
+    const message = cause instanceof Error ? cause.message : String(cause);
+    return Object.assign(new Error(`Verification ${stage} step failed: ${message}`), {
+        name: 'PipelineError' as const,
+        stage,
+        cause,
+    });
+}
+
+export function isPipelineError(e: unknown): e is PipelineError {
+    return e instanceof Error && e.name === 'PipelineError';
+}
+
+// Cancellation goes through untouched
+async function stage<T>(name: PipelineStage, task: () => Promise<T>, signal?: AbortSignal): Promise<T> {
+    try {
+        return await task();
+    } catch (e) {
+        if (signal?.aborted) throw signal.reason ?? e;
+        throw pipelineError(name, e);
+    }
+}
+
+async function toBlob(image: ServerImage, fetchImpl: typeof fetch, signal?: AbortSignal): Promise<Blob> {
+    if (image instanceof Blob) return image;
+    if (typeof image !== 'string') return new Blob([new Uint8Array(image)]);
+    const res = await fetchImpl(image, { signal });
+    if (!res.ok) throw new Error(`GET ${image} failed with HTTP ${res.status}`);
+    return res.blob();
+}
+
+export function createVerifier({
+    faceMatcher,
+    ocr,
+    agent,
+    metadata: metadataReader = exifMetadataReader(),
+    rules = DEFAULT_RULES,
+    thresholds,
+    now = () => new Date(),
+    fetch: fetchImpl = fetch,
+}: VerifierOptions): Verifier {
+    return {
+        async verify({ idDocument, selfie, idDocumentOCR, signals = [] }, signal) {
+            const [idBlob, selfieBlob] = await stage(
+                'download',
+                () => Promise.all([toBlob(idDocument, fetchImpl, signal), toBlob(selfie, fetchImpl, signal)]),
+                signal,
+            );
+
+            const [metadata, fields, faceMatches] = await Promise.all([
+                stage<ImageMetadata | null>('metadata', () => metadataReader.read(idBlob), signal),
+                ocr
+                    ? stage('ocr', () => ocr.extract({ text: idDocumentOCR ?? null, image: idBlob }, signal), signal)
+                    : Promise.resolve({}),
+                // The workflow sends the selfie as source_image, the document as target_image
+                stage<FaceMatch[]>('face-match', () => faceMatcher.verify(selfieBlob, idBlob, signal), signal),
+            ]);
+
+            const document = normalizeDocumentData(fields);
+            const date = now();
+            const evaluation = evaluateRules(rules, { document, metadata, now: date });
+            const agentCauses: VerificationCause[] = agent
+                ? await stage('agent', () => agent.assess({ document, metadata, now: date }, signal), signal)
+                : [];
+
+            const cause = [...evaluation.causes, ...agentCauses, ...signals];
+            const score = cause.reduce((sum, c) => sum + c.score, 0);
+            const response: VerificationResponse = {
+                // The Structured Output Parser's "0.5000" format
+                trust: trustFromScore(score).toFixed(4),
+                cause,
+                face_matches: faceMatches,
+            };
+            // "Sum Similarity Score" node; no match at all is no similarity
+            const similarity = faceSimilarity(response);
+            if (similarity !== null) response.similaritySum = similarity;
+
+            return {
+                response,
+                summary: summarizeVerification(response, thresholds),
+                document,
+                metadata,
+                score,
+            };
+        },
+    };
+}
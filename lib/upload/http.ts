@@ -0,0 +1,147 @@
+// === HTTP transport with upload progress, cancellation and retries ===
+// XMLHttpRequest in browsers (fetch has no upload progress), fetch elsewhere (e.g. Node
+// against a mock server), where progress is only reported once the body is sent.
+
+export interface HttpRequest {
+    method: 'POST' | 'PUT';
+    url: string;
+    headers?: Record<string, string>;
+    body: Blob | FormData | string;
+    signal?: AbortSignal;
+    onUploadProgress?: (loaded: number, total: number) => void;
+}
+
+export interface HttpResponse {
+    status: number;
+    body: string;
+}
+
+/** Rejection of the uploader; `status` is null for network failures */
+export type UploadError = Error & { name: 'UploadError'; status: number | null };
+
+export function uploadError(message: string, status: number | null = null): UploadError {
+    return Object.assign(new Error(message), { name: 'UploadError' as const, status });
+}
+
+export function isUploadError(e: unknown): e is UploadError {
+    return e instanceof Error && e.name === 'UploadError';
+}
+
+export function abortError() {
+    return new DOMException('Upload cancelled', 'AbortError');
+}
+
+export function sendRequest(request: HttpRequest): Promise<HttpResponse> {
+    if (typeof XMLHttpRequest === 'undefined') return sendWithFetch(request);
+    const { method, url, headers = {}, body, signal, onUploadProgress } = request;
+    return new Promise<HttpResponse>((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(abortError());
+            return;
+        }
+        const xhr = new XMLHttpRequest();
+        xhr.open(method, url);
+        Object.entries(headers).forEach(([k, v]) => xhr.setRequestHeader(k, v));
+        if (onUploadProgress) {
+            xhr.upload.onprogress = (e) => {
+                if (e.lengthComputable) onUploadProgress(e.loaded, e.total);
+            };
+        }
+        const onAbort = () => xhr.abort();
+        signal?.addEventListener('abort', onAbort, { once: true });
+        const done = () => signal?.removeEventListener('abort', onAbort);
+        xhr.onload = () => {
+            done();
+            resolve({ status: xhr.status, body: xhr.responseText });
+        };
+        xhr.onerror = () => {
+            done();
+            reject(uploadError(`Network error on ${method} ${url}`));
+        };
+        xhr.ontimeout = xhr.onerror;
+        xhr.onabort = () => {
+            done();
+            reject(abortError());
+        };
+        xhr.send(body);
+    });
+}
+
+async function sendWithFetch({ method, url, headers, body, signal, onUploadProgress }: HttpRequest) {
+    let res: Response;
+    try {
+        res = await fetch(url, { method, headers, body, signal });
+    } catch (e) {
+        if (signal?.aborted) throw abortError();
+        throw uploadError(`Network error on ${method} ${url}: ${e instanceof Error ? e.message : String(e)}`);
+    }
+    const size = typeof body === 'string' ? body.length : body instanceof Blob ? body.size : 0;
+    onUploadProgress?.(size, size);
+    return { status: res.status, body: await res.text() };
+}
+
+/** Throw an UploadError for non-2xx responses */
+export function expectOk(res: HttpResponse, what: string) {
+    if (res.status < 200 || res.status >= 300) throw uploadError(`${what} failed with HTTP ${res.status}`, res.status);
+    return res;
+}
+
+export interface RetryOptions {
+    /**
+     * Retries after the first attempt (network errors, 408, 425, 429 and 5xx only)
+     * @default 3
+     */
+    retries?: number;
+    /**
+     * First backoff delay; doubles on each retry (with jitter)
+     * @default 500
+     */
+    retryDelayMs?: number;
+    /**
+     * Upper bound of a single backoff delay
+     * @default 8000
+     */
+    maxRetryDelayMs?: number;
+}
+
+function isRetryable(e: unknown) {
+    if (!isUploadError(e)) return false;
+    const { status } = e;
+    return status === null || status === 408 || status === 425 || status === 429 || status >= 500;
+}
+
+function sleep(ms: number, signal?: AbortSignal) {
+    return new Promise<void>((resolve, reject) => {
+        if (signal?.aborted) {
+            reject(abortError());
+            return;
+        }
+        const timer = setTimeout(() => {
+            signal?.removeEventListener('abort', onAbort);
+            resolve();
+        }, ms);
+        const onAbort = () => {
+            clearTimeout(timer);
+            reject(abortError());
+        };
+        signal?.addEventListener('abort', onAbort, { once: true });
+    });
+}
+
+/** Run `task` with exponential backoff on retryable failures; cancellation is never retried */
+export async function withRetry<T>(
+    task: (attempt: number) => Promise<T>,
+    { retries = 3, retryDelayMs = 500, maxRetryDelayMs = 8000 }: RetryOptions = {},
+    signal?: AbortSignal,
+): Promise<T> {
+    for (let attempt = 0; ; attempt++) {
+        try {
+            return await task(attempt);
+        } catch (e) {
+            if (attempt >= retries || !isRetryable(e)) throw e;
+            // Up to 50% jitter so clients that failed together do not retry in lockstep
+            const delay = Math.min(maxRetryDelayMs, retryDelayMs * 2 ** attempt);
+            await sleep(delay * (0.5 + Math.random() * 0.5), signal);
+        }
+    }
+}
@@ -0,0 +1,6 @@
+export { isUploadError, withRetry } from './http';
+export type { RetryOptions, UploadError } from './http';
+export { submitVerification } from './submit';
+export type { SubmitVerificationOptions } from './submit';
+export { N8N_FIELDS } from './types';
+export type { PresignedUpload, UploadFile, UploadProgress, VerificationSubmission } from './types';
@@ -0,0 +1,141 @@
+import { spawn } from 'node:child_process';
+import { join } from 'node:path';
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { isUploadError } from './http';
+import { submitVerification, type SubmitVerificationOptions } from './submit';
+import type { PresignedUpload } from './types';
+
+// scripts/mock-n8n.mjs on a free port; `env` configures it (FAIL_FIRST, RESPONSE_MODE)
+async function startMock(env: Record<string, string> = {}) {
+    const child = spawn(process.execPath, [join(import.meta.dirname, '../../scripts/mock-n8n.mjs')], {
+        env: { ...process.env, PORT: '0', ...env },
+        stdio: ['ignore', 'pipe', 'inherit'],
+    });
+    const url = await new Promise<string>((resolve, reject) => {
+        child.stdout.setEncoding('utf8');
+        child.stdout.on('data', (text: string) => {
+            const match = text.match(/http:\/\/localhost:\d+/);
+            if (match) resolve(match[0]);
+        });
+        child.once('exit', (code) => reject(new Error(`mock-n8n exited with code ${code}`)));
+    });
+    return { url, close: () => child.kill() };
+}
+
+const submission = {
+    idDocument: new Blob(['id-document'], { type: 'image/jpeg' }),
+    selfie: new Blob(['selfie'], { type: 'image/png' }),
+    idDocumentOCR: 'ERIKSSON ANNA',
+};
+const fast = { retryDelayMs: 1, maxRetryDelayMs: 1 };
+
+describe('submitVerification against the mock workflow', () => {
+    let mock: Awaited<ReturnType<typeof startMock>>;
+    let presigned = 0;
+    const presign = async (): Promise<PresignedUpload> => {
+        presigned++;
+        return (await fetch(`${mock.url}/presign`, { method: 'POST' })).json();
+    };
+    const options = (extra: Partial<SubmitVerificationOptions> = {}): SubmitVerificationOptions => ({
+        endpoint: `${mock.url}/webhook`,
+        presign,
+        ...fast,
+        ...extra,
+    });
+
+    beforeAll(async () => {
+        mock = await startMock();
+    });
+    afterAll(() => mock.close());
+
+    it.each(['presigned', 'multipart'] as const)('returns the validated %s response', async (mode) => {
+        expect(await submitVerification(submission, options({ mode }))).toMatchObject({
+            trust: '0.9000',
+            similaritySum: 0.97,
+            cause: expect.arrayContaining([{ message: 'Document is not expired', score: 0 }]),
+        });
+    });
+
+    it('reports the progress of both uploads', async () => {
+        const progress: number[][] = [];
+        await submitVerification(submission, options({ onProgress: (p) => progress.push([p.loaded, p.total]) }));
+
+        // One report per file in Node (fetch has no upload progress), in whichever order they finish
+        const total = submission.idDocument.size + submission.selfie.size;
+        expect(progress).toHaveLength(2);
+        expect([submission.idDocument.size, submission.selfie.size]).toContain(progress[0][0]);
+        expect(progress[0][1]).toBe(total);
+        expect(progress[1]).toEqual([total, total]);
+    });
+
+    it('does not presign or upload with a signal aborted before the call', async () => {
+        presigned = 0;
+        const onProgress = () => expect.unreachable('no upload');
+        const error = await submitVerification(submission, options({ signal: AbortSignal.abort(), onProgress })).catch(
+            (e) => e,
+        );
+
+        expect(error.name).toBe('AbortError');
+        expect(presigned).toBe(0);
+    });
+
+    it('cancels the uploads once aborted', async () => {
+        const controller = new AbortController();
+        let uploaded = 0;
+        const error = await submitVerification(
+            submission,
+            options({
+                presign: async () => {
+                    const target = await presign();
+                    controller.abort();
+                    return target;
+                },
+                signal: controller.signal,
+                onProgress: () => uploaded++,
+            }),
+        ).catch((e) => e);
+
+        expect(error.name).toBe('AbortError');
+        expect(uploaded).toBe(0);
+    });
+
+    it('rejects the answer of a Webhook that responds before the workflow ends', async () => {
+        const immediate = await startMock({ RESPONSE_MODE: 'onReceived' });
+        try {
+            const error = await submitVerification(submission, { endpoint: `${immediate.url}/webhook`, ...fast }).catch(
+                (e) => e,
+            );
+            expect(isUploadError(error)).toBe(true);
+            expect(error).toMatchObject({
+                status: 200,
+                message: expect.stringMatching(/^Invalid verification response/),
+            });
+        } finally {
+            immediate.close();
+        }
+    });
+});
+
+describe('submitVerification retries', () => {
+    // The first `failures` uploads or webhook calls answer HTTP 503
+    it.each([
+        ['multipart', 2, 2, true],
+        ['multipart', 2, 1, false],
+        ['presigned', 1, 1, true],
+    ] as const)('%s: %i failures, %i retries', async (mode, failures, retries, succeeds) => {
+        const mock = await startMock({ FAIL_FIRST: String(failures) });
+        try {
+            const result = submitVerification(submission, {
+                endpoint: `${mock.url}/webhook`,
+                mode,
+                presign: async () => (await fetch(`${mock.url}/presign`, { method: 'POST' })).json(),
+                retries,
+                ...fast,
+            });
+            if (succeeds) await expect(result).resolves.toMatchObject({ trust: '0.9000' });
+            else await expect(result).rejects.toMatchObject({ name: 'UploadError', status: 503 });
+        } finally {
+            mock.close();
+        }
+    });
+});
@@ -0,0 +1,176 @@
+import {
+    abortError,
+    expectOk,
+    sendRequest,
+    uploadError,
+    withRetry,
+    type HttpResponse,
+    type RetryOptions,
+} from './http';
+import { validateVerificationResponse, type VerificationResponse } from '../verification';
+import {
+    N8N_FIELDS,
+    type PresignedUpload,
+    type UploadFile,
+    type UploadProgress,
+    type VerificationSubmission,
+} from './types';
+
+// === Send captures to the n8n verification webhook ===
+
+export interface SubmitVerificationOptions extends RetryOptions {
+    /**
+     * n8n Webhook URL (a local mock server works too, see scripts/mock-n8n.mjs). The Webhook node must
+     * take POST and respond when the last node finishes (`responseMode: 'lastNode'`, as in n8n.schema.json):
+     * with the default "Immediately" it answers before the result, which rejects as an invalid response
+     */
+    endpoint: string;
+    /**
+     * - 'multipart': one multipart/form-data POST with the images as binary fields
+     * - 'presigned': PUT each image to the URL from `presign`, then POST the file URLs as JSON
+     *   (what the bundled workflow expects: its Webhook downloads `idDocumentFile` by URL)
+     * @default 'presigned' when `presign` is set, otherwise 'multipart'
+     */
+    mode?: 'multipart' | 'presigned';
+    /** Get an upload URL for one file (e.g. from your backend signing S3/GCS URLs) */
+    presign?: (file: UploadFile) => Promise<PresignedUpload>;
+    /** Extra headers for the webhook request (e.g. webhook auth) */
+    headers?: Record<string, string>;
+    /** Abort to cancel every pending upload and the webhook call */
+    signal?: AbortSignal;
+    onProgress?: (progress: UploadProgress) => void;
+}
+
+function toUploadFile(field: string, input: VerificationSubmission['idDocument'], preferCardCrop: boolean) {
+    const blob = input instanceof Blob ? input : (preferCardCrop && input.cardImage?.blob) || input.blob;
+    const contentType = blob.type || 'image/jpeg';
+    return { field, filename: `${field}.${contentType.split('/')[1] ?? 'jpg'}`, contentType, blob };
+}
+
+function parseResponse(res: HttpResponse): VerificationResponse {
+    let json: unknown;
+    try {
+        json = JSON.parse(res.body);
+    } catch {
+        throw uploadError('Webhook response is not JSON', res.status);
+    }
+    // e.g. {"message":"Workflow was started"} when the Webhook doesn't wait for the last node
+    const validation = validateVerificationResponse(json);
+    if (!validation.valid) {
+        throw uploadError(`Invalid verification response: ${validation.errors.join('; ')}`, res.status);
+    }
+    return validation.response;
+}
+
+/**
+ * Upload an ID document and a selfie to the verification workflow and return its response.
+ * Rejects with an UploadError (HTTP/network after retries, or a response that doesn't match
+ * the workflow output) or an AbortError when cancelled.
+ */
+export async function submitVerification(
+    submission: VerificationSubmission,
+    options: SubmitVerificationOptions,
+): Promise<VerificationResponse> {
+    const { endpoint, presign, headers = {}, signal, onProgress, ...retry } = options;
+    const mode = options.mode ?? (presign ? 'presigned' : 'multipart');
+    const files = [
+        toUploadFile(N8N_FIELDS.idDocument, submission.idDocument, true),
+        toUploadFile(N8N_FIELDS.selfie, submission.selfie, false),
+    ];
+    const fields: Record<string, string> = {
+        ...(submission.idDocumentOCR ? { [N8N_FIELDS.idDocumentOCR]: submission.idDocumentOCR } : {}),
+        ...submission.fields,
+    };
+    const report = (loaded: number, total: number) =>
+        onProgress?.({ loaded, total, ratio: total ? Math.min(1, loaded / total) : 1 });
+
+    if (mode === 'multipart') {
+        const form = new FormData();
+        files.forEach((f) => form.append(f.field, f.blob, f.filename));
+        Object.entries(fields).forEach(([k, v]) => form.append(k, v));
+        const res = await withRetry(
+            async () =>
+                expectOk(
+                    await sendRequest({
+                        method: 'POST',
+                        url: endpoint,
+                        headers,
+                        body: form,
+                        signal,
+                        onUploadProgress: report,
+                    }),
+                    'Webhook',
+                ),
+            retry,
+            signal,
+        );
+        return parseResponse(res);
+    }
+
+    if (!presign) throw new Error("submitVerification: mode 'presigned' requires a `presign` function");
+
+    // Files upload in parallel; one failing cancels the other
+    const controller = new AbortController();
+    const onAbort = () => controller.abort();
+    // The listener never fires for a signal aborted before the call
+    if (signal?.aborted) controller.abort();
+    signal?.addEventListener('abort', onAbort, { once: true });
+    const total = files.reduce((a, f) => a + f.blob.size, 0);
+    const loaded = files.map(() => 0);
+    try {
+        const urls = await Promise.all(
+            files.map(async (file, i) => {
+                if (controller.signal.aborted) throw abortError();
+                const target = await presign(file);
+                if (controller.signal.aborted) throw abortError();
+                await withRetry(
+                    async () => {
+                        loaded[i] = 0;
+                        return expectOk(
+                            await sendRequest({
+                                method: target.method ?? 'PUT',
+                                url: target.uploadUrl,
+                                headers: { 'Content-Type': file.contentType, ...target.headers },
+                                body: file.blob,
+                                signal: controller.signal,
+                                onUploadProgress: (n) => {
+                                    loaded[i] = n;
+                                    report(
+                                        loaded.reduce((a, v) => a + v, 0),
+                                        total,
+                                    );
+                                },
+                            }),
+                            `Upload of ${file.field}`,
+                        );
+                    },
+                    retry,
+                    controller.signal,
+                );
+                return [file.field, target.fileUrl] as const;
+            }),
+        ).catch((e: unknown) => {
+            controller.abort();
+            throw e;
+        });
+
+        const res = await withRetry(
+            async () =>
+                expectOk(
+                    await sendRequest({
+                        method: 'POST',
+                        url: endpoint,
+                        headers: { 'Content-Type': 'application/json', ...headers },
+                        body: JSON.stringify({ ...Object.fromEntries(urls), ...fields }),
+                        signal,
+                    }),
+                    'Webhook',
+                ),
+            retry,
+            signal,
+        );
+        return parseResponse(res);
+    } finally {
+        signal?.removeEventListener('abort', onAbort);
+    }
+}
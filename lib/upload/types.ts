@@ -0,0 +1,47 @@
+import type { CaptureResult } from '../core/types';
+
+// === Webhook input of the bundled n8n workflow (n8n.schema.json) ===
+// The response is modeled in ../verification
+
+/** Webhook fields the workflow reads (`$json.idDocumentFile`, ...) */
+export const N8N_FIELDS = {
+    idDocument: 'idDocumentFile',
+    selfie: 'selfieWithIdDocumentFile',
+    idDocumentOCR: 'idDocumentOCR',
+} as const;
+
+export interface VerificationSubmission {
+    /** ID document capture (its flat card crop is sent when available) or image */
+    idDocument: CaptureResult | Blob;
+    /** Selfie holding the document */
+    selfie: CaptureResult | Blob;
+    /** OCR text of the document, for the "Clean OCR Result" step */
+    idDocumentOCR?: string;
+    /** Extra webhook fields */
+    fields?: Record<string, string>;
+}
+
+export interface UploadProgress {
+    /** Bytes of image data sent so far */
+    loaded: number;
+    total: number;
+    /** 0..1 */
+    ratio: number;
+}
+
+/** Where to PUT one file, and the URL the workflow will download it from */
+export interface PresignedUpload {
+    uploadUrl: string;
+    fileUrl: string;
+    /** @default 'PUT' */
+    method?: 'PUT' | 'POST';
+    headers?: Record<string, string>;
+}
+
+export interface UploadFile {
+    /** Webhook field the file is for (see N8N_FIELDS) */
+    field: string;
+    filename: string;
+    contentType: string;
+    blob: Blob;
+}
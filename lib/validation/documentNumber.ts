@@ -0,0 +1,87 @@
+import { EU_MEMBER_STATES } from './countries';
+
+// === Document number formats per issuing country ===
+// Checked on the number as printed (spaces removed). Countries without an entry are not
+// checked; add entries to DOCUMENT_NUMBER_FORMATS or pass your own list to the validator.
+
+export type IdentityDocumentType = 'id-card' | 'passport';
+
+export interface DocumentNumberFormat {
+    id: string;
+    /** Issuing states (ISO 3166-1 alpha-3) */
+    countries: string[];
+    documentType: IdentityDocumentType;
+    pattern: RegExp;
+    /** ISO dates bounding the issue dates of documents with this format */
+    issuedFrom?: string;
+    issuedUntil?: string;
+}
+
+export const DOCUMENT_NUMBER_FORMATS: DocumentNumberFormat[] = [
+    // Carte nationale d'identité 1995-2021: issue year and month, issuing office, sequence
+    {
+        id: 'fr-cni-1995',
+        countries: ['FRA'],
+        documentType: 'id-card',
+        pattern: /^\d{4}[0-9A-Z]{3}\d{5}$/,
+        issuedUntil: '2021-08-01',
+    },
+    // Carte nationale d'identité électronique (EU format), issued since March 2021
+    {
+        id: 'fr-cni-2021',
+        countries: ['FRA'],
+        documentType: 'id-card',
+        pattern: /^[0-9A-Z]{9}$/,
+        issuedFrom: '2021-03-15',
+    },
+    { id: 'fr-passport', countries: ['FRA'], documentType: 'passport', pattern: /^\d{2}[A-Z]{2}\d{5}$/ },
+    // Personalausweis: 9 characters without vowels and lookalikes (B, D, Q, S)
+    {
+        id: 'de-personalausweis',
+        countries: ['DEU'],
+        documentType: 'id-card',
+        pattern: /^[CFGHJKLMNPRTVWXYZ0-9]{9}$/,
+    },
+    // Harmonized ID card of Regulation (EU) 2019/1157 (ICAO TD1, 9-character document number)
+    {
+        id: 'eu-id-card',
+        countries: [...EU_MEMBER_STATES],
+        documentType: 'id-card',
+        pattern: /^[0-9A-Z]{9}$/,
+        issuedFrom: '2021-08-02',
+    },
+];
+
+/** The number as compared: uppercase, no spaces, dashes or MRZ fillers */
+export function normalizeDocumentNumber(value: string) {
+    return value.toUpperCase().replace(/[\s<-]/g, '');
+}
+
+/**
+ * Formats of `country` for the document type and issue date (when known), in list order;
+ * an empty list means the country's numbers can't be checked
+ */
+export function documentNumberFormats(
+    country: string,
+    { documentType, issueDate }: { documentType?: IdentityDocumentType; issueDate?: string } = {},
+    formats: DocumentNumberFormat[] = DOCUMENT_NUMBER_FORMATS,
+) {
+    return formats.filter(
+        (f) =>
+            f.countries.includes(country) &&
+            (!documentType || f.documentType === documentType) &&
+            (!issueDate ||
+                ((!f.issuedFrom || issueDate >= f.issuedFrom) && (!f.issuedUntil || issueDate <= f.issuedUntil))),
+    );
+}
+
+/** First format the number matches, null when none does */
+export function matchDocumentNumber(
+    number: string,
+    country: string,
+    options?: { documentType?: IdentityDocumentType; issueDate?: string },
+    formats?: DocumentNumberFormat[],
+): DocumentNumberFormat | null {
+    const value = normalizeDocumentNumber(number);
+    return documentNumberFormats(country, options, formats).find((f) => f.pattern.test(value)) ?? null;
+}
@@ -0,0 +1,209 @@
+import { describe, expect, it } from 'vitest';
+import { mrzCheckDigit, parseMrz } from '../mrz/parse';
+import {
+    ageOn,
+    validateIdentityFields,
+    type FieldCheck,
+    type FieldValidationOptions,
+    type IdentityFields,
+} from './fields';
+
+const now = new Date('2025-06-01T12:00:00Z');
+
+// TD3 with computed check digits (German passport: 'D' is the MRZ code of Germany)
+function passportMrz() {
+    const [number, birth, expiry] = ['C01X00T47', '830812', '310101'];
+    const data = [
+        number,
+        mrzCheckDigit(number),
+        'D<<',
+        birth,
+        mrzCheckDigit(birth),
+        'F',
+        expiry,
+        mrzCheckDigit(expiry),
+    ];
+    // Empty personal number (check digit 0), then the composite check digit
+    const line2 = `${data.join('')}${'<'.repeat(14)}0`;
+    const composite = line2.slice(0, 10) + line2.slice(13, 20) + line2.slice(21, 43);
+    return parseMrz([`P<D<<${'MUELLER<<ERIKA<ANNA'.padEnd(39, '<')}`, line2 + mrzCheckDigit(composite)], { now });
+}
+
+// Findings of one check, as [passed, message]
+function findings(fields: IdentityFields, check: FieldCheck, options: FieldValidationOptions = {}) {
+    return validateIdentityFields(fields, { now, ...options })
+        .findings.filter((f) => f.check === check)
+        .map((f) => [f.passed, f.message]);
+}
+
+describe('validateIdentityFields', () => {
+    it.each([
+        [null, false, 'No expiry date was read on the document'],
+        ['2025-05-31', false, 'Document expired on 2025-05-31'],
+        ['2025-06-01', true, 'Document is valid until 2025-06-01'],
+        ['2034-12-31', true, 'Document is valid until 2034-12-31'],
+    ])('expiry %s', (expiryDate, passed, message) => {
+        expect(findings({ expiryDate }, 'expiry')).toEqual([[passed, message]]);
+    });
+
+    it.each([
+        ['2025-06-02', '2035-06-01', false, 'Issue date 2025-06-02 is in the future'],
+        ['2020-01-01', '2020-01-01', false, 'Expiry date 2020-01-01 is not after issue date 2020-01-01'],
+        ['2020-01-01', '2019-12-31', false, 'Expiry date 2019-12-31 is not after issue date 2020-01-01'],
+        ['2015-06-01', '2030-06-01', true, 'Issue date 2015-06-01 is consistent'],
+        ['2015-06-01', '2030-06-02', false, 'Validity from 2015-06-01 to 2030-06-02 exceeds 15 years'],
+        ['2025-06-01', null, true, 'Issue date 2025-06-01 is consistent'],
+    ])('issue date %s, expiry %s', (issueDate, expiryDate, passed, message) => {
+        expect(findings({ issueDate, expiryDate }, 'issue-date')).toEqual([[passed, message]]);
+    });
+
+    it('takes the longest validity from the options', () => {
+        const fields = { issueDate: '2015-06-01', expiryDate: '2030-06-02' };
+        expect(findings(fields, 'issue-date', { maxValidityYears: 20 })).toEqual([
+            [true, 'Issue date 2015-06-01 is consistent'],
+        ]);
+    });
+
+    it('skips the issue date check without an issue date', () => {
+        expect(findings({ expiryDate: '2030-01-01' }, 'issue-date')).toEqual([]);
+    });
+
+    it.each([
+        ['1983-08-12', null, true, 'Birth date 1983-08-12 is plausible'],
+        ['2025-06-02', null, false, 'Birth date 2025-06-02 is in the future'],
+        ['2020-01-02', '2020-01-01', false, 'Birth date 2020-01-02 is after issue date 2020-01-01'],
+        ['1894-01-01', null, false, 'Birth date 1894-01-01 is not plausible'],
+    ])('birth date %s (issued %s)', (birthDate, issueDate, passed, message) => {
+        expect(findings({ birthDate, issueDate }, 'birth-date')).toEqual([[passed, message]]);
+    });
+
+    it.each([
+        // Eighteenth birthday today
+        ['2007-06-01', 18, [[true, 'Holder is at least 18 years old']]],
+        ['2007-06-02', 18, [[false, 'Holder is 17, under the minimum age of 18']]],
+        ['2007-06-02', 16, [[true, 'Holder is at least 16 years old']]],
+        ['2007-06-02', null, []],
+        // A future birth date is reported by the birth date check only
+        ['2025-06-02', 18, []],
+    ])('minimum age: born %s, minimum %s', (birthDate, minimumAge, expected) => {
+        expect(findings({ birthDate }, 'minimum-age', { minimumAge })).toEqual(expected);
+    });
+
+    it.each([
+        ['FR', undefined, true, 'Issuing state FRA is valid'],
+        ['fra', undefined, true, 'Issuing state FRA is valid'],
+        ['D<<', undefined, true, 'Issuing state DEU is valid'],
+        ['XYZ', undefined, false, 'Issuing state XYZ is not an ISO 3166 country code'],
+        ['DEU', ['FRA', 'BEL'], false, 'Issuing state DEU is not accepted'],
+    ])('issuing country %s (allowed: %j)', (issuingCountry, allowedCountries, passed, message) => {
+        expect(findings({ issuingCountry }, 'issuing-country', { allowedCountries })).toEqual([[passed, message]]);
+    });
+
+    it('leaves nationalities printed as words unchecked', () => {
+        expect(findings({ nationality: 'Française' }, 'nationality')).toEqual([]);
+        expect(findings({ nationality: 'XX' }, 'nationality')).toEqual([
+            [false, 'Nationality XX is not an ISO 3166 country code'],
+        ]);
+    });
+
+    it.each([
+        ['880692310285', 'id-card', '2018-06-01', true, 'Document number matches the fr-cni-1995 format'],
+        ['X4RTBPFW4', 'id-card', '2022-06-01', true, 'Document number matches the fr-cni-2021 format'],
+        ['880692310285', 'id-card', '2022-06-01', false, 'Document number 880692310285 does not match the FRA formats'],
+        ['18AB12345', 'passport', null, true, 'Document number matches the fr-passport format'],
+        ['18 AB 12345', 'passport', null, true, 'Document number matches the fr-passport format'],
+        ['AB1234567', 'passport', null, false, 'Document number AB1234567 does not match the FRA formats'],
+    ])('French document number %s (%s issued %s)', (documentNumber, documentType, issueDate, passed, message) => {
+        const fields = { documentNumber, documentType, issueDate, issuingCountry: 'FR' } as IdentityFields;
+        expect(findings(fields, 'document-number')).toEqual([[passed, message]]);
+    });
+
+    it('leaves document numbers of countries without formats unchecked', () => {
+        expect(findings({ documentNumber: '123', issuingCountry: 'USA' }, 'document-number')).toEqual([]);
+    });
+
+    describe('MRZ cross-checks', () => {
+        const visual: IdentityFields = {
+            surname: 'Müller',
+            givenNames: 'Erika Anna Sophie',
+            documentNumber: 'C01X 00T47',
+            sex: 'W',
+            birthDate: '1983-08-12',
+            expiryDate: '2031-01-01',
+            nationality: 'Deutsch',
+            issuingCountry: 'D',
+        };
+
+        it('agrees with the visual zone despite transliteration, truncation and spacing', () => {
+            const report = validateIdentityFields({ ...visual, mrz: passportMrz() }, { now });
+            expect(report.findings.filter((f) => f.check === 'mrz-match').map((f) => [f.field, f.passed])).toEqual([
+                ['surname', true],
+                ['givenNames', true],
+                ['documentNumber', true],
+                ['birthDate', true],
+                ['expiryDate', true],
+                ['sex', true],
+                ['issuingCountry', true],
+            ]);
+            expect(report).toMatchObject({ valid: true, score: 0 });
+        });
+
+        it.each([
+            ['surname', { surname: 'Schmidt' }],
+            ['givenNames', { givenNames: 'Maria' }],
+            ['documentNumber', { documentNumber: 'C01X00T48' }],
+            ['birthDate', { birthDate: '1983-08-21' }],
+            ['expiryDate', { expiryDate: '2031-01-02' }],
+            ['sex', { sex: 'M' }],
+            ['issuingCountry', { issuingCountry: 'AT' }],
+        ])('flags a different %s', (field, change) => {
+            const report = validateIdentityFields({ ...visual, ...change, mrz: passportMrz() }, { now });
+            const failed = report.findings.filter((f) => f.check === 'mrz-match' && !f.passed);
+            expect(failed.map((f) => f.field)).toEqual([field]);
+            expect(failed[0].score).toBe(-1);
+        });
+
+        it('flags invalid check digits', () => {
+            const mrz = passportMrz();
+            const lines = [mrz!.lines[0], mrz!.lines[1].replace('830812', '830813')];
+            expect(findings({ mrz: parseMrz(lines, { now }) }, 'mrz-check-digits')).toEqual([
+                [false, 'MRZ check digits are invalid (birthDate, composite)'],
+            ]);
+            expect(findings({ mrz }, 'mrz-check-digits')).toEqual([[true, 'MRZ check digits are valid']]);
+        });
+
+        it('uses the MRZ issuing state and document code for the document number formats', () => {
+            const mrz = passportMrz();
+            expect(findings({ documentNumber: 'C01X00T47', mrz }, 'document-number')).toEqual([]);
+            const idCard = { ...mrz!, documentCode: 'ID', issuingState: 'FRA' };
+            expect(
+                findings({ documentNumber: 'X4RTBPFW4', issueDate: '2022-06-01', mrz: idCard }, 'document-number'),
+            ).toEqual([[true, 'Document number matches the fr-cni-2021 format']]);
+        });
+    });
+
+    it('sums the penalties into a workflow-style score', () => {
+        const report = validateIdentityFields(
+            { expiryDate: '2020-01-01', birthDate: '2010-01-01', issuingCountry: 'XYZ' },
+            { now, penalties: { 'issuing-country': -0.25 } },
+        );
+        expect(report.causes).toEqual([
+            { message: 'Document expired on 2020-01-01', score: -1 },
+            { message: 'Birth date 2010-01-01 is plausible', score: 0 },
+            { message: 'Holder is 15, under the minimum age of 18', score: -1 },
+            { message: 'Issuing state XYZ is not an ISO 3166 country code', score: -0.25 },
+        ]);
+        expect(report).toMatchObject({ score: -2.25, valid: false });
+    });
+});
+
+describe('ageOn', () => {
+    it.each([
+        ['2008-02-29', '2026-02-28', 17],
+        ['2008-02-29', '2026-03-01', 18],
+        ['1983-08-12', '2025-08-11', 41],
+        ['1983-08-12', '2025-08-12', 42],
+    ])('born %s, on %s: %i', (birthDate, on, age) => {
+        expect(ageOn(birthDate, new Date(`${on}T00:00:00Z`))).toBe(age);
+    });
+});
@@ -0,0 +1,314 @@
+import type { MrzResult } from '../mrz/parse';
+import type { VerificationCause } from '../verification/types';
+import { toAlpha3 } from './countries';
+import {
+    DOCUMENT_NUMBER_FORMATS,
+    documentNumberFormats,
+    matchDocumentNumber,
+    normalizeDocumentNumber,
+    type DocumentNumberFormat,
+    type IdentityDocumentType,
+} from './documentNumber';
+
+// === Deterministic validation of extracted identity fields ===
+// Dates against the clock and each other, minimum age, country codes, document number
+// formats and MRZ vs visual zone. Every check yields a workflow-style cause (0 when it
+// passed, a negative penalty otherwise); checks without the data they need are skipped.
+// Pure: runs in the browser and in Node.
+
+export interface IdentityFields {
+    surname?: string | null;
+    givenNames?: string | null;
+    documentNumber?: string | null;
+    documentType?: IdentityDocumentType | null;
+    /** Issuing state as printed: ISO 3166 alpha-2 / alpha-3 or MRZ code */
+    issuingCountry?: string | null;
+    nationality?: string | null;
+    /** 'M', 'F' or 'X' (first letter of the printed value is used) */
+    sex?: string | null;
+    /** ISO dates (YYYY-MM-DD) */
+    birthDate?: string | null;
+    issueDate?: string | null;
+    expiryDate?: string | null;
+    /** MRZ read from the same document: its check digits and fields are checked against the fields above */
+    mrz?: MrzResult | null;
+}
+
+export type FieldCheck =
+    | 'expiry'
+    | 'issue-date'
+    | 'birth-date'
+    | 'minimum-age'
+    | 'issuing-country'
+    | 'nationality'
+    | 'document-number'
+    | 'mrz-check-digits'
+    | 'mrz-match';
+
+export interface FieldValidationOptions {
+    /** Reference date (default: now) */
+    now?: Date;
+    /**
+     * Minimum holder age in years, null to skip the check
+     * @default 18
+     */
+    minimumAge?: number | null;
+    /**
+     * Longest accepted validity period (issue to expiry) in years
+     * @default 15
+     */
+    maxValidityYears?: number;
+    /** Accepted issuing states / nationalities (alpha-3); default: any ISO 3166 country */
+    allowedCountries?: string[];
+    /** @default DOCUMENT_NUMBER_FORMATS */
+    documentNumberFormats?: DocumentNumberFormat[];
+    penalties?: Partial<Record<FieldCheck, number>>;
+}
+
+export interface FieldFinding extends VerificationCause {
+    check: FieldCheck;
+    /** Field the finding is about (e.g. 'expiryDate', or the MRZ field compared) */
+    field: keyof IdentityFields;
+    passed: boolean;
+}
+
+export interface FieldValidationReport {
+    findings: FieldFinding[];
+    /** Findings as workflow causes */
+    causes: VerificationCause[];
+    /** Sum of the scores */
+    score: number;
+    /** Every check passed */
+    valid: boolean;
+}
+
+/** Penalty of each failed check, on the workflow's scale */
+export const DEFAULT_FIELD_PENALTIES: Record<FieldCheck, number> = {
+    expiry: -1,
+    'issue-date': -1,
+    'birth-date': -1,
+    'minimum-age': -1,
+    'issuing-country': -0.5,
+    nationality: -0.5,
+    'document-number': -0.5,
+    'mrz-check-digits': -1,
+    'mrz-match': -1,
+};
+
+// ICAO 9303 transliterations that differ from dropping the diacritic
+const TRANSLITERATIONS: Record<string, string> = {
+    Ä: 'AE',
+    Æ: 'AE',
+    Å: 'AA',
+    Ö: 'OE',
+    Ø: 'OE',
+    Œ: 'OE',
+    Ü: 'UE',
+    ß: 'SS',
+    Þ: 'TH',
+    Ĳ: 'IJ',
+};
+
+const isoDay = (date: Date) => date.toISOString().slice(0, 10);
+
+/** Age in whole years on `on` of someone born on `birthDate` (ISO) */
+export function ageOn(birthDate: string, on: Date) {
+    const [y, m, d] = birthDate.split('-').map(Number);
+    const age = on.getUTCFullYear() - y;
+    const beforeBirthday = on.getUTCMonth() + 1 < m || (on.getUTCMonth() + 1 === m && on.getUTCDate() < d);
+    return beforeBirthday ? age - 1 : age;
+}
+
+function addYears(isoDate: string, years: number) {
+    return `${Number(isoDate.slice(0, 4)) + years}${isoDate.slice(4)}`;
+}
+
+// MRZ spelling of a name, letters only (A-Z), with and without the ICAO transliterations
+function mrzNames(value: string) {
+    const plain = (s: string) =>
+        s
+            .normalize('NFD')
+            .replace(/\p{Diacritic}/gu, '')
+            .toUpperCase()
+            .replace(/[^A-Z]+/g, '');
+    const upper = value.toUpperCase();
+    return [plain(upper.replace(/[ÄÆÅÖØŒÜÞĲ]|ß/g, (c) => TRANSLITERATIONS[c] ?? c)), plain(upper)];
+}
+
+// MRZ names are truncated to the field width: the visual-zone name may be longer
+function namesMatch(visual: string, mrz: string) {
+    const [m] = mrzNames(mrz);
+    return mrzNames(visual).some((v) => v === m || (m.length >= 2 && v.startsWith(m)));
+}
+
+function sexCode(value: string) {
+    const c = value.trim().toUpperCase()[0];
+    // German cards print W (weiblich)
+    return c === 'W' ? 'F' : c;
+}
+
+export function validateIdentityFields(
+    fields: IdentityFields,
+    {
+        now = new Date(),
+        minimumAge = 18,
+        maxValidityYears = 15,
+        allowedCountries,
+        documentNumberFormats: formats = DOCUMENT_NUMBER_FORMATS,
+        penalties: penaltyOverrides,
+    }: FieldValidationOptions = {},
+): FieldValidationReport {
+    const penalties = { ...DEFAULT_FIELD_PENALTIES, ...penaltyOverrides };
+    const today = isoDay(now);
+    const { birthDate, issueDate, expiryDate, mrz } = fields;
+    const findings: FieldFinding[] = [];
+    const add = (check: FieldCheck, field: keyof IdentityFields, passed: boolean, message: string) =>
+        findings.push({ check, field, passed, message, score: passed ? 0 : penalties[check] });
+
+    // Dates
+    if (!expiryDate) add('expiry', 'expiryDate', false, 'No expiry date was read on the document');
+    else if (expiryDate < today) add('expiry', 'expiryDate', false, `Document expired on ${expiryDate}`);
+    else add('expiry', 'expiryDate', true, `Document is valid until ${expiryDate}`);
+
+    if (issueDate) {
+        if (issueDate > today) add('issue-date', 'issueDate', false, `Issue date ${issueDate} is in the future`);
+        else if (expiryDate && expiryDate <= issueDate)
+            add('issue-date', 'issueDate', false, `Expiry date ${expiryDate} is not after issue date ${issueDate}`);
+        else if (expiryDate && expiryDate > addYears(issueDate, maxValidityYears))
+            add(
+                'issue-date',
+                'issueDate',
+                false,
+                `Validity from ${issueDate} to ${expiryDate} exceeds ${maxValidityYears} years`,
+            );
+        else add('issue-date', 'issueDate', true, `Issue date ${issueDate} is consistent`);
+    }
+
+    if (birthDate) {
+        const age = ageOn(birthDate, now);
+        if (birthDate > today) add('birth-date', 'birthDate', false, `Birth date ${birthDate} is in the future`);
+        else if (issueDate && birthDate > issueDate)
+            add('birth-date', 'birthDate', false, `Birth date ${birthDate} is after issue date ${issueDate}`);
+        else if (age > 130) add('birth-date', 'birthDate', false, `Birth date ${birthDate} is not plausible`);
+        else add('birth-date', 'birthDate', true, `Birth date ${birthDate} is plausible`);
+
+        if (minimumAge !== null && birthDate <= today) {
+            add(
+                'minimum-age',
+                'birthDate',
+                age >= minimumAge,
+                age >= minimumAge
+                    ? `Holder is at least ${minimumAge} years old`
+                    : `Holder is ${age}, under the minimum age of ${minimumAge}`,
+            );
+        }
+    }
+
+    // Countries
+    const countryCheck = (check: 'issuing-country' | 'nationality', field: 'issuingCountry' | 'nationality') => {
+        const value = fields[field];
+        // Printed as a word ("Française"): nothing to check
+        if (!value || !/^[A-Z<]{1,3}$/i.test(value.trim())) return null;
+        const code = toAlpha3(value);
+        const label = check === 'nationality' ? 'Nationality' : 'Issuing state';
+        if (!code) add(check, field, false, `${label} ${value} is not an ISO 3166 country code`);
+        else if (allowedCountries && !allowedCountries.includes(code))
+            add(check, field, false, `${label} ${code} is not accepted`);
+        else add(check, field, true, `${label} ${code} is valid`);
+        return code;
+    };
+    const issuingCountry = countryCheck('issuing-country', 'issuingCountry') ?? (mrz && toAlpha3(mrz.issuingState));
+    countryCheck('nationality', 'nationality');
+
+    // Document number, for countries with known formats
+    const documentType =
+        fields.documentType ?? (mrz ? (mrz.documentCode.startsWith('P') ? 'passport' : 'id-card') : null);
+    if (fields.documentNumber && issuingCountry) {
+        const options = { documentType: documentType ?? undefined, issueDate: issueDate ?? undefined };
+        if (documentNumberFormats(issuingCountry, options, formats).length) {
+            const format = matchDocumentNumber(fields.documentNumber, issuingCountry, options, formats);
+            add(
+                'document-number',
+                'documentNumber',
+                format !== null,
+                format
+                    ? `Document number matches the ${format.id} format`
+                    : `Document number ${fields.documentNumber} does not match the ${issuingCountry} formats`,
+            );
+        }
+    }
+
+    // MRZ vs visual zone
+    if (mrz) {
+        add(
+            'mrz-check-digits',
+            'mrz',
+            mrz.valid,
+            mrz.valid
+                ? 'MRZ check digits are valid'
+                : `MRZ check digits are invalid (${mrz.checks
+                      .filter((c) => !c.valid)
+                      .map((c) => c.field)
+                      .join(', ')})`,
+        );
+        const compare = (field: keyof IdentityFields, label: string, same: boolean | null) => {
+            if (same === null) return;
+            add(
+                'mrz-match',
+                field,
+                same,
+                same ? `MRZ and visual zone agree on the ${label}` : `MRZ and visual zone differ on the ${label}`,
+            );
+        };
+        const both = <T>(a: T | null | undefined, b: T | null | undefined, eq: (a: T, b: T) => boolean) =>
+            a && b ? eq(a, b) : null;
+        compare('surname', 'surname', both(fields.surname, mrz.surname, namesMatch));
+        compare('givenNames', 'given names', both(fields.givenNames, mrz.givenNames, namesMatch));
+        compare(
+            'documentNumber',
+            'document number',
+            both(
+                fields.documentNumber,
+                mrz.documentNumber,
+                (a, b) => normalizeDocumentNumber(a) === normalizeDocumentNumber(b),
+            ),
+        );
+        compare(
+            'birthDate',
+            'birth date',
+            both(birthDate, mrz.birthDate, (a, b) => a === b),
+        );
+        compare(
+            'expiryDate',
+            'expiry date',
+            both(expiryDate, mrz.expiryDate, (a, b) => a === b),
+        );
+        compare(
+            'sex',
+            'sex',
+            both(fields.sex, mrz.sex === 'X' ? null : mrz.sex, (a, b) => sexCode(a) === b),
+        );
+        // Printed nationalities are often words ("Française"): only codes are compared
+        compare(
+            'nationality',
+            'nationality',
+            both(fields.nationality && toAlpha3(fields.nationality), toAlpha3(mrz.nationality), (a, b) => a === b),
+        );
+        compare(
+            'issuingCountry',
+            'issuing state',
+            both(
+                fields.issuingCountry && toAlpha3(fields.issuingCountry),
+                toAlpha3(mrz.issuingState),
+                (a, b) => a === b,
+            ),
+        );
+    }
+
+    return {
+        findings,
+        causes: findings.map(({ message, score }) => ({ message, score })),
+        score: findings.reduce((sum, f) => sum + f.score, 0),
+        valid: findings.every((f) => f.passed),
+    };
+}
@@ -0,0 +1,10 @@
+export { EU_MEMBER_STATES, ICAO_SPECIAL_CODES, ISO_3166_ALPHA3, toAlpha3 } from './countries';
+export {
+    DOCUMENT_NUMBER_FORMATS,
+    documentNumberFormats,
+    matchDocumentNumber,
+    normalizeDocumentNumber,
+} from './documentNumber';
+export type { DocumentNumberFormat, IdentityDocumentType } from './documentNumber';
+export { ageOn, DEFAULT_FIELD_PENALTIES, validateIdentityFields } from './fields';
+export type { FieldCheck, FieldFinding, FieldValidationOptions, FieldValidationReport, IdentityFields } from './fields';
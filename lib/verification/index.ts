@@ -0,0 +1,12 @@
+export { faceSimilarity, summarizeVerification, verificationVerdict } from './summary';
+export { DEFAULT_VERIFICATION_THRESHOLDS } from './types';
+export type {
+    FaceMatch,
+    VerificationCause,
+    VerificationResponse,
+    VerificationSummary,
+    VerificationThresholds,
+    VerificationVerdict,
+} from './types';
+export { validateVerificationResponse } from './validate';
+export type { VerificationValidation } from './validate';
@@ -0,0 +1,39 @@
+import {
+    DEFAULT_VERIFICATION_THRESHOLDS,
+    type VerificationResponse,
+    type VerificationSummary,
+    type VerificationThresholds,
+    type VerificationVerdict,
+} from './types';
+
+/** similaritySum when present, else the product of face_matches (as the workflow computes it) */
+export function faceSimilarity(response: VerificationResponse): number | null {
+    if (response.similaritySum !== undefined) return response.similaritySum;
+    if (!response.face_matches?.length) return null;
+    return response.face_matches.reduce((a, m) => a * m.similarity, 1);
+}
+
+export function verificationVerdict(
+    trust: number,
+    similarity: number | null,
+    thresholds: VerificationThresholds = DEFAULT_VERIFICATION_THRESHOLDS,
+): VerificationVerdict {
+    if (trust < thresholds.rejectTrust) return 'reject';
+    if (similarity !== null && similarity < thresholds.rejectSimilarity) return 'reject';
+    const faceOk = similarity === null ? !thresholds.requireFaceMatch : similarity >= thresholds.acceptSimilarity;
+    return trust >= thresholds.acceptTrust && faceOk ? 'accept' : 'manual-review';
+}
+
+export function summarizeVerification(
+    response: VerificationResponse,
+    thresholds: Partial<VerificationThresholds> = {},
+): VerificationSummary {
+    const trust = Number(response.trust);
+    const similarity = faceSimilarity(response);
+    return {
+        trust,
+        causes: response.cause,
+        faceSimilarity: similarity,
+        verdict: verificationVerdict(trust, similarity, { ...DEFAULT_VERIFICATION_THRESHOLDS, ...thresholds }),
+    };
+}
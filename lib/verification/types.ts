@@ -0,0 +1,62 @@
+// === Verification response of the n8n workflow (n8n.schema.json) ===
+
+/** One entry of the Structured Output Parser `cause` array */
+export interface VerificationCause {
+    /** Why the score was applied */
+    message: string;
+    /** Penalty (0 when the rule passed, negative otherwise) */
+    score: number;
+}
+
+/** One CompreFace match ("Extract Face Matching Result" node) */
+export interface FaceMatch {
+    /** 0..1 */
+    similarity: number;
+    box?: { x_min: number; y_min: number; x_max: number; y_max: number; probability?: number };
+}
+
+/**
+ * Workflow response: the Structured Output Parser fields (`trust`, `cause`) merged
+ * with the CompreFace results (`face_matches`, or their product `similaritySum`)
+ */
+export interface VerificationResponse {
+    /** 0..1, as a decimal string (e.g. "0.5000") in the parser schema */
+    trust: string | number;
+    cause: VerificationCause[];
+    face_matches?: FaceMatch[];
+    /** Product of the face match similarities ("Sum Similarity Score" node) */
+    similaritySum?: number;
+}
+
+export type VerificationVerdict = 'accept' | 'reject' | 'manual-review';
+
+export interface VerificationThresholds {
+    /** Trust at or above which the check can be accepted */
+    acceptTrust: number;
+    /** Trust below which the check is rejected */
+    rejectTrust: number;
+    /** Face similarity at or above which the check can be accepted */
+    acceptSimilarity: number;
+    /** Face similarity below which the check is rejected */
+    rejectSimilarity: number;
+    /** Without a face similarity the check goes to manual review instead of being accepted */
+    requireFaceMatch: boolean;
+}
+
+export const DEFAULT_VERIFICATION_THRESHOLDS: VerificationThresholds = {
+    acceptTrust: 0.8,
+    rejectTrust: 0.4,
+    acceptSimilarity: 0.9,
+    rejectSimilarity: 0.6,
+    requireFaceMatch: true,
+};
+
+/** Normalized response with the verdict for the given thresholds */
+export interface VerificationSummary {
+    /** 0..1 */
+    trust: number;
+    causes: VerificationCause[];
+    /** 0..1, null when the workflow returned no face match */
+    faceSimilarity: number | null;
+    verdict: VerificationVerdict;
+}
@@ -0,0 +1,71 @@
+import type { FaceMatch, VerificationCause, VerificationResponse } from './types';
+
+// === Runtime validation of the workflow response ===
+// LLM output goes through n8n's auto-fixing parser, but numbers still come back as
+// strings at times: numeric strings are accepted and converted.
+
+export type VerificationValidation =
+    | { valid: true; response: VerificationResponse }
+    | { valid: false; errors: string[] };
+
+function toNumber(value: unknown): number | null {
+    const n = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+    return typeof n === 'number' && Number.isFinite(n) ? n : null;
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+    return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+export function validateVerificationResponse(input: unknown): VerificationValidation {
+    const errors: string[] = [];
+    // n8n may answer with the array of items
+    const json = Array.isArray(input) ? input[0] : input;
+    if (!isObject(json)) return { valid: false, errors: ['response is not an object'] };
+
+    const trust = toNumber(json.trust);
+    if (trust === null) errors.push('trust is not a number');
+    else if (trust < 0 || trust > 1) errors.push('trust is not within 0..1');
+
+    const cause: VerificationCause[] = [];
+    if (!Array.isArray(json.cause)) errors.push('cause is not an array');
+    else
+        json.cause.forEach((c, i) => {
+            const score = isObject(c) ? toNumber(c.score) : null;
+            if (!isObject(c) || typeof c.message !== 'string') errors.push(`cause[${i}].message is not a string`);
+            else if (score === null) errors.push(`cause[${i}].score is not a number`);
+            else cause.push({ message: c.message, score });
+        });
+
+    let faceMatches: FaceMatch[] | undefined;
+    if (json.face_matches !== undefined) {
+        if (!Array.isArray(json.face_matches)) errors.push('face_matches is not an array');
+        else
+            faceMatches = json.face_matches.flatMap((m, i) => {
+                const similarity = isObject(m) ? toNumber(m.similarity) : null;
+                if (similarity === null) {
+                    errors.push(`face_matches[${i}].similarity is not a number`);
+                    return [];
+                }
+                return [{ ...(m as object), similarity } as FaceMatch];
+            });
+    }
+
+    let similaritySum: number | undefined;
+    if (json.similaritySum !== undefined) {
+        const n = toNumber(json.similaritySum);
+        if (n === null) errors.push('similaritySum is not a number');
+        else similaritySum = n;
+    }
+
+    if (errors.length) return { valid: false, errors };
+    return {
+        valid: true,
+        response: {
+            trust: json.trust as string | number,
+            cause,
+            ...(faceMatches ? { face_matches: faceMatches } : {}),
+            ...(similaritySum !== undefined ? { similaritySum } : {}),
+        },
+    };
+}
@@ -0,0 +1,111 @@
+// Local stand-in for the n8n verification workflow, to exercise submitVerification
+// without a running n8n instance.
+//
+//   node scripts/mock-n8n.mjs            (PORT=5679, FAIL_RATE=0.3 to test retries of uploads/webhook)
+//
+// PORT=0 picks a free port (printed on the first line); FAIL_FIRST=n answers 503 to the first n
+// uploads/webhook calls; RESPONSE_MODE=onReceived answers the webhook like n8n's default
+// "Immediately" mode, before the workflow has a result.
+//
+// - POST /presign        -> { uploadUrl, fileUrl } for a pre-signed upload
+// - PUT  /uploads/:id    -> stores the file in memory
+// - GET  /uploads/:id    -> serves it back (what the workflow's Download nodes do)
+// - POST /webhook        -> JSON (presigned mode) or multipart body; answers with a
+//                           Structured Output Parser-shaped result
+import { randomUUID } from 'node:crypto';
+import { createServer } from 'node:http';
+
+const FAIL_RATE = Number(process.env.FAIL_RATE ?? 0);
+const RESPONSE_MODE = process.env.RESPONSE_MODE ?? 'lastNode';
+let failFirst = Number(process.env.FAIL_FIRST ?? 0);
+let port = Number(process.env.PORT ?? 5679);
+const uploads = new Map();
+
+function readBody(req) {
+    return new Promise((resolve, reject) => {
+        const chunks = [];
+        req.on('data', (c) => chunks.push(c));
+        req.on('end', () => resolve(Buffer.concat(chunks)));
+        req.on('error', reject);
+    });
+}
+
+function send(res, status, body, type = 'application/json') {
+    res.writeHead(status, { 'Content-Type': type });
+    res.end(type === 'application/json' ? JSON.stringify(body) : body);
+}
+
+const server = createServer(async (req, res) => {
+    // Browser demos run on another origin
+    res.setHeader('Access-Control-Allow-Origin', '*');
+    res.setHeader('Access-Control-Allow-Methods', 'GET, POST, PUT, OPTIONS');
+    res.setHeader('Access-Control-Allow-Headers', '*');
+    if (req.method === 'OPTIONS') return send(res, 204, '', 'text/plain');
+
+    const url = new URL(req.url ?? '/', `http://localhost:${port}`);
+    const body = await readBody(req);
+    console.log(req.method, url.pathname, `${body.length} bytes`);
+
+    if (req.method !== 'GET' && url.pathname !== '/presign' && (failFirst-- > 0 || Math.random() < FAIL_RATE))
+        return send(res, 503, { message: 'Simulated outage' });
+
+    if (req.method === 'POST' && url.pathname === '/presign') {
+        const id = randomUUID();
+        const fileUrl = `http://localhost:${port}/uploads/${id}`;
+        return send(res, 200, { uploadUrl: fileUrl, fileUrl });
+    }
+    const upload = url.pathname.match(/^\/uploads\/([\w-]+)$/);
+    if (upload && req.method === 'PUT') {
+        uploads.set(upload[1], { type: req.headers['content-type'] ?? 'application/octet-stream', body });
+        return send(res, 200, { ok: true });
+    }
+    if (upload && req.method === 'GET') {
+        const file = uploads.get(upload[1]);
+        return file ? send(res, 200, file.body, file.type) : send(res, 404, { message: 'Not found' });
+    }
+    if (req.method === 'POST' && url.pathname === '/webhook') {
+        const type = req.headers['content-type'] ?? '';
+        let received;
+        if (type.startsWith('application/json')) {
+            let json;
+            try {
+                json = JSON.parse(body.toString('utf8'));
+            } catch {
+                return send(res, 400, { message: 'Malformed JSON body' });
+            }
+            if (typeof json !== 'object' || json === null) return send(res, 400, { message: 'Expected a JSON object' });
+            const missing = ['idDocumentFile', 'selfieWithIdDocumentFile'].filter(
+                (k) =>
+                    !uploads.has(
+                        String(json[k] ?? '')
+                            .split('/')
+                            .pop(),
+                    ),
+            );
+            if (missing.length) return send(res, 400, { message: `Unknown file URL for ${missing.join(', ')}` });
+            received = json;
+        } else if (type.startsWith('multipart/form-data')) {
+            const text = body.toString('latin1');
+            received = [...text.matchAll(/; name="([^"]+)"/g)].map((m) => m[1]);
+        } else {
+            return send(res, 415, { message: `Unsupported content type ${type}` });
+        }
+        console.log('  received', received);
+        if (RESPONSE_MODE === 'onReceived') return send(res, 200, { message: 'Workflow was started' });
+        return send(res, 200, {
+            trust: '0.9000',
+            cause: [
+                { message: 'Name contains only letters', score: 0 },
+                { message: 'Document is not expired', score: 0 },
+                { message: 'Image metadata does not show a smartphone camera', score: -0.1 },
+            ],
+            similaritySum: 0.97,
+        });
+    }
+    send(res, 404, { message: 'Not found' });
+});
+
+server.listen(port, () => {
+    port = server.address().port;
+    console.log(`Mock n8n on http://localhost:${port} (webhook: /webhook)`);
+});
@@ -0,0 +1,116 @@
+// Detection regression run: replays recorded sessions and labelled fixture images through
+// the card cascade, the face detector and the quality gates. Runs the library sources through
+// Vite (no build needed); no browser, DOM or canvas.
+//
+//   node scripts/replay.mjs corpus/ --models corpus/models   (files or directories, searched recursively)
+//   node scripts/replay.mjs corpus/ --opencv public/opencv/opencv.js --verbose
+//
+// --models: face-api models directory with the TinyFaceDetector weights; without it face decisions are not replayed
+//
+// - *.json with `frames`  -> a recording (LightIdCheck `record` + `onRecording`, or session.getRecording())
+// - *.png + same-name .json -> a fixture: { "mode": "card", "labels": { "cardOk": true, "qualityPassed": false } }
+// Exits with 1 when a decision differs from its label (or from what the device decided).
+import { readdir, readFile, stat } from 'node:fs/promises';
+import { createRequire } from 'node:module';
+import { extname, join, resolve } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { runnerImport } from 'vite';
+
+const { module: replay } = await runnerImport(fileURLToPath(new URL('../lib/replay/index.ts', import.meta.url)), {
+    configFile: false,
+    logLevel: 'error',
+});
+const { decodePng, replayImage, replayRecording, summarizeReplay, tinyFaceDetectorFromWeights } = replay;
+
+const args = process.argv.slice(2);
+const flag = (name) => {
+    const i = args.indexOf(name);
+    return i === -1 ? null : args.splice(i, 2)[1];
+};
+const opencvPath = flag('--opencv');
+const modelsPath = flag('--models');
+const verbose = args.includes('--verbose');
+const inputs = args.filter((a) => !a.startsWith('--'));
+if (!inputs.length) {
+    console.error(
+        'Usage: node scripts/replay.mjs <file|dir>... [--models path/to/models] [--opencv path/to/opencv.js] [--verbose]',
+    );
+    process.exit(2);
+}
+
+// opencv.js is an Emscripten module: a thenable in recent builds, onRuntimeInitialized in older ones.
+// Returned wrapped: awaiting the thenable module itself never settles
+async function loadOpenCV(path) {
+    let cv = createRequire(import.meta.url)(resolve(path));
+    if (typeof cv.then === 'function') cv = (await new Promise((r) => cv.then((m) => r({ m })))).m;
+    if (!cv.getBuildInformation) await new Promise((r) => (cv.onRuntimeInitialized = r));
+    return { cv };
+}
+
+// Same files the app serves for face-api (manifest + shards), read from disk
+async function loadFaceDetector(dir) {
+    const manifest = await readJson(join(dir, 'tiny_face_detector_model-weights_manifest.json'));
+    const shards = await Promise.all(manifest.flatMap((group) => group.paths).map((p) => readFile(join(dir, p))));
+    return tinyFaceDetectorFromWeights({ manifest, weights: Buffer.concat(shards) });
+}
+
+async function files(path) {
+    if (!(await stat(path)).isDirectory()) return [path];
+    const entries = await readdir(path);
+    return (await Promise.all(entries.sort().map((e) => files(join(path, e))))).flat();
+}
+
+async function readJson(path) {
+    return JSON.parse(await readFile(path, 'utf8'));
+}
+
+const opencv = opencvPath ? (await loadOpenCV(opencvPath)).cv : undefined;
+if (!opencv) console.log('OpenCV not loaded (--opencv): OpenCV detectors fall back to the heuristic one');
+const face = modelsPath ? await loadFaceDetector(modelsPath) : undefined;
+if (!face) console.log('No face models (--models): face decisions are not replayed');
+console.log();
+
+const all = (await Promise.all(inputs.map(files))).flat();
+let failures = 0;
+let checks = 0;
+
+for (const path of all) {
+    let report;
+    if (extname(path) === '.json') {
+        const json = await readJson(path);
+        if (!Array.isArray(json.frames)) continue; // a fixture label
+        report = await replayRecording(json, { opencv, face });
+    } else if (extname(path) === '.png') {
+        const label = await readJson(path.replace(/\.png$/, '.json')).catch(() => null);
+        if (!label) {
+            console.warn(`skip ${path}: no label file`);
+            continue;
+        }
+        const image = await decodePng(await readFile(path));
+        report = summarizeReplay([await replayImage(image, label, { opencv, face })]);
+    } else {
+        continue;
+    }
+
+    checks += report.checks;
+    failures += report.failures;
+    console.log(`${report.passed ? 'ok  ' : 'FAIL'} ${path} (${report.checks - report.failures}/${report.checks})`);
+    report.frames.forEach((frame, i) => {
+        const failed = frame.checks.filter((c) => !c.passed);
+        if (!failed.length && !verbose) return;
+        const detected = frame.face ? `face ${frame.face.box ? 'yes' : 'no'} ${frame.face.confidence.toFixed(3)}` : '';
+        const card = frame.card
+            ? `card ${frame.card.detector} ${frame.card.ok ? 'ok' : 'no'} ${frame.card.confidence.toFixed(3)}`
+            : '';
+        const quality = (frame.quality?.checks ?? [])
+            .map((c) => `${c.passed ? '✓' : '✗'}${c.name} ${c.score.toFixed(3)}`)
+            .join(' ');
+        const decisions = frame.checks
+            .map((c) => `${c.passed ? '' : '!'}${c.decision}=${c.actual} (want ${c.expected})`)
+            .join(', ');
+        console.log(`    #${i} ${frame.mode} ${card}${detected} ${quality}\n        ${decisions}`);
+    });
+}
+
+console.log(`\n${checks - failures}/${checks} decisions match`);
+process.exit(failures ? 1 : 0);
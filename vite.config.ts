@@ -10,6 +10,7 @@ export default defineConfig({
         react(),
         dts({
             tsconfigPath: resolve(__dirname, 'tsconfig.lib.json'),
+            exclude: ['lib/**/*.test.ts'],
         }),
     ],
     css: {
@@ -19,9 +20,14 @@ export default defineConfig({
     },
     build: {
         lib: {
-          entry: resolve(__dirname, 'lib/main.ts'),
+          // `server`: the Node verification pipeline (@nwzx/light-id-check/server); `replay`: the detection replay runner
+          entry: {
+              main: resolve(__dirname, 'lib/main.ts'),
+              server: resolve(__dirname, 'lib/server/index.ts'),
+              replay: resolve(__dirname, 'lib/replay/index.ts'),
+          },
           name: 'LightIdCheck',
-          fileName: (format) => (format === 'es' ? 'main.js' : 'main.cjs'),
+          fileName: (format, entryName) => (format === 'es' ? `${entryName}.js` : `${entryName}.cjs`),
             formats: ['es', 'cjs'],
         },
         rollupOptions: {
@@ -32,6 +38,8 @@ export default defineConfig({
               'tailwindcss',
               '@tensorflow/tfjs',
               'face-api.js',
+              'tesseract.js',
+              'zxing-wasm/reader',
             ],
         },
         sourcemap: true,